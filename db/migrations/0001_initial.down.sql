@@ -0,0 +1,6 @@
+-- Drops everything created by 0001_initial. Extensions are left in place.
+
+drop table if exists bookmarks;
+drop table if exists items;
+drop table if exists lists;
+drop table if exists users;
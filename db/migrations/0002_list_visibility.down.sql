@@ -0,0 +1,4 @@
+drop index if exists idx_lists_visibility;
+alter table lists
+  drop column if exists share_token,
+  drop constraint if exists lists_visibility_check;
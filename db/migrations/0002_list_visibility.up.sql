@@ -0,0 +1,7 @@
+-- Lists were only ever created as 'public' before this, so existing rows pass the check.
+alter table lists drop constraint if exists lists_visibility_check;
+alter table lists
+  add constraint lists_visibility_check check (visibility in ('private', 'unlisted', 'public')),
+  add column if not exists share_token text unique;
+
+create index if not exists idx_lists_visibility on lists(visibility);
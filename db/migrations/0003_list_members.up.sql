@@ -0,0 +1,17 @@
+create table if not exists list_members (
+  list_id uuid not null references lists(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  status text not null default 'pending' check (status in ('pending', 'accepted')),
+  invited_by uuid references users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz,
+  primary key (list_id, user_id)
+);
+
+create index if not exists idx_list_members_user on list_members(user_id, status);
+
+-- Every list owner is also an accepted owner member.
+insert into list_members (list_id, user_id, role, status, accepted_at)
+select id, owner_id, 'owner', 'accepted', created_at from lists
+on conflict (list_id, user_id) do nothing;
@@ -0,0 +1,6 @@
+drop index if exists idx_items_deleted;
+drop index if exists idx_lists_deleted;
+alter table items drop column if exists deleted_at;
+alter table lists
+  drop column if exists deleted_at,
+  drop column if exists archived_at;
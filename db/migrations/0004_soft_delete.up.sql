@@ -0,0 +1,7 @@
+alter table lists
+  add column if not exists archived_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+alter table items add column if not exists deleted_at timestamptz;
+
+create index if not exists idx_lists_deleted on lists(deleted_at) where deleted_at is not null;
+create index if not exists idx_items_deleted on items(deleted_at) where deleted_at is not null;
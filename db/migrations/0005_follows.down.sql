@@ -0,0 +1,3 @@
+drop index if exists idx_items_list_created;
+drop table if exists follows;
+alter table items drop column if exists completed_at;
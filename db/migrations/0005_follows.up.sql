@@ -0,0 +1,12 @@
+alter table items add column if not exists completed_at timestamptz;
+
+create table if not exists follows (
+  follower_id uuid not null references users(id) on delete cascade,
+  followee_id uuid not null references users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (follower_id, followee_id),
+  check (follower_id <> followee_id)
+);
+
+create index if not exists idx_follows_followee on follows(followee_id);
+create index if not exists idx_items_list_created on items(list_id, created_at desc);
@@ -0,0 +1,7 @@
+-- pg_trgm is left in place, as 0001_initial leaves pgcrypto.
+drop index if exists idx_items_search;
+drop index if exists idx_lists_search;
+drop index if exists idx_users_display_name_trgm;
+drop index if exists idx_users_handle_trgm;
+alter table items drop column if exists search_vector;
+alter table lists drop column if exists search_vector;
@@ -0,0 +1,16 @@
+create extension if not exists "pg_trgm";
+
+alter table lists add column if not exists search_vector tsvector generated always as (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(type, '')), 'B')
+) stored;
+alter table items add column if not exists search_vector tsvector generated always as (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(note, '')), 'B') ||
+  setweight(to_tsvector('simple', regexp_replace(coalesce(url, ''), '[/:.?=&_-]+', ' ', 'g')), 'C')
+) stored;
+
+create index if not exists idx_users_handle_trgm on users using gin (lower(handle) gin_trgm_ops);
+create index if not exists idx_users_display_name_trgm on users using gin (lower(display_name) gin_trgm_ops);
+create index if not exists idx_lists_search on lists using gin (search_vector);
+create index if not exists idx_items_search on items using gin (search_vector);
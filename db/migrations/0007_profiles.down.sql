@@ -0,0 +1,5 @@
+drop table if exists handle_history;
+alter table users
+  drop column if exists handle_changed_at,
+  drop column if exists avatar_url_custom,
+  drop column if exists display_name_custom;
@@ -0,0 +1,14 @@
+alter table users
+  add column if not exists display_name_custom boolean not null default false,
+  add column if not exists avatar_url_custom boolean not null default false,
+  add column if not exists handle_changed_at timestamptz;
+
+-- Released handles stay reserved for their previous owner until expires_at.
+create table if not exists handle_history (
+  handle text primary key,
+  user_id uuid not null references users(id) on delete cascade,
+  released_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists idx_handle_history_user on handle_history(user_id);
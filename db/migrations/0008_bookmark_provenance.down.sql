@@ -0,0 +1,4 @@
+drop index if exists idx_bookmarks_user_source;
+drop index if exists idx_bookmarks_created_item;
+drop index if exists idx_bookmarks_source_item;
+alter table bookmarks drop constraint if exists bookmarks_created_item_id_fkey;
@@ -0,0 +1,18 @@
+-- Bookmarks whose copy was already deleted have nothing left to point at.
+delete from bookmarks b
+where not exists (select 1 from items i where i.id = b.created_item_id);
+alter table bookmarks drop constraint if exists bookmarks_created_item_id_fkey;
+alter table bookmarks
+  add constraint bookmarks_created_item_id_fkey
+  foreign key (created_item_id) references items(id) on delete cascade;
+
+create index if not exists idx_bookmarks_source_item on bookmarks(source_item_id);
+create index if not exists idx_bookmarks_created_item on bookmarks(created_item_id);
+
+-- Keep the earliest bookmark per user and source item before enforcing uniqueness.
+delete from bookmarks b
+using bookmarks older
+where b.user_id = older.user_id
+  and b.source_item_id = older.source_item_id
+  and (b.created_at, b.id) > (older.created_at, older.id);
+create unique index if not exists idx_bookmarks_user_source on bookmarks(user_id, source_item_id);
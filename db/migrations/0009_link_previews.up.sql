@@ -0,0 +1 @@
+alter table items add column if not exists link_preview jsonb;
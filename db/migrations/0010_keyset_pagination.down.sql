@@ -0,0 +1,3 @@
+drop index if exists idx_users_created_page;
+drop index if exists idx_lists_owner_page;
+drop index if exists idx_items_list_page;
@@ -0,0 +1,6 @@
+-- Keyset pages walk these orderings; see PageParams in src/repository.ts.
+create index if not exists idx_items_list_page
+  on items(list_id, status, order_index, created_at desc, id desc)
+  where deleted_at is null;
+create index if not exists idx_lists_owner_page on lists(owner_id, created_at desc, id desc);
+create index if not exists idx_users_created_page on users(created_at desc, id desc);
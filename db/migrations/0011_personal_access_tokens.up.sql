@@ -0,0 +1,16 @@
+create table if not exists personal_access_tokens (
+  id uuid primary key,
+  user_id uuid not null references users(id) on delete cascade,
+  name text not null,
+  token_hash text not null unique,
+  token_prefix text not null,
+  scopes text[] not null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  expires_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists idx_personal_access_tokens_user
+  on personal_access_tokens(user_id, created_at desc)
+  where revoked_at is null;
@@ -0,0 +1,19 @@
+create table if not exists list_events (
+  id uuid primary key,
+  list_id uuid not null references lists(id) on delete cascade,
+  -- No foreign key: entries outlive purged items.
+  item_id uuid,
+  actor_id uuid not null references users(id) on delete cascade,
+  action text not null,
+  before jsonb,
+  after jsonb,
+  reverts_event_id uuid references list_events(id) on delete cascade,
+  -- clock_timestamp keeps entries written in one transaction in order.
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists idx_list_events_list on list_events(list_id, created_at desc, id desc);
+create index if not exists idx_list_events_actor on list_events(list_id, actor_id, created_at desc);
+-- An entry can only be undone once, even by concurrent requests.
+create unique index if not exists idx_list_events_reverts on list_events(reverts_event_id)
+  where reverts_event_id is not null;
@@ -0,0 +1,7 @@
+drop index if exists idx_items_forked_from;
+drop index if exists idx_lists_forked_from;
+alter table items drop column if exists forked_from_item_id;
+alter table lists
+  drop column if exists fork_synced_at,
+  drop column if exists fork_sync,
+  drop column if exists forked_from_list_id;
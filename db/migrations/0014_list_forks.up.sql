@@ -0,0 +1,13 @@
+alter table lists
+  add column if not exists forked_from_list_id uuid references lists(id) on delete set null,
+  add column if not exists fork_sync boolean not null default false,
+  add column if not exists fork_synced_at timestamptz;
+
+-- No foreign key: a copy stays linked to its upstream item even after that one is purged,
+-- so a later sync does not bring it back.
+alter table items add column if not exists forked_from_item_id uuid;
+
+create index if not exists idx_lists_forked_from on lists(forked_from_list_id)
+  where forked_from_list_id is not null;
+create index if not exists idx_items_forked_from on items(list_id, forked_from_item_id)
+  where forked_from_item_id is not null;
@@ -0,0 +1,2 @@
+drop table if exists list_types;
+alter table items drop column if exists attributes;
@@ -0,0 +1,15 @@
+-- Type-specific fields such as year or author, validated against the list's type on write.
+alter table items add column if not exists attributes jsonb not null default '{}'::jsonb;
+
+create table if not exists list_types (
+  id uuid primary key,
+  owner_id uuid not null references users(id) on delete cascade,
+  name text not null,
+  label text not null,
+  fields jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- A list uses the owner's type whose name matches its `type`, ignoring case.
+create unique index if not exists idx_list_types_owner_name on list_types(owner_id, lower(name));
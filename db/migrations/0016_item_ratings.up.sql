@@ -0,0 +1,13 @@
+create table if not exists item_ratings (
+  user_id uuid not null references users(id) on delete cascade,
+  -- The rated item or, for a bookmarked copy, the item it was copied from, so copies share ratings.
+  item_id uuid not null references items(id) on delete cascade,
+  rating numeric(2, 1) not null check (rating between 1 and 5 and rating * 2 = round(rating * 2)),
+  review text check (char_length(review) <= 1000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, item_id)
+);
+
+create index if not exists idx_item_ratings_item on item_ratings(item_id);
+create index if not exists idx_item_ratings_top on item_ratings(user_id, rating desc, updated_at desc);
@@ -0,0 +1,2 @@
+drop table if exists reactions;
+drop table if exists comments;
@@ -0,0 +1,34 @@
+create table if not exists comments (
+  id uuid primary key,
+  list_id uuid not null references lists(id) on delete cascade,
+  -- Null for comments on the list itself.
+  item_id uuid references items(id) on delete cascade,
+  parent_id uuid references comments(id) on delete cascade,
+  -- The top-level comment a reply belongs to, so a whole thread loads with one query.
+  thread_id uuid references comments(id) on delete cascade,
+  author_id uuid not null references users(id) on delete cascade,
+  -- Emptied when a comment is deleted but kept for its replies.
+  body text not null check (char_length(body) <= 2000),
+  edited_at timestamptz,
+  -- Set by the list owner; the comment stays in the thread but its body isn't shown.
+  hidden_at timestamptz,
+  deleted_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_comments_target on comments(list_id, item_id, created_at desc, id desc)
+  where parent_id is null;
+create index if not exists idx_comments_thread on comments(thread_id, created_at);
+
+create table if not exists reactions (
+  user_id uuid not null references users(id) on delete cascade,
+  list_id uuid not null references lists(id) on delete cascade,
+  -- Null for reactions to the list itself.
+  item_id uuid references items(id) on delete cascade,
+  emoji text not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_reactions_unique
+  on reactions(user_id, list_id, coalesce(item_id, '00000000-0000-0000-0000-000000000000'::uuid), emoji);
+create index if not exists idx_reactions_list on reactions(list_id, item_id);
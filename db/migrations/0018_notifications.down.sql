@@ -0,0 +1,2 @@
+drop table if exists notification_mutes;
+drop table if exists notifications;
@@ -0,0 +1,22 @@
+create table if not exists notifications (
+  id uuid primary key,
+  user_id uuid not null references users(id) on delete cascade,
+  actor_id uuid not null references users(id) on delete cascade,
+  type text not null,
+  list_id uuid references lists(id) on delete cascade,
+  item_id uuid references items(id) on delete cascade,
+  -- How many events the notification stands for: an actor's repeated list edits fold into
+  -- one unread notification.
+  count integer not null default 1,
+  read_at timestamptz,
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists idx_notifications_user on notifications(user_id, created_at desc, id desc);
+create index if not exists idx_notifications_unread on notifications(user_id) where read_at is null;
+
+create table if not exists notification_mutes (
+  user_id uuid not null references users(id) on delete cascade,
+  type text not null,
+  primary key (user_id, type)
+);
@@ -0,0 +1,4 @@
+drop materialized view if exists user_popularity;
+drop materialized view if exists list_popularity;
+drop materialized view if exists item_popularity;
+drop materialized view if exists item_co_saves;
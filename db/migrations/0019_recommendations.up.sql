@@ -0,0 +1,33 @@
+-- Recommendation signals from bookmarks. They are materialized views so requests only read
+-- them; the server refreshes them every RECOMMENDATIONS_REFRESH_MINUTES. The unique indexes let
+-- the refresh run concurrently with those reads.
+
+-- How many users saved both items, for every pair of saved source items.
+create materialized view if not exists item_co_saves as
+  select a.source_item_id as item_id, b.source_item_id as related_item_id, count(*)::int as co_saves
+  from bookmarks a
+  join bookmarks b on b.user_id = a.user_id and b.source_item_id <> a.source_item_id
+  group by a.source_item_id, b.source_item_id;
+
+create unique index if not exists idx_item_co_saves_pair on item_co_saves(item_id, related_item_id);
+
+create materialized view if not exists item_popularity as
+  select source_item_id as item_id, count(*)::int as save_count
+  from bookmarks
+  group by source_item_id;
+
+create unique index if not exists idx_item_popularity_item on item_popularity(item_id);
+
+create materialized view if not exists list_popularity as
+  select source_list_id as list_id, count(*)::int as save_count
+  from bookmarks
+  group by source_list_id;
+
+create unique index if not exists idx_list_popularity_list on list_popularity(list_id);
+
+create materialized view if not exists user_popularity as
+  select source_user_id as user_id, count(*)::int as save_count
+  from bookmarks
+  group by source_user_id;
+
+create unique index if not exists idx_user_popularity_user on user_popularity(user_id);
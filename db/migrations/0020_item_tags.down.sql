@@ -0,0 +1,2 @@
+drop index if exists idx_items_tags;
+alter table items drop column if exists tags;
@@ -0,0 +1,4 @@
+-- Free-form tags, normalized and sorted by the app, so equal sets compare equal.
+alter table items add column if not exists tags text[] not null default '{}';
+
+create index if not exists idx_items_tags on items using gin (tags);
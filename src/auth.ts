@@ -1,11 +1,23 @@
-import { createRemoteJWKSet, jwtVerify } from "jose";
+import { createHash, randomBytes } from "node:crypto";
+import { createRemoteJWKSet, decodeJwt, errors, jwtVerify } from "jose";
+import type { JWTPayload } from "jose";
 import type { IncomingMessage } from "node:http";
+import type { Repository } from "./repository.js";
+
+export const SCOPES = ["lists:read", "lists:write"] as const;
+
+export type Scope = (typeof SCOPES)[number];
 
 export type AuthContext = {
   authProviderId: string;
   handle: string;
   displayName?: string | null;
   avatarUrl?: string | null;
+  scopes: Scope[];
+  /** Set when the request authenticated with a personal access token. */
+  accessTokenId?: string | null;
+  /** Epoch milliseconds after which the credentials must be checked again. */
+  expiresAt?: number | null;
 };
 
 export class AuthError extends Error {
@@ -16,6 +28,20 @@ export class AuthError extends Error {
   }
 }
 
+type TrustedIssuer = {
+  /** Null accepts any issuer; only produced by the single-issuer `AUTH_JWKS_URL` setup. */
+  issuer: string | null;
+  jwksUrl: string;
+  audience: string | null;
+};
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "alpat_";
+
+// Personal access tokens are looked up again at least this often, so revocation reaches live sessions.
+const PERSONAL_ACCESS_TOKEN_RECHECK_MS = 60 * 1000;
+
+const JWKS_CACHE_MAX_AGE_MS = Number(process.env.AUTH_JWKS_CACHE_MINUTES ?? 10) * 60 * 1000;
+
 function slugifyHandle(value: string): string {
   const base = value
     .toLowerCase()
@@ -44,7 +70,165 @@ function parseBearerToken(req: IncomingMessage): string | null {
   return token.trim();
 }
 
-export async function getAuthContext(req: IncomingMessage): Promise<AuthContext> {
+export function isScope(value: string): value is Scope {
+  return (SCOPES as readonly string[]).includes(value);
+}
+
+/** `lists:write` implies `lists:read`. */
+export function hasScope(auth: AuthContext, scope: Scope): boolean {
+  return auth.scopes.includes(scope) || (scope === "lists:read" && auth.scopes.includes("lists:write"));
+}
+
+// Accepts both the OAuth `scope` string and the `scp` array some providers use instead.
+// Tokens without any `lists:*` scope, issued before scopes were checked, get `AUTH_DEFAULT_SCOPES`.
+function scopesFromClaims(payload: JWTPayload): Scope[] {
+  const raw = payload.scope ?? payload.scp;
+  const values = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(" ") : [];
+  const scopes = values.filter((value): value is Scope => typeof value === "string" && isScope(value));
+  if (scopes.length > 0) return scopes;
+  return (process.env.AUTH_DEFAULT_SCOPES ?? SCOPES.join(" ")).split(/[\s,]+/).filter(isScope);
+}
+
+/**
+ * Trusted issuers come from `AUTH_ISSUERS`, a JSON array of `{ issuer, jwksUrl?, audience? }`,
+ * or from the single-issuer `AUTH_ISSUER` / `AUTH_JWKS_URL` / `AUTH_AUDIENCE` variables.
+ */
+function loadTrustedIssuers(): TrustedIssuer[] {
+  const configured = process.env.AUTH_ISSUERS;
+  if (configured) {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(configured);
+    } catch {
+      throw new AuthError("AUTH_ISSUERS is not valid JSON", 500);
+    }
+    if (!Array.isArray(entries)) {
+      throw new AuthError("AUTH_ISSUERS must be a JSON array", 500);
+    }
+    return entries.map((entry: { issuer?: unknown; jwksUrl?: unknown; audience?: unknown }) => {
+      if (typeof entry?.issuer !== "string" || !entry.issuer) {
+        throw new AuthError("Every AUTH_ISSUERS entry needs an issuer", 500);
+      }
+      return {
+        issuer: entry.issuer,
+        jwksUrl:
+          typeof entry.jwksUrl === "string"
+            ? entry.jwksUrl
+            : `${entry.issuer.replace(/\/+$/, "")}/.well-known/jwks.json`,
+        audience: typeof entry.audience === "string" ? entry.audience : process.env.AUTH_AUDIENCE || null,
+      };
+    });
+  }
+  const jwksUrl = process.env.AUTH_JWKS_URL;
+  if (!jwksUrl) {
+    return [];
+  }
+  return [
+    {
+      issuer: process.env.AUTH_ISSUER || null,
+      jwksUrl,
+      audience: process.env.AUTH_AUDIENCE || null,
+    },
+  ];
+}
+
+// jose refetches a key set when a token names an unknown `kid`, so rotated keys are picked up
+// without a restart; the cache only bounds how long a removed key keeps verifying.
+const jwksByUrl = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+function getJwks(jwksUrl: string) {
+  let jwks = jwksByUrl.get(jwksUrl);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUrl), { cacheMaxAge: JWKS_CACHE_MAX_AGE_MS });
+    jwksByUrl.set(jwksUrl, jwks);
+  }
+  return jwks;
+}
+
+async function verifyOAuthToken(token: string): Promise<{ payload: JWTPayload; primary: boolean }> {
+  const issuers = loadTrustedIssuers();
+  if (issuers.length === 0) {
+    throw new AuthError("AUTH_ISSUERS or AUTH_JWKS_URL not configured", 500);
+  }
+  let claimedIssuer: string | undefined;
+  try {
+    claimedIssuer = decodeJwt(token).iss;
+  } catch {
+    throw new AuthError("Malformed bearer token", 401);
+  }
+  const trusted = issuers.find((entry) => entry.issuer === null || entry.issuer === claimedIssuer);
+  if (!trusted) {
+    throw new AuthError("Token issuer is not trusted", 401);
+  }
+
+  const { payload } = await jwtVerify(token, getJwks(trusted.jwksUrl), {
+    issuer: trusted.issuer ?? undefined,
+    audience: trusted.audience ?? undefined,
+  }).catch((error) => {
+    if (error instanceof errors.JOSEError) {
+      throw new AuthError(`Invalid bearer token: ${error.message}`, 401);
+    }
+    throw error;
+  });
+  return { payload, primary: trusted === issuers[0] };
+}
+
+export function hashPersonalAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** A new token and what gets stored about it; the token itself is only shown once. */
+export function generatePersonalAccessToken() {
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashPersonalAccessToken(token),
+    tokenPrefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 6),
+  };
+}
+
+async function authenticatePersonalAccessToken(
+  token: string,
+  repo: Pick<Repository, "resolveAccessToken">
+): Promise<AuthContext> {
+  const resolved = await repo.resolveAccessToken(hashPersonalAccessToken(token));
+  if (!resolved) {
+    throw new AuthError("Invalid, expired or revoked access token", 401);
+  }
+  const { token: record, user } = resolved;
+  const recheckAt = Date.now() + PERSONAL_ACCESS_TOKEN_RECHECK_MS;
+  return {
+    authProviderId: user.auth_provider_id,
+    handle: user.handle,
+    displayName: user.display_name,
+    avatarUrl: user.avatar_url,
+    scopes: record.scopes.filter(isScope),
+    accessTokenId: record.id,
+    expiresAt: record.expires_at ? Math.min(Date.parse(record.expires_at), recheckAt) : recheckAt,
+  };
+}
+
+/**
+ * Identifies the credentials a request carries without keeping them, so a session can tell
+ * when its client switched tokens.
+ */
+export function credentialFingerprint(req: IncomingMessage): string {
+  const parts = ["authorization", "x-user-id", "x-user-handle"].map((name) => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value.join(",") : value ?? "";
+  });
+  return createHash("sha256").update(parts.join("\n")).digest("hex");
+}
+
+export async function getAuthContext(
+  req: IncomingMessage,
+  repo: Pick<Repository, "resolveAccessToken">
+): Promise<AuthContext> {
+  const token = parseBearerToken(req);
+  if (token?.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+    return authenticatePersonalAccessToken(token, repo);
+  }
+
   const mode = process.env.AUTH_MODE ?? "dev";
   if (mode !== "oauth") {
     const handle =
@@ -59,46 +243,44 @@ export async function getAuthContext(req: IncomingMessage): Promise<AuthContext>
       authProviderId,
       handle: slugifyHandle(handle),
       displayName: handle,
+      scopes: [...SCOPES],
     };
   }
 
-  const token = parseBearerToken(req);
   if (!token) {
     throw new AuthError("Missing bearer token", 401);
   }
 
-  const jwksUrl = process.env.AUTH_JWKS_URL;
-  if (!jwksUrl) {
-    throw new AuthError("AUTH_JWKS_URL not configured", 500);
-  }
-
-  const jwks = createRemoteJWKSet(new URL(jwksUrl));
-  const issuer = process.env.AUTH_ISSUER;
-  const audience = process.env.AUTH_AUDIENCE;
-
-  const { payload } = await jwtVerify(token, jwks, {
-    issuer: issuer || undefined,
-    audience: audience || undefined,
-  });
-
+  const { payload, primary } = await verifyOAuthToken(token);
   if (!payload.sub) {
     throw new AuthError("Token missing subject", 401);
   }
 
   return {
-    authProviderId: payload.sub,
+    // Subjects are only unique per issuer. The first issuer keeps bare subjects so existing
+    // accounts survive adding another one.
+    authProviderId: primary ? payload.sub : `${payload.iss}#${payload.sub}`,
     handle: pickHandle(payload),
     displayName: (payload.name as string | undefined) || null,
     avatarUrl: (payload.picture as string | undefined) || null,
+    scopes: scopesFromClaims(payload),
+    expiresAt: payload.exp ? payload.exp * 1000 : null,
   };
 }
 
 export function buildProtectedResourceMetadata() {
   const resourceUrl = process.env.BASE_URL || "";
-  const authServer = process.env.AUTH_ISSUER || "";
+  let authorizationServers: string[] = [];
+  try {
+    authorizationServers = loadTrustedIssuers()
+      .map((entry) => entry.issuer)
+      .filter((issuer): issuer is string => !!issuer);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+  }
   return {
     resource: resourceUrl,
-    authorization_servers: authServer ? [authServer] : [],
-    scopes_supported: ["openid", "profile"],
+    authorization_servers: authorizationServers,
+    scopes_supported: ["openid", "profile", ...SCOPES],
   };
 }
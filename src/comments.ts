@@ -0,0 +1,66 @@
+import type { CommentRow } from "./repository.js";
+
+export const COMMENT_MAX_LENGTH = 2000;
+
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🔥", "👀", "🎉"] as const;
+
+export type CommentView = {
+  id: string;
+  parent_id: string | null;
+  author_id: string;
+  author_handle: string;
+  author_display_name: string | null;
+  /** Null once deleted, and for hidden comments unless the viewer wrote them or owns the list. */
+  body: string | null;
+  edited: boolean;
+  hidden: boolean;
+  deleted: boolean;
+  created_at: string;
+  can_edit: boolean;
+  can_delete: boolean;
+  can_moderate: boolean;
+  replies: CommentView[];
+};
+
+/**
+ * Nests replies under their parents, oldest first within a thread. Deleted comments stay as
+ * placeholders while something below them survives.
+ */
+export function buildCommentTrees(
+  threads: CommentRow[],
+  replies: CommentRow[],
+  viewer: { id: string; isListOwner: boolean }
+): CommentView[] {
+  const children = new Map<string, CommentRow[]>();
+  for (const reply of replies) {
+    const siblings = children.get(reply.parent_id!) ?? [];
+    siblings.push(reply);
+    children.set(reply.parent_id!, siblings);
+  }
+  const present = (row: CommentRow): CommentView | null => {
+    const nested = (children.get(row.id) ?? [])
+      .map(present)
+      .filter((reply): reply is CommentView => reply !== null);
+    const deleted = !!row.deleted_at;
+    if (deleted && nested.length === 0) return null;
+    const isAuthor = row.author_id === viewer.id;
+    const hidden = !!row.hidden_at;
+    return {
+      id: row.id,
+      parent_id: row.parent_id,
+      author_id: row.author_id,
+      author_handle: row.author_handle,
+      author_display_name: row.author_display_name,
+      body: deleted || (hidden && !isAuthor && !viewer.isListOwner) ? null : row.body,
+      edited: !!row.edited_at,
+      hidden,
+      deleted,
+      created_at: row.created_at,
+      can_edit: isAuthor && !deleted,
+      can_delete: (isAuthor || viewer.isListOwner) && !deleted,
+      can_moderate: viewer.isListOwner && !deleted,
+      replies: nested,
+    };
+  };
+  return threads.map(present).filter((thread): thread is CommentView => thread !== null);
+}
@@ -1,37 +1,57 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
 import { Pool } from "pg";
+import type { PoolClient } from "pg";
 import { v4 as uuidv4 } from "uuid";
-
-export type DbUser = {
-  id: string;
-  auth_provider_id: string;
-  handle: string;
-  display_name: string | null;
-  bio: string | null;
-  avatar_url: string | null;
-};
-
-export type ListSummary = {
-  id: string;
-  owner_id: string;
-  title: string;
-  type: string;
-  visibility: string;
-  active_count: number;
-  done_count: number;
-  owner_handle: string;
-  owner_display_name: string | null;
-};
-
-export type ItemRow = {
-  id: string;
-  list_id: string;
-  title: string;
-  note: string | null;
-  url: string | null;
-  status: "active" | "done";
-  order_index: number;
-  created_at: string;
-};
+import type { LinkPreview } from "./unfurl.js";
+import { ORDER_GAP, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_STOP } from "./repository.js";
+import type { RateLimitStore } from "./rateLimit.js";
+import type {
+  AccessTokenRow,
+  ArchivedList,
+  BookmarkRow,
+  CommentRow,
+  ContentSearchFilters,
+  CustomListType,
+  DbUser,
+  Engagement,
+  FeedCursor,
+  FeedEntry,
+  FollowStats,
+  ImportedItem,
+  ItemAttributes,
+  ItemRow,
+  ItemSearchResult,
+  ItemSort,
+  ItemState,
+  ItemStatus,
+  ListEvent,
+  ListEventAction,
+  ListInvite,
+  ListMember,
+  ListRole,
+  ListRow,
+  ListSearchResult,
+  ListSummary,
+  ListTypeField,
+  ListVisibility,
+  NotificationRow,
+  NotificationType,
+  PageParams,
+  ReactionTarget,
+  RecommendationSeeds,
+  RecommendedItem,
+  RecommendedList,
+  RecommendedUser,
+  Repository,
+  SharedListSummary,
+  SourceItem,
+  TagCount,
+  TaggedItem,
+  TopRatedItem,
+  TrashedItem,
+  TrashedList,
+} from "./repository.js";
 
 const sslEnabled = process.env.DATABASE_SSL === "true";
 
@@ -43,11 +63,37 @@ export const pool = new Pool({
   max: 10,
 });
 
+// Queries made inside `withTransaction` run on its client, so the functions below compose into
+// one transaction without passing the client around.
+const transactionClient = new AsyncLocalStorage<PoolClient>();
+
 export async function query<T>(text: string, params: unknown[] = []): Promise<T[]> {
-  const res = await pool.query(text, params);
+  const res = await (transactionClient.getStore() ?? pool).query(text, params);
   return res.rows as T[];
 }
 
+/**
+ * Runs `work` in a transaction that commits when it resolves and rolls back when it throws.
+ * Calls made while a transaction is already open join it.
+ */
+export async function withTransaction<T>(work: () => Promise<T>): Promise<T> {
+  if (transactionClient.getStore()) {
+    return work();
+  }
+  const client = await pool.connect();
+  try {
+    await client.query("begin");
+    const result = await transactionClient.run(client, work);
+    await client.query("commit");
+    return result;
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 export async function getUserByAuthProviderId(authProviderId: string): Promise<DbUser | null> {
   const rows = await query<DbUser>(
     "select * from users where auth_provider_id = $1",
@@ -61,43 +107,66 @@ export async function getUserById(userId: string): Promise<DbUser | null> {
   return rows[0] ?? null;
 }
 
+/**
+ * True when no other user holds `handle`, either as their current handle or as a recently
+ * released one that is still reserved for them.
+ */
+export async function isHandleAvailable(handle: string, userId: string | null): Promise<boolean> {
+  const rows = await query<{ taken: boolean }>(
+    `select
+      exists (select 1 from users where lower(handle) = lower($1) and id is distinct from $2)
+      or exists (
+        select 1 from handle_history
+        where handle = lower($1) and expires_at > now() and user_id is distinct from $2
+      ) as taken`,
+    [handle, userId]
+  );
+  return !rows[0].taken;
+}
+
+async function pickAvailableHandle(base: string): Promise<string> {
+  if (await isHandleAvailable(base, null)) {
+    return base;
+  }
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const candidate = `${base}_${Math.floor(Math.random() * 9000 + 1000)}`;
+    if (await isHandleAvailable(candidate, null)) {
+      return candidate;
+    }
+  }
+  return `${base}_${randomBytes(4).toString("hex")}`;
+}
+
+/**
+ * Finds or creates the user for an auth identity. On later logins, claims only refresh the
+ * display name and avatar the user hasn't customised; the handle only changes via `changeHandle`.
+ */
 export async function ensureUser(params: {
   authProviderId: string;
   handle: string;
   displayName?: string | null;
   avatarUrl?: string | null;
 }): Promise<DbUser> {
-  async function resolveHandle(base: string) {
-    let candidate = base;
-    const existing = await query<{ auth_provider_id: string }>(
-      "select auth_provider_id from users where handle = $1",
-      [candidate]
-    );
-    if (existing.length === 0 || existing[0].auth_provider_id === params.authProviderId) {
-      return candidate;
-    }
-    const suffix = Math.floor(Math.random() * 9000 + 1000);
-    candidate = `${base}_${suffix}`;
-    return candidate;
-  }
-
-  const safeHandle = await resolveHandle(params.handle);
   const existing = await getUserByAuthProviderId(params.authProviderId);
   if (existing) {
     const updates: string[] = [];
     const values: unknown[] = [];
-    if (params.displayName !== undefined && params.displayName !== existing.display_name) {
+    if (
+      !existing.display_name_custom &&
+      params.displayName !== undefined &&
+      params.displayName !== existing.display_name
+    ) {
       values.push(params.displayName);
       updates.push(`display_name = $${values.length}`);
     }
-    if (params.avatarUrl !== undefined && params.avatarUrl !== existing.avatar_url) {
+    if (
+      !existing.avatar_url_custom &&
+      params.avatarUrl !== undefined &&
+      params.avatarUrl !== existing.avatar_url
+    ) {
       values.push(params.avatarUrl);
       updates.push(`avatar_url = $${values.length}`);
     }
-    if (safeHandle !== existing.handle) {
-      values.push(safeHandle);
-      updates.push(`handle = $${values.length}`);
-    }
     if (updates.length > 0) {
       values.push(existing.id);
       await query("update users set " + updates.join(", ") + " where id = $" + values.length, values);
@@ -105,6 +174,7 @@ export async function ensureUser(params: {
     return (await getUserByAuthProviderId(params.authProviderId)) as DbUser;
   }
 
+  const safeHandle = await pickAvailableHandle(params.handle);
   const id = uuidv4();
   await query(
     "insert into users (id, auth_provider_id, handle, display_name, avatar_url) values ($1, $2, $3, $4, $5)",
@@ -113,19 +183,130 @@ export async function ensureUser(params: {
   return (await getUserById(id)) as DbUser;
 }
 
-export async function listUserSummaries(): Promise<DbUser[]> {
-  return query<DbUser>("select * from users order by created_at desc");
+export async function updateProfile(params: {
+  userId: string;
+  displayName?: string | null;
+  bio?: string | null;
+  avatarUrl?: string | null;
+}): Promise<void> {
+  const updates: string[] = [];
+  const values: unknown[] = [];
+  if (params.displayName !== undefined) {
+    values.push(params.displayName);
+    updates.push(`display_name = $${values.length}`, "display_name_custom = true");
+  }
+  if (params.bio !== undefined) {
+    values.push(params.bio);
+    updates.push(`bio = $${values.length}`);
+  }
+  if (params.avatarUrl !== undefined) {
+    values.push(params.avatarUrl);
+    updates.push(`avatar_url = $${values.length}`, "avatar_url_custom = true");
+  }
+  if (updates.length === 0) {
+    return;
+  }
+  values.push(params.userId);
+  await query(`update users set ${updates.join(", ")} where id = $${values.length}`, values);
+}
+
+/**
+ * Switches the user's handle. The old handle stays reserved for `graceDays` and keeps resolving
+ * to this user; reclaiming one of your own reserved handles is allowed.
+ */
+export async function changeHandle(params: {
+  userId: string;
+  handle: string;
+  graceDays: number;
+}): Promise<void> {
+  await query(
+    `with old as (
+       select handle from users where id = $1 and handle <> $2
+     ),
+     released as (
+       insert into handle_history (handle, user_id, released_at, expires_at)
+       select handle, $1, now(), now() + make_interval(days => $3) from old
+       on conflict (handle) do update
+         set user_id = excluded.user_id, released_at = excluded.released_at, expires_at = excluded.expires_at
+     ),
+     reclaimed as (
+       delete from handle_history where handle = $2 and user_id = $1
+     )
+     update users set handle = $2, handle_changed_at = now() where id = $1`,
+    [params.userId, params.handle, params.graceDays]
+  );
+}
+
+/**
+ * Looks a user up by handle, following recently released handles to their new owner.
+ */
+export async function getUserByHandle(handle: string): Promise<DbUser | null> {
+  const rows = await query<DbUser>("select * from users where lower(handle) = lower($1)", [handle]);
+  if (rows[0]) {
+    return rows[0];
+  }
+  const redirected = await query<DbUser>(
+    `select u.* from handle_history h
+     join users u on u.id = h.user_id
+     where h.handle = lower($1) and h.expires_at > now()`,
+    [handle]
+  );
+  return redirected[0] ?? null;
+}
+
+// Newest-first keyset condition: rows of `alias` created before the anchor row `param`.
+function createdBefore(table: string, alias: string, param: string) {
+  return `(${alias}.created_at, ${alias}.id) < (select created_at, id from ${table} where id = ${param})`;
+}
+
+export async function listUserSummaries(page?: PageParams): Promise<DbUser[]> {
+  const values: unknown[] = [page?.limit ?? null];
+  let afterClause = "";
+  if (page?.afterId) {
+    values.push(page.afterId);
+    afterClause = `where ${createdBefore("users", "u", "$2")}`;
+  }
+  return query<DbUser>(
+    `select u.* from users u ${afterClause} order by u.created_at desc, u.id desc limit $1`,
+    values
+  );
 }
 
-export async function searchUsersByQuery(queryText: string): Promise<DbUser[]> {
-  const q = `%${queryText.toLowerCase()}%`;
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export async function searchUsersByQuery(queryText: string, page?: PageParams): Promise<DbUser[]> {
+  const values: unknown[] = [`%${escapeLike(queryText.toLowerCase())}%`, page?.limit ?? 20];
+  let afterClause = "";
+  if (page?.afterId) {
+    values.push(page.afterId);
+    afterClause = `and ${createdBefore("users", "u", "$3")}`;
+  }
   return query<DbUser>(
-    "select * from users where lower(handle) like $1 or lower(display_name) like $1 order by created_at desc limit 20",
-    [q]
+    `select u.* from users u
+     where (lower(u.handle) like $1 or lower(u.display_name) like $1) ${afterClause}
+     order by u.created_at desc, u.id desc
+     limit $2`,
+    values
   );
 }
 
-export async function getListsByOwner(ownerId: string): Promise<ListSummary[]> {
+/**
+ * Lists owned by `ownerId`. When `viewerId` is someone else only public lists and lists
+ * they are a member of are returned.
+ */
+export async function getListsByOwner(
+  ownerId: string,
+  viewerId?: string,
+  page?: PageParams
+): Promise<ListSummary[]> {
+  const values: unknown[] = [ownerId, viewerId ?? ownerId, page?.limit ?? null];
+  let afterClause = "";
+  if (page?.afterId) {
+    values.push(page.afterId);
+    afterClause = `and ${createdBefore("lists", "l", "$4")}`;
+  }
   return query<ListSummary>(
     `select
       l.id,
@@ -133,17 +314,84 @@ export async function getListsByOwner(ownerId: string): Promise<ListSummary[]> {
       l.title,
       l.type,
       l.visibility,
+      l.share_token,
       coalesce(sum(case when i.status = 'active' then 1 else 0 end), 0)::int as active_count,
       coalesce(sum(case when i.status = 'done' then 1 else 0 end), 0)::int as done_count,
       u.handle as owner_handle,
-      u.display_name as owner_display_name
+      u.display_name as owner_display_name,
+      l.forked_from_list_id,
+      ${forkCount("l")},
+      ${listAverageRating("l")}
     from lists l
-    left join items i on i.list_id = l.id
+    left join items i on i.list_id = l.id and i.deleted_at is null
     join users u on u.id = l.owner_id
     where l.owner_id = $1
-    group by l.id, l.owner_id, l.title, l.type, l.visibility, u.handle, u.display_name
-    order by l.created_at desc`,
-    [ownerId]
+      and l.deleted_at is null
+      and l.archived_at is null
+      and (
+        l.owner_id = $2
+        or l.visibility = 'public'
+        or exists (
+          select 1 from list_members m
+          where m.list_id = l.id and m.user_id = $2 and m.status = 'accepted'
+        )
+      )
+      ${afterClause}
+    group by l.id, l.owner_id, l.title, l.type, l.visibility, l.share_token, l.forked_from_list_id, u.handle, u.display_name
+    order by l.created_at desc, l.id desc
+    limit $3`,
+    values
+  );
+}
+
+// Ratings of a bookmarked copy belong to the item it was copied from, while that still exists.
+function ratingTarget(alias: string) {
+  return `coalesce((select b.source_item_id from bookmarks b join items s on s.id = b.source_item_id
+    where b.created_item_id = ${alias}.id), ${alias}.id)`;
+}
+
+function averageRating(alias: string) {
+  return `(select avg(r.rating)::float8 from item_ratings r where r.item_id = ${ratingTarget(alias)})`;
+}
+
+function listAverageRating(alias: string) {
+  return `(select avg(r.rating)::float8 from items ri
+    join item_ratings r on r.item_id = ${ratingTarget("ri")}
+    where ri.list_id = ${alias}.id and ri.deleted_at is null) as average_rating`;
+}
+
+// Forks that are still live, so trashing a fork takes it off the source's count.
+function forkCount(alias: string) {
+  return `(select count(*)::int from lists f
+    where f.forked_from_list_id = ${alias}.id and f.deleted_at is null) as fork_count`;
+}
+
+export async function getListsSharedWith(userId: string): Promise<SharedListSummary[]> {
+  return query<SharedListSummary>(
+    `select
+      l.id,
+      l.owner_id,
+      l.title,
+      l.type,
+      l.visibility,
+      l.share_token,
+      coalesce(sum(case when i.status = 'active' then 1 else 0 end), 0)::int as active_count,
+      coalesce(sum(case when i.status = 'done' then 1 else 0 end), 0)::int as done_count,
+      u.handle as owner_handle,
+      u.display_name as owner_display_name,
+      l.forked_from_list_id,
+      ${forkCount("l")},
+      ${listAverageRating("l")},
+      m.role
+    from list_members m
+    join lists l on l.id = m.list_id
+    left join items i on i.list_id = l.id and i.deleted_at is null
+    join users u on u.id = l.owner_id
+    where m.user_id = $1 and m.status = 'accepted' and l.owner_id <> $1
+      and l.deleted_at is null and l.archived_at is null
+    group by l.id, l.owner_id, l.title, l.type, l.visibility, l.share_token, l.forked_from_list_id, u.handle, u.display_name, m.role, m.accepted_at
+    order by m.accepted_at desc`,
+    [userId]
   );
 }
 
@@ -155,42 +403,218 @@ export async function getListSummaryById(listId: string): Promise<ListSummary |
       l.title,
       l.type,
       l.visibility,
+      l.share_token,
       coalesce(sum(case when i.status = 'active' then 1 else 0 end), 0)::int as active_count,
       coalesce(sum(case when i.status = 'done' then 1 else 0 end), 0)::int as done_count,
       u.handle as owner_handle,
-      u.display_name as owner_display_name
+      u.display_name as owner_display_name,
+      l.forked_from_list_id,
+      ${forkCount("l")},
+      ${listAverageRating("l")}
     from lists l
-    left join items i on i.list_id = l.id
+    left join items i on i.list_id = l.id and i.deleted_at is null
     join users u on u.id = l.owner_id
-    where l.id = $1
-    group by l.id, l.owner_id, l.title, l.type, l.visibility, u.handle, u.display_name`,
+    where l.id = $1 and l.deleted_at is null
+    group by l.id, l.owner_id, l.title, l.type, l.visibility, l.share_token, l.forked_from_list_id, u.handle, u.display_name`,
+    [listId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Fetches a list row. Lists in the trash are treated as missing unless `includeDeleted` is set.
+ */
+export async function getListById(
+  listId: string,
+  options: { includeDeleted?: boolean } = {}
+): Promise<ListRow | null> {
+  const rows = await query<ListRow>(
+    `select id, owner_id, title, type, visibility, share_token, archived_at, deleted_at,
+       forked_from_list_id, fork_sync
+     from lists where id = $1 ${options.includeDeleted ? "" : "and deleted_at is null"}`,
     [listId]
   );
   return rows[0] ?? null;
 }
 
-export async function getListById(listId: string) {
-  const rows = await query<{
-    id: string;
-    owner_id: string;
-    title: string;
-    type: string;
-    visibility: string;
-  }>("select id, owner_id, title, type, visibility from lists where id = $1", [listId]);
+export async function getListByShareToken(shareToken: string): Promise<ListRow | null> {
+  const rows = await query<ListRow>(
+    `select id, owner_id, title, type, visibility, share_token, archived_at, deleted_at,
+       forked_from_list_id, fork_sync
+     from lists where share_token = $1 and deleted_at is null`,
+    [shareToken]
+  );
   return rows[0] ?? null;
 }
 
+function generateShareToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
 export async function createList(params: {
   ownerId: string;
   title: string;
   type: string;
+  visibility?: ListVisibility;
 }): Promise<string> {
   const id = uuidv4();
+  const visibility = params.visibility ?? "public";
+  await withTransaction(async () => {
+    await query(
+      "insert into lists (id, owner_id, title, type, visibility, share_token) values ($1, $2, $3, $4, $5, $6)",
+      [
+        id,
+        params.ownerId,
+        params.title,
+        params.type,
+        visibility,
+        visibility === "unlisted" ? generateShareToken() : null,
+      ]
+    );
+    await query(
+      "insert into list_members (list_id, user_id, role, status, accepted_at) values ($1, $2, 'owner', 'accepted', now())",
+      [id, params.ownerId]
+    );
+  });
+  return id;
+}
+
+export async function countListsByOwner(ownerId: string): Promise<number> {
+  const rows = await query<{ count: number }>(
+    "select count(*)::int as count from lists where owner_id = $1 and deleted_at is null",
+    [ownerId]
+  );
+  return rows[0]?.count ?? 0;
+}
+
+/**
+ * The user's accepted role on a list. The list owner is always `owner`, even without a
+ * membership row.
+ */
+export async function getListRole(listId: string, userId: string): Promise<ListRole | null> {
+  const rows = await query<{ role: ListRole | null }>(
+    `select case when l.owner_id = $2 then 'owner' else m.role end as role
+     from lists l
+     left join list_members m on m.list_id = l.id and m.user_id = $2 and m.status = 'accepted'
+     where l.id = $1`,
+    [listId, userId]
+  );
+  return rows[0]?.role ?? null;
+}
+
+export async function getListMembers(listId: string): Promise<ListMember[]> {
+  return query<ListMember>(
+    `select m.user_id, u.handle, u.display_name, m.role, m.status
+     from list_members m
+     join users u on u.id = m.user_id
+     where m.list_id = $1
+     order by case m.role when 'owner' then 0 when 'editor' then 1 else 2 end, m.created_at asc`,
+    [listId]
+  );
+}
+
+export async function getPendingInvites(userId: string): Promise<ListInvite[]> {
+  return query<ListInvite>(
+    `select m.list_id, l.title as list_title, m.role, o.handle as owner_handle, inv.handle as invited_by_handle
+     from list_members m
+     join lists l on l.id = m.list_id
+     join users o on o.id = l.owner_id
+     left join users inv on inv.id = m.invited_by
+     where m.user_id = $1 and m.status = 'pending' and l.deleted_at is null
+     order by m.created_at desc`,
+    [userId]
+  );
+}
+
+/**
+ * Creates a pending invite, or changes the role of an existing invite or membership.
+ */
+export async function inviteListMember(params: {
+  listId: string;
+  userId: string;
+  role: Exclude<ListRole, "owner">;
+  invitedBy: string;
+}): Promise<void> {
   await query(
-    "insert into lists (id, owner_id, title, type, visibility) values ($1, $2, $3, $4, 'public')",
-    [id, params.ownerId, params.title, params.type]
+    `insert into list_members (list_id, user_id, role, status, invited_by)
+     values ($1, $2, $3, 'pending', $4)
+     on conflict (list_id, user_id) do update set role = excluded.role`,
+    [params.listId, params.userId, params.role, params.invitedBy]
   );
-  return id;
+}
+
+export async function acceptListInvite(listId: string, userId: string): Promise<boolean> {
+  const rows = await query<{ list_id: string }>(
+    `update list_members set status = 'accepted', accepted_at = now()
+     where list_id = $1 and user_id = $2 and status = 'pending'
+     returning list_id`,
+    [listId, userId]
+  );
+  return rows.length > 0;
+}
+
+export async function removeListMember(listId: string, userId: string): Promise<boolean> {
+  const rows = await query<{ list_id: string }>(
+    "delete from list_members where list_id = $1 and user_id = $2 and role <> 'owner' returning list_id",
+    [listId, userId]
+  );
+  return rows.length > 0;
+}
+
+export async function updateList(params: {
+  listId: string;
+  title?: string;
+  type?: string;
+  visibility?: ListVisibility;
+  forkSync?: boolean;
+}): Promise<void> {
+  const updates: string[] = [];
+  const values: unknown[] = [];
+  if (params.title !== undefined) {
+    values.push(params.title);
+    updates.push(`title = $${values.length}`);
+  }
+  if (params.type !== undefined) {
+    values.push(params.type);
+    updates.push(`type = $${values.length}`);
+  }
+  if (params.visibility !== undefined) {
+    values.push(params.visibility);
+    updates.push(`visibility = $${values.length}`);
+    if (params.visibility === "unlisted") {
+      values.push(generateShareToken());
+      updates.push(`share_token = coalesce(share_token, $${values.length})`);
+    }
+  }
+  if (params.forkSync !== undefined) {
+    values.push(params.forkSync);
+    updates.push(`fork_sync = $${values.length}`);
+  }
+  if (updates.length === 0) {
+    return;
+  }
+  values.push(params.listId);
+  await query(
+    `update lists set ${updates.join(", ")}, updated_at = now() where id = $${values.length}`,
+    values
+  );
+}
+
+/**
+ * Replaces the list's share token, invalidating any link handed out before.
+ */
+export async function rotateShareToken(listId: string): Promise<string> {
+  const token = generateShareToken();
+  await query("update lists set share_token = $1, updated_at = now() where id = $2", [token, listId]);
+  return token;
+}
+
+export async function countItemsInList(listId: string): Promise<number> {
+  const rows = await query<{ count: number }>(
+    "select count(*)::int as count from items where list_id = $1 and deleted_at is null",
+    [listId]
+  );
+  return rows[0]?.count ?? 0;
 }
 
 export async function addItem(params: {
@@ -198,11 +622,26 @@ export async function addItem(params: {
   title: string;
   note?: string | null;
   url?: string | null;
+  linkPreview?: LinkPreview | null;
+  attributes?: ItemAttributes;
+  tags?: string[];
 }): Promise<string> {
   const id = uuidv4();
   await query(
-    "insert into items (id, list_id, title, note, url, status, order_index) values ($1, $2, $3, $4, $5, 'active', 0)",
-    [id, params.listId, params.title, params.note ?? null, params.url ?? null]
+    `insert into items (id, list_id, title, note, url, link_preview, attributes, tags, status, order_index)
+     select $1, $2, $3, $4, $5, $7, $8, $9, 'active', coalesce(min(order_index), $6) - $6
+     from items where list_id = $2 and deleted_at is null`,
+    [
+      id,
+      params.listId,
+      params.title,
+      params.note ?? null,
+      params.url ?? null,
+      ORDER_GAP,
+      params.linkPreview ?? null,
+      params.attributes ?? {},
+      params.tags ?? [],
+    ]
   );
   return id;
 }
@@ -213,6 +652,9 @@ export async function updateItem(params: {
   title?: string;
   note?: string | null;
   url?: string | null;
+  linkPreview?: LinkPreview | null;
+  attributes?: ItemAttributes;
+  tags?: string[];
 }): Promise<void> {
   const updates: string[] = [];
   const values: unknown[] = [];
@@ -228,6 +670,18 @@ export async function updateItem(params: {
     values.push(params.url);
     updates.push(`url = $${values.length}`);
   }
+  if (params.linkPreview !== undefined) {
+    values.push(params.linkPreview);
+    updates.push(`link_preview = $${values.length}`);
+  }
+  if (params.attributes !== undefined) {
+    values.push(params.attributes);
+    updates.push(`attributes = $${values.length}`);
+  }
+  if (params.tags !== undefined) {
+    values.push(params.tags);
+    updates.push(`tags = $${values.length}`);
+  }
   if (updates.length === 0) {
     return;
   }
@@ -235,7 +689,7 @@ export async function updateItem(params: {
   const itemIdIndex = values.length - 1;
   const listIdIndex = values.length;
   await query(
-    `update items set ${updates.join(", ")}, updated_at = now() where id = $${itemIdIndex} and list_id = $${listIdIndex}`,
+    `update items set ${updates.join(", ")}, updated_at = now() where id = $${itemIdIndex} and list_id = $${listIdIndex} and deleted_at is null`,
     values
   );
 }
@@ -243,31 +697,186 @@ export async function updateItem(params: {
 export async function setItemStatus(params: {
   itemId: string;
   listId: string;
-  status: "active" | "done";
+  status: ItemStatus;
 }): Promise<void> {
   await query(
-    "update items set status = $1, updated_at = now() where id = $2 and list_id = $3",
+    `update items
+     set status = $1,
+         completed_at = case when $1 = 'done' then coalesce(completed_at, now()) else null end,
+         updated_at = now()
+     where id = $2 and list_id = $3 and deleted_at is null`,
     [params.status, params.itemId, params.listId]
   );
 }
 
-export async function getItemsByList(listId: string, status: "active" | "done"): Promise<ItemRow[]> {
+export async function getItemState(itemId: string): Promise<ItemState | null> {
+  const rows = await query<ItemState>(
+    "select id, list_id, title, note, url, link_preview, attributes, tags, status, deleted_at from items where id = $1",
+    [itemId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Items in one section of a list. Bookmarked copies carry their origin, and `viewer_saved`
+ * tells whether `viewerId` has already bookmarked the item.
+ */
+export async function getItemsByList(
+  listId: string,
+  status: ItemStatus,
+  viewerId?: string,
+  page?: PageParams,
+  sort: ItemSort = "position",
+  tag: string | null = null
+): Promise<ItemRow[]> {
+  const values: unknown[] = [listId, status, viewerId ?? null, page?.limit ?? null];
+  // Unrated items sort as 0, below every rating.
+  const score = (alias: string) => `coalesce(${averageRating(alias)}, 0)`;
+  let tagClause = "";
+  if (tag) {
+    values.push([tag]);
+    tagClause = `and i.tags @> $${values.length}::text[]`;
+  }
+  let afterClause = "";
+  if (page?.afterId) {
+    values.push(page.afterId);
+    const afterPosition = `i.order_index > a.order_index
+           or (i.order_index = a.order_index and (i.created_at, i.id) < (a.created_at, a.id))`;
+    afterClause = `and exists (
+       select 1 from items a
+       where a.id = $${values.length}
+         and (${
+           sort === "rating"
+             ? `${score("i")} < ${score("a")} or (${score("i")} = ${score("a")} and (${afterPosition}))`
+             : afterPosition
+         })
+     )`;
+  }
   return query<ItemRow>(
-    "select id, list_id, title, note, url, status, order_index, created_at from items where list_id = $1 and status = $2 order by created_at desc",
-    [listId, status]
+    `select i.id, i.list_id, i.title, i.note, i.url, i.link_preview, i.attributes, i.tags, i.status,
+       i.order_index, i.created_at, b.source_item_id, b.source_list_id, b.source_user_id,
+       su.handle as source_user_handle,
+       (select count(*) from bookmarks sb where sb.source_item_id = i.id)::int as save_count,
+       exists (
+         select 1 from bookmarks vb where vb.source_item_id = i.id and vb.user_id = $3
+       ) as viewer_saved,
+       ${averageRating("i")} as average_rating,
+       (select count(*)::int from item_ratings r where r.item_id = ${ratingTarget("i")}) as rating_count,
+       vr.rating::float8 as viewer_rating,
+       vr.review as viewer_review
+     from items i
+     left join bookmarks b on b.created_item_id = i.id
+     left join users su on su.id = b.source_user_id
+     left join item_ratings vr on vr.user_id = $3 and vr.item_id = ${ratingTarget("i")}
+     where i.list_id = $1 and i.status = $2 and i.deleted_at is null ${tagClause} ${afterClause}
+     order by ${sort === "rating" ? `${score("i")} desc, ` : ""}i.order_index asc, i.created_at desc, i.id desc
+     limit $4`,
+    values
+  );
+}
+
+// Locks the list's live items until the caller's transaction ends, so concurrent reorders
+// of one list compute their positions one after another.
+async function lockItemOrder(listId: string) {
+  return query<{ id: string; status: ItemStatus; order_index: number }>(
+    `select id, status, order_index from items where list_id = $1 and deleted_at is null
+     order by order_index asc, created_at desc, id desc
+     for update`,
+    [listId]
+  );
+}
+
+async function writeItemOrder(listId: string, itemIds: string[]): Promise<void> {
+  await query(
+    `update items i set order_index = (o.ord * $3)::int
+     from unnest($2::uuid[]) with ordinality as o(id, ord)
+     where i.id = o.id and i.list_id = $1`,
+    [listId, itemIds, ORDER_GAP]
   );
 }
 
+export async function moveItem(params: {
+  listId: string;
+  itemId: string;
+  beforeItemId?: string | null;
+  afterItemId?: string | null;
+  position?: number | null;
+}): Promise<ItemStatus | null> {
+  return withTransaction(async () => {
+    const rows = await lockItemOrder(params.listId);
+    const moving = rows.find((row) => row.id === params.itemId);
+    if (!moving) {
+      return null;
+    }
+    const siblings = rows.filter((row) => row.status === moving.status && row.id !== moving.id);
+
+    let index: number;
+    if (params.beforeItemId || params.afterItemId) {
+      const anchorId = (params.beforeItemId ?? params.afterItemId) as string;
+      const anchorIndex = siblings.findIndex((row) => row.id === anchorId);
+      if (anchorIndex === -1) {
+        throw new Error("Anchor item not found in the same section.");
+      }
+      index = params.beforeItemId ? anchorIndex : anchorIndex + 1;
+    } else {
+      index = Math.min(Math.max(params.position ?? 0, 0), siblings.length);
+    }
+
+    const prev = siblings[index - 1];
+    const next = siblings[index];
+    let orderIndex: number | null = null;
+    if (!prev && !next) {
+      orderIndex = 0;
+    } else if (!prev) {
+      orderIndex = next.order_index - ORDER_GAP;
+    } else if (!next) {
+      orderIndex = prev.order_index + ORDER_GAP;
+    } else if (next.order_index - prev.order_index > 1) {
+      orderIndex = Math.floor((prev.order_index + next.order_index) / 2);
+    }
+
+    if (orderIndex === null) {
+      // No room between the neighbours: respace this section only.
+      const ordered = [...siblings.slice(0, index), moving, ...siblings.slice(index)];
+      await writeItemOrder(params.listId, ordered.map((row) => row.id));
+    } else {
+      await query("update items set order_index = $1 where id = $2 and list_id = $3", [
+        orderIndex,
+        params.itemId,
+        params.listId,
+      ]);
+    }
+    return moving.status;
+  });
+}
+
+export async function setItemOrder(params: { listId: string; itemIds: string[] }): Promise<void> {
+  await withTransaction(async () => {
+    const rows = await lockItemOrder(params.listId);
+    const known = new Set(rows.map((row) => row.id));
+    const requested = [...new Set(params.itemIds)].filter((id) => known.has(id));
+    const requestedSet = new Set(requested);
+    const rest = rows.filter((row) => !requestedSet.has(row.id)).map((row) => row.id);
+    await writeItemOrder(params.listId, [...requested, ...rest]);
+  });
+}
+
+/**
+ * Records a bookmark. Returns false when the user already bookmarked the source item.
+ */
 export async function createBookmark(params: {
   userId: string;
   sourceItemId: string;
   sourceListId: string;
   sourceUserId: string;
   createdItemId: string;
-}): Promise<void> {
+}): Promise<boolean> {
   const id = uuidv4();
-  await query(
-    "insert into bookmarks (id, user_id, source_item_id, source_list_id, source_user_id, created_item_id) values ($1, $2, $3, $4, $5, $6)",
+  const rows = await query<{ id: string }>(
+    `insert into bookmarks (id, user_id, source_item_id, source_list_id, source_user_id, created_item_id)
+     values ($1, $2, $3, $4, $5, $6)
+     on conflict (user_id, source_item_id) do nothing
+     returning id`,
     [
       id,
       params.userId,
@@ -277,37 +886,123 @@ export async function createBookmark(params: {
       params.createdItemId,
     ]
   );
+  return rows.length > 0;
+}
+
+/**
+ * Finds the user's bookmark by the item they saved or by the copy it created.
+ */
+export async function findBookmark(params: {
+  userId: string;
+  sourceItemId?: string | null;
+  createdItemId?: string | null;
+}): Promise<BookmarkRow | null> {
+  const rows = await query<BookmarkRow>(
+    `select b.id, b.user_id, b.source_item_id, b.source_list_id, b.source_user_id, b.created_item_id,
+       i.list_id as created_list_id, (i.id is null or i.deleted_at is not null) as created_item_deleted
+     from bookmarks b
+     left join items i on i.id = b.created_item_id
+     where b.user_id = $1 and (b.source_item_id = $2 or b.created_item_id = $3)
+     limit 1`,
+    [params.userId, params.sourceItemId ?? null, params.createdItemId ?? null]
+  );
+  return rows[0] ?? null;
 }
 
-export async function findSourceItem(sourceItemId: string) {
-  const rows = await query<{
-    id: string;
-    title: string;
-    note: string | null;
-    url: string | null;
-    list_id: string;
-    list_title: string;
-    list_type: string;
-    owner_id: string;
-    owner_handle: string;
-  }>(
-    `select i.id, i.title, i.note, i.url, i.list_id, l.title as list_title, l.type as list_type, l.owner_id, u.handle as owner_handle
+/**
+ * Removes a bookmark together with the item copy it created.
+ */
+export async function deleteBookmark(bookmarkId: string): Promise<void> {
+  await query(
+    `with removed as (
+       delete from bookmarks where id = $1 returning created_item_id
+     )
+     delete from items where id in (select created_item_id from removed)`,
+    [bookmarkId]
+  );
+}
+
+export async function deleteItem(itemId: string): Promise<void> {
+  await query("delete from items where id = $1", [itemId]);
+}
+
+export async function findSourceItem(sourceItemId: string): Promise<SourceItem | null> {
+  const rows = await query<SourceItem>(
+    `select i.id, i.title, i.note, i.url, i.link_preview, i.attributes, i.tags, i.list_id, l.title as list_title,
+       l.type as list_type, l.visibility, l.share_token, l.owner_id, u.handle as owner_handle
      from items i
      join lists l on l.id = i.list_id
      join users u on u.id = l.owner_id
-     where i.id = $1`,
+     where i.id = $1 and i.deleted_at is null and l.deleted_at is null`,
     [sourceItemId]
   );
   return rows[0] ?? null;
 }
 
+export async function getTags(userId: string, prefix: string | null, limit: number): Promise<TagCount[]> {
+  return query<TagCount>(
+    `select t.tag, count(*)::int as count
+     from items i
+     join lists l on l.id = i.list_id
+     cross join unnest(i.tags) as t(tag)
+     where l.owner_id = $1 and l.deleted_at is null and i.deleted_at is null
+       and ($2::text is null or starts_with(t.tag, $2))
+     group by t.tag
+     order by count desc, t.tag
+     limit $3`,
+    [userId, prefix, limit]
+  );
+}
+
+export async function getItemsByTag(params: {
+  tag: string;
+  viewerId: string;
+  scope: "mine" | "public";
+  ownerId?: string | null;
+  status?: ItemStatus | null;
+  page?: PageParams;
+}): Promise<TaggedItem[]> {
+  const values: unknown[] = [
+    [params.tag],
+    params.viewerId,
+    params.scope,
+    params.ownerId ?? null,
+    params.status ?? null,
+    params.page?.limit ?? null,
+  ];
+  let afterClause = "";
+  if (params.page?.afterId) {
+    values.push(params.page.afterId);
+    afterClause = `and ${createdBefore("items", "i", "$7")}`;
+  }
+  return query<TaggedItem>(
+    `select i.id, i.list_id, l.title as list_title, l.type as list_type, l.owner_id, u.handle as owner_handle,
+       i.title, i.note, i.url, i.tags, i.status, i.created_at
+     from items i
+     join lists l on l.id = i.list_id and l.deleted_at is null
+     join users u on u.id = l.owner_id
+     where i.tags @> $1::text[] and i.deleted_at is null
+       and case
+         when $3 = 'public' then l.visibility = 'public' and l.archived_at is null
+         else l.owner_id = $2 or exists (
+           select 1 from list_members m where m.list_id = l.id and m.user_id = $2 and m.status = 'accepted'
+         )
+       end
+       and ($4::uuid is null or l.owner_id = $4)
+       and ($5::text is null or i.status = $5) ${afterClause}
+     order by i.created_at desc, i.id desc
+     limit $6`,
+    values
+  );
+}
+
 export async function getOrCreateListByType(params: {
   ownerId: string;
   type: string;
   fallbackTitle: string;
 }): Promise<string> {
   const rows = await query<{ id: string }>(
-    "select id from lists where owner_id = $1 and type = $2 order by created_at desc limit 1",
+    "select id from lists where owner_id = $1 and type = $2 and deleted_at is null and archived_at is null order by created_at desc limit 1",
     [params.ownerId, params.type]
   );
   if (rows[0]) {
@@ -315,3 +1010,1115 @@ export async function getOrCreateListByType(params: {
   }
   return createList({ ownerId: params.ownerId, title: params.fallbackTitle, type: params.type });
 }
+
+export async function softDeleteItem(itemId: string, listId: string): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    "update items set deleted_at = now() where id = $1 and list_id = $2 and deleted_at is null returning id",
+    [itemId, listId]
+  );
+  return rows.length > 0;
+}
+
+export async function restoreItem(itemId: string, listId: string): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    "update items set deleted_at = null, updated_at = now() where id = $1 and list_id = $2 and deleted_at is not null returning id",
+    [itemId, listId]
+  );
+  return rows.length > 0;
+}
+
+export async function getDeletedItem(itemId: string) {
+  const rows = await query<{ id: string; list_id: string }>(
+    "select id, list_id from items where id = $1 and deleted_at is not null",
+    [itemId]
+  );
+  return rows[0] ?? null;
+}
+
+export async function softDeleteList(listId: string): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    "update lists set deleted_at = now() where id = $1 and deleted_at is null returning id",
+    [listId]
+  );
+  return rows.length > 0;
+}
+
+export async function setListArchived(listId: string, archived: boolean): Promise<void> {
+  await query(
+    `update lists set archived_at = ${archived ? "coalesce(archived_at, now())" : "null"}, updated_at = now() where id = $1`,
+    [listId]
+  );
+}
+
+/**
+ * Brings a list back from the trash or the archive.
+ */
+export async function restoreList(listId: string): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    `update lists set deleted_at = null, archived_at = null, updated_at = now()
+     where id = $1 and (deleted_at is not null or archived_at is not null)
+     returning id`,
+    [listId]
+  );
+  return rows.length > 0;
+}
+
+export async function getTrash(userId: string): Promise<{
+  lists: TrashedList[];
+  items: TrashedItem[];
+  archived: ArchivedList[];
+}> {
+  const lists = await query<TrashedList>(
+    `select l.id, l.title, l.type, count(i.id)::int as item_count, l.deleted_at
+     from lists l
+     left join items i on i.list_id = l.id and i.deleted_at is null
+     where l.owner_id = $1 and l.deleted_at is not null
+     group by l.id, l.title, l.type, l.deleted_at
+     order by l.deleted_at desc`,
+    [userId]
+  );
+  const items = await query<TrashedItem>(
+    `select i.id, i.list_id, l.title as list_title, i.title, i.status, i.deleted_at
+     from items i
+     join lists l on l.id = i.list_id
+     left join list_members m on m.list_id = l.id and m.user_id = $1 and m.status = 'accepted'
+     where i.deleted_at is not null
+       and l.deleted_at is null
+       and (l.owner_id = $1 or m.role = 'editor')
+     order by i.deleted_at desc
+     limit 100`,
+    [userId]
+  );
+  const archived = await query<ArchivedList>(
+    `select id, title, type, archived_at from lists
+     where owner_id = $1 and archived_at is not null and deleted_at is null
+     order by archived_at desc`,
+    [userId]
+  );
+  return { lists, items, archived };
+}
+
+/**
+ * Permanently removes lists and items that have been in the trash longer than the retention period.
+ */
+export async function purgeTrash(retentionDays: number): Promise<{ lists: number; items: number }> {
+  const lists = await query<{ id: string }>(
+    "delete from lists where deleted_at < now() - make_interval(days => $1) returning id",
+    [retentionDays]
+  );
+  const items = await query<{ id: string }>(
+    "delete from items where deleted_at < now() - make_interval(days => $1) returning id",
+    [retentionDays]
+  );
+  return { lists: lists.length, items: items.length };
+}
+
+export async function rateItem(params: {
+  userId: string;
+  itemId: string;
+  rating: number;
+  review?: string | null;
+}): Promise<void> {
+  await query(
+    `insert into item_ratings (user_id, item_id, rating, review)
+     select $1, ${ratingTarget("i")}, $3, $4 from items i where i.id = $2
+     on conflict (user_id, item_id) do update set
+       rating = excluded.rating,
+       review = case when $5::boolean then item_ratings.review else excluded.review end,
+       updated_at = now()`,
+    [params.userId, params.itemId, params.rating, params.review ?? null, params.review === undefined]
+  );
+}
+
+export async function clearItemRating(userId: string, itemId: string): Promise<boolean> {
+  const rows = await query<{ item_id: string }>(
+    `delete from item_ratings
+     where user_id = $1 and item_id = (select ${ratingTarget("i")} from items i where i.id = $2)
+     returning item_id`,
+    [userId, itemId]
+  );
+  return rows.length > 0;
+}
+
+export async function getTopRatedItems(
+  userId: string,
+  viewerId: string,
+  limit: number
+): Promise<TopRatedItem[]> {
+  return query<TopRatedItem>(
+    `select r.item_id, i.title, i.url, i.list_id, l.title as list_title, u.handle as owner_handle,
+       r.rating::float8 as rating, r.review, r.updated_at as rated_at
+     from item_ratings r
+     join items i on i.id = r.item_id and i.deleted_at is null
+     join lists l on l.id = i.list_id and l.deleted_at is null
+     join users u on u.id = l.owner_id
+     where r.user_id = $1
+       and (
+         l.visibility = 'public'
+         or l.owner_id = $2
+         or exists (
+           select 1 from list_members m
+           where m.list_id = l.id and m.user_id = $2 and m.status = 'accepted'
+         )
+       )
+     order by r.rating desc, r.updated_at desc
+     limit $3`,
+    [userId, viewerId, limit]
+  );
+}
+
+const commentColumns = `c.id, c.list_id, c.item_id, c.parent_id, c.thread_id, c.author_id,
+  u.handle as author_handle, u.display_name as author_display_name, c.body, c.edited_at, c.hidden_at,
+  c.deleted_at, c.created_at`;
+
+export async function addComment(params: {
+  listId: string;
+  itemId: string | null;
+  parentId: string | null;
+  threadId: string | null;
+  authorId: string;
+  body: string;
+}): Promise<string> {
+  const id = uuidv4();
+  await query(
+    `insert into comments (id, list_id, item_id, parent_id, thread_id, author_id, body)
+     values ($1, $2, $3, $4, $5, $6, $7)`,
+    [id, params.listId, params.itemId, params.parentId, params.threadId, params.authorId, params.body]
+  );
+  return id;
+}
+
+export async function getComment(commentId: string): Promise<CommentRow | null> {
+  const rows = await query<CommentRow>(
+    `select ${commentColumns} from comments c join users u on u.id = c.author_id where c.id = $1`,
+    [commentId]
+  );
+  return rows[0] ?? null;
+}
+
+export async function updateComment(commentId: string, body: string): Promise<void> {
+  await query("update comments set body = $2, edited_at = now() where id = $1", [commentId, body]);
+}
+
+export async function setCommentHidden(commentId: string, hidden: boolean): Promise<void> {
+  await query(
+    "update comments set hidden_at = case when $2::boolean then coalesce(hidden_at, now()) end where id = $1",
+    [commentId, hidden]
+  );
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+  await withTransaction(async () => {
+    await query(
+      `update comments set body = '', deleted_at = now()
+       where id = $1 and exists (select 1 from comments r where r.parent_id = $1)`,
+      [commentId]
+    );
+    await query(
+      "delete from comments where id = $1 and not exists (select 1 from comments r where r.parent_id = $1)",
+      [commentId]
+    );
+  });
+}
+
+export async function getCommentThreads(
+  listId: string,
+  itemId: string | null,
+  page?: PageParams
+): Promise<CommentRow[]> {
+  const values: unknown[] = [listId, itemId, page?.limit ?? null];
+  let afterClause = "";
+  if (page?.afterId) {
+    values.push(page.afterId);
+    afterClause = `and ${createdBefore("comments", "c", "$4")}`;
+  }
+  return query<CommentRow>(
+    `select ${commentColumns}
+     from comments c
+     join users u on u.id = c.author_id
+     where c.list_id = $1 and c.item_id is not distinct from $2::uuid and c.parent_id is null
+       and (
+         c.deleted_at is null
+         or exists (select 1 from comments r where r.thread_id = c.id and r.deleted_at is null)
+       )
+       ${afterClause}
+     order by c.created_at desc, c.id desc
+     limit $3`,
+    values
+  );
+}
+
+export async function getCommentReplies(threadIds: string[]): Promise<CommentRow[]> {
+  if (threadIds.length === 0) return [];
+  return query<CommentRow>(
+    `select ${commentColumns}
+     from comments c
+     join users u on u.id = c.author_id
+     where c.thread_id = any($1::uuid[])
+     order by c.created_at, c.id`,
+    [threadIds]
+  );
+}
+
+export async function addReaction(params: ReactionTarget): Promise<boolean> {
+  const rows = await query(
+    `insert into reactions (user_id, list_id, item_id, emoji) values ($1, $2, $3, $4)
+     on conflict do nothing
+     returning user_id`,
+    [params.userId, params.listId, params.itemId, params.emoji]
+  );
+  return rows.length > 0;
+}
+
+export async function removeReaction(params: ReactionTarget): Promise<boolean> {
+  const rows = await query(
+    `delete from reactions
+     where user_id = $1 and list_id = $2 and item_id is not distinct from $3::uuid and emoji = $4
+     returning user_id`,
+    [params.userId, params.listId, params.itemId, params.emoji]
+  );
+  return rows.length > 0;
+}
+
+export async function getEngagement(
+  listId: string,
+  itemIds: string[],
+  viewerId: string
+): Promise<Engagement[]> {
+  return query<Engagement>(
+    `select t.item_id,
+       (select count(*)::int from comments c
+        where c.list_id = $1 and c.item_id is not distinct from t.item_id
+          and c.deleted_at is null and c.hidden_at is null) as comment_count,
+       coalesce((
+         select json_agg(
+           json_build_object('emoji', g.emoji, 'count', g.count, 'viewer_reacted', g.viewer_reacted)
+           order by g.count desc, g.emoji
+         )
+         from (
+           select r.emoji, count(*)::int as count, bool_or(r.user_id = $3) as viewer_reacted
+           from reactions r
+           where r.list_id = $1 and r.item_id is not distinct from t.item_id
+           group by r.emoji
+         ) g
+       ), '[]'::json) as reactions
+     from (
+       select item_id from comments where list_id = $1 and deleted_at is null and hidden_at is null
+       union
+       select item_id from reactions where list_id = $1
+     ) t
+     where t.item_id is null or t.item_id = any($2::uuid[])`,
+    [listId, itemIds, viewerId]
+  );
+}
+
+export async function getCustomListType(ownerId: string, name: string): Promise<CustomListType | null> {
+  const rows = await query<CustomListType>(
+    `select id, owner_id, name, label, fields, created_at from list_types
+     where owner_id = $1 and lower(name) = lower($2)`,
+    [ownerId, name]
+  );
+  return rows[0] ?? null;
+}
+
+export async function getCustomListTypes(ownerId: string): Promise<CustomListType[]> {
+  return query<CustomListType>(
+    "select id, owner_id, name, label, fields, created_at from list_types where owner_id = $1 order by lower(name)",
+    [ownerId]
+  );
+}
+
+export async function saveCustomListType(params: {
+  ownerId: string;
+  name: string;
+  label: string;
+  fields: ListTypeField[];
+}): Promise<CustomListType> {
+  // node-postgres would send an array as a Postgres array, so the jsonb goes over as text.
+  const [row] = await query<CustomListType>(
+    `insert into list_types (id, owner_id, name, label, fields) values ($1, $2, $3, $4, $5)
+     on conflict (owner_id, lower(name)) do update set
+       label = excluded.label, fields = excluded.fields, updated_at = now()
+     returning id, owner_id, name, label, fields, created_at`,
+    [uuidv4(), params.ownerId, params.name, params.label, JSON.stringify(params.fields)]
+  );
+  return row;
+}
+
+export async function deleteCustomListType(ownerId: string, name: string): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    "delete from list_types where owner_id = $1 and lower(name) = lower($2) returning id",
+    [ownerId, name]
+  );
+  return rows.length > 0;
+}
+
+export async function followUser(followerId: string, followeeId: string): Promise<boolean> {
+  const rows = await query(
+    `insert into follows (follower_id, followee_id) values ($1, $2)
+     on conflict do nothing
+     returning follower_id`,
+    [followerId, followeeId]
+  );
+  return rows.length > 0;
+}
+
+export async function unfollowUser(followerId: string, followeeId: string): Promise<void> {
+  await query("delete from follows where follower_id = $1 and followee_id = $2", [
+    followerId,
+    followeeId,
+  ]);
+}
+
+export async function getFollowStats(userId: string, viewerId: string): Promise<FollowStats> {
+  const rows = await query<FollowStats>(
+    `select
+      (select count(*) from follows where followee_id = $1)::int as follower_count,
+      (select count(*) from follows where follower_id = $1)::int as following_count,
+      exists (select 1 from follows where follower_id = $2 and followee_id = $1) as viewer_follows`,
+    [userId, viewerId]
+  );
+  return rows[0];
+}
+
+/**
+ * Recent public activity from the users `followerId` follows, newest first. Pass the last
+ * entry of a page as `cursor` to get the next page.
+ */
+export async function getFeed(params: {
+  followerId: string;
+  cursor?: FeedCursor | null;
+  limit: number;
+}): Promise<FeedEntry[]> {
+  const values: unknown[] = [params.followerId, params.limit];
+  let cursorClause = "";
+  if (params.cursor) {
+    values.push(params.cursor.occurredAt, params.cursor.eventId);
+    cursorClause = "where (e.occurred_at, e.event_id) < ($3::timestamptz, $4)";
+  }
+  return query<FeedEntry>(
+    `with visible_lists as (
+       select l.id, l.title, l.type, l.owner_id, l.created_at
+       from lists l
+       join follows f on f.followee_id = l.owner_id and f.follower_id = $1
+       where l.visibility = 'public' and l.deleted_at is null and l.archived_at is null
+     ),
+     events as (
+       select 'list_created' as kind, vl.created_at as occurred_at, 'l:' || vl.id as event_id,
+         vl.owner_id as actor_id, vl.id as list_id, null::uuid as item_id, null::text as item_title
+       from visible_lists vl
+       union all
+       select 'item_added', i.created_at, 'a:' || i.id, vl.owner_id, vl.id, i.id, i.title
+       from items i join visible_lists vl on vl.id = i.list_id
+       where i.deleted_at is null
+       union all
+       select 'item_done', i.completed_at, 'd:' || i.id, vl.owner_id, vl.id, i.id, i.title
+       from items i join visible_lists vl on vl.id = i.list_id
+       where i.deleted_at is null and i.status = 'done' and i.completed_at is not null
+     )
+     select e.kind, e.occurred_at, e.occurred_at::text as occurred_at_key, e.event_id, e.actor_id, u.handle as actor_handle,
+       u.display_name as actor_display_name, e.list_id, vl.title as list_title, vl.type as list_type,
+       e.item_id, e.item_title
+     from events e
+     join visible_lists vl on vl.id = e.list_id
+     join users u on u.id = e.actor_id
+     ${cursorClause}
+     order by e.occurred_at desc, e.event_id desc
+     limit $2`,
+    values
+  );
+}
+
+export async function recordListEvent(params: {
+  listId: string;
+  itemId?: string | null;
+  actorId: string;
+  action: ListEventAction;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  revertsEventId?: string | null;
+}): Promise<string> {
+  const id = uuidv4();
+  await query(
+    `insert into list_events (id, list_id, item_id, actor_id, action, before, after, reverts_event_id)
+     values ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      id,
+      params.listId,
+      params.itemId ?? null,
+      params.actorId,
+      params.action,
+      params.before ?? null,
+      params.after ?? null,
+      params.revertsEventId ?? null,
+    ]
+  );
+  return id;
+}
+
+const listEventColumns = `e.id, e.list_id, e.item_id, i.title as item_title, e.actor_id, u.handle as actor_handle,
+  e.action, e.before, e.after, e.reverts_event_id, e.created_at,
+  exists (select 1 from list_events r where r.reverts_event_id = e.id) as undone`;
+
+export async function getListHistory(listId: string, page?: PageParams): Promise<ListEvent[]> {
+  const values: unknown[] = [listId, page?.limit ?? null];
+  let afterClause = "";
+  if (page?.afterId) {
+    values.push(page.afterId);
+    afterClause = `and ${createdBefore("list_events", "e", "$3")}`;
+  }
+  return query<ListEvent>(
+    `select ${listEventColumns}
+     from list_events e
+     join users u on u.id = e.actor_id
+     left join items i on i.id = e.item_id
+     where e.list_id = $1 ${afterClause}
+     order by e.created_at desc, e.id desc
+     limit $2`,
+    values
+  );
+}
+
+export async function findUndoableEvent(listId: string, actorId: string): Promise<ListEvent | null> {
+  const rows = await query<ListEvent>(
+    `select ${listEventColumns}
+     from list_events e
+     join users u on u.id = e.actor_id
+     left join items i on i.id = e.item_id
+     where e.list_id = $1 and e.actor_id = $2 and e.action not in ('undo', 'bookmark_removed')
+       and (e.item_id is null or i.id is not null)
+       and not exists (select 1 from list_events r where r.reverts_event_id = e.id)
+     order by e.created_at desc, e.id desc
+     limit 1`,
+    [listId, actorId]
+  );
+  return rows[0] ?? null;
+}
+
+export async function notify(params: {
+  userIds: string[];
+  actorId: string;
+  type: NotificationType;
+  listId?: string | null;
+  itemId?: string | null;
+}): Promise<void> {
+  const userIds = [...new Set(params.userIds)];
+  if (userIds.length === 0) return;
+  await query(
+    `with recipients as (
+       select r.user_id, r.id from unnest($1::uuid[], $6::uuid[]) as r(user_id, id)
+       where not exists (select 1 from notification_mutes m where m.user_id = r.user_id and m.type = $3)
+     ),
+     bumped as (
+       update notifications n set count = n.count + 1, created_at = clock_timestamp()
+       from recipients r
+       where $3 = 'list_edit' and n.user_id = r.user_id and n.actor_id = $2 and n.type = $3
+         and n.list_id = $4 and n.read_at is null
+       returning n.user_id
+     )
+     insert into notifications (id, user_id, actor_id, type, list_id, item_id)
+     select r.id, r.user_id, $2, $3, $4, $5
+     from recipients r
+     where r.user_id not in (select user_id from bumped)`,
+    [
+      userIds,
+      params.actorId,
+      params.type,
+      params.listId ?? null,
+      params.itemId ?? null,
+      userIds.map(() => uuidv4()),
+    ]
+  );
+}
+
+export async function getNotifications(
+  userId: string,
+  unreadOnly: boolean,
+  page?: PageParams
+): Promise<NotificationRow[]> {
+  const values: unknown[] = [userId, unreadOnly, page?.limit ?? null];
+  let afterClause = "";
+  if (page?.afterId) {
+    values.push(page.afterId);
+    afterClause = `and ${createdBefore("notifications", "n", "$4")}`;
+  }
+  return query<NotificationRow>(
+    `select n.id, n.type, n.actor_id, u.handle as actor_handle, u.avatar_url as actor_avatar_url,
+       n.list_id, l.title as list_title, n.item_id, i.title as item_title, n.count, n.read_at, n.created_at
+     from notifications n
+     join users u on u.id = n.actor_id
+     left join lists l on l.id = n.list_id
+     left join items i on i.id = n.item_id
+     where n.user_id = $1 and (not $2 or n.read_at is null) ${afterClause}
+     order by n.created_at desc, n.id desc
+     limit $3`,
+    values
+  );
+}
+
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  const rows = await query<{ count: number }>(
+    "select count(*)::int as count from notifications where user_id = $1 and read_at is null",
+    [userId]
+  );
+  return rows[0]?.count ?? 0;
+}
+
+export async function markNotificationsRead(
+  userId: string,
+  notificationIds: string[] | null
+): Promise<number> {
+  const rows = await query(
+    `update notifications set read_at = now()
+     where user_id = $1 and read_at is null and ($2::uuid[] is null or id = any($2::uuid[]))
+     returning id`,
+    [userId, notificationIds]
+  );
+  return rows.length;
+}
+
+export async function getMutedNotificationTypes(userId: string): Promise<NotificationType[]> {
+  const rows = await query<{ type: NotificationType }>(
+    "select type from notification_mutes where user_id = $1 order by type",
+    [userId]
+  );
+  return rows.map((row) => row.type);
+}
+
+export async function setMutedNotificationTypes(userId: string, types: NotificationType[]): Promise<void> {
+  await withTransaction(async () => {
+    await query("delete from notification_mutes where user_id = $1", [userId]);
+    await query(
+      "insert into notification_mutes (user_id, type) select $1, unnest($2::text[])",
+      [userId, types]
+    );
+  });
+}
+
+const RECOMMENDATION_VIEWS = ["item_co_saves", "item_popularity", "list_popularity", "user_popularity"];
+
+export async function refreshRecommendations(): Promise<void> {
+  for (const view of RECOMMENDATION_VIEWS) {
+    await query(`refresh materialized view concurrently ${view}`);
+  }
+}
+
+// `owned` holds the source items the viewer already has: ones they saved, and their own items,
+// forked copies standing for the item they were copied from. `seeds` is $2 mapped the same way,
+// or `owned` when $2 is null, and `scored` sums the co-saves of every item saved alongside them.
+const recommendationScores = `owned as (
+    select b.source_item_id as item_id from bookmarks b where b.user_id = $1
+    union
+    select coalesce(i.forked_from_item_id, i.id) from items i join lists l on l.id = i.list_id
+    where l.owner_id = $1 and i.deleted_at is null and l.deleted_at is null
+  ),
+  seeds as (
+    select coalesce(b.source_item_id, i.forked_from_item_id, s.id) as item_id
+    from unnest($2::uuid[]) as s(id)
+    left join bookmarks b on b.created_item_id = s.id
+    left join items i on i.id = s.id
+    union
+    select item_id from owned where $2::uuid[] is null
+  ),
+  scored as (
+    select c.related_item_id as item_id, sum(c.co_saves)::int as co_saves
+    from item_co_saves c
+    join seeds s on s.item_id = c.item_id
+    group by c.related_item_id
+  )`;
+
+const publicLiveList = (alias: string) =>
+  `${alias}.visibility = 'public' and ${alias}.deleted_at is null and ${alias}.archived_at is null`;
+
+export async function recommendItems(params: RecommendationSeeds): Promise<RecommendedItem[]> {
+  return query<RecommendedItem>(
+    `with ${recommendationScores},
+     candidates as (select item_id from scored union select item_id from item_popularity)
+     select i.id, i.list_id, i.title, i.url, l.title as list_title, l.type as list_type, l.owner_id,
+       u.handle as owner_handle, coalesce(sc.co_saves, 0) as co_saves, coalesce(p.save_count, 0) as save_count
+     from candidates c
+     join items i on i.id = c.item_id and i.deleted_at is null
+     join lists l on l.id = i.list_id and ${publicLiveList("l")}
+     join users u on u.id = l.owner_id
+     left join scored sc on sc.item_id = i.id
+     left join item_popularity p on p.item_id = i.id
+     where l.owner_id <> $1
+       and i.id not in (select item_id from seeds)
+       and i.id not in (select item_id from owned)
+     order by coalesce(sc.co_saves, 0) desc, lower(l.type) = any($3::text[]) desc,
+       coalesce(p.save_count, 0) desc, i.created_at desc, i.id
+     limit $4`,
+    [params.viewerId, params.seedItemIds, params.types.map((type) => type.toLowerCase()), params.limit]
+  );
+}
+
+export async function recommendLists(params: RecommendationSeeds): Promise<RecommendedList[]> {
+  return query<RecommendedList>(
+    `with ${recommendationScores},
+     list_scores as (
+       select i.list_id, sum(sc.co_saves)::int as co_saves
+       from scored sc
+       join items i on i.id = sc.item_id and i.deleted_at is null
+       group by i.list_id
+     )
+     select l.id, l.title, l.type, l.owner_id, u.handle as owner_handle,
+       (select count(*) from items i where i.list_id = l.id and i.deleted_at is null)::int as item_count,
+       coalesce(ls.co_saves, 0) as co_saves, coalesce(p.save_count, 0) as save_count
+     from lists l
+     join users u on u.id = l.owner_id
+     left join list_scores ls on ls.list_id = l.id
+     left join list_popularity p on p.list_id = l.id
+     where ${publicLiveList("l")}
+       and l.owner_id <> $1
+       and (ls.list_id is not null or p.list_id is not null)
+       and not exists (
+         select 1 from lists f where f.owner_id = $1 and f.forked_from_list_id = l.id and f.deleted_at is null
+       )
+     order by coalesce(ls.co_saves, 0) desc, lower(l.type) = any($3::text[]) desc,
+       coalesce(p.save_count, 0) desc, l.created_at desc, l.id
+     limit $4`,
+    [params.viewerId, params.seedItemIds, params.types.map((type) => type.toLowerCase()), params.limit]
+  );
+}
+
+export async function recommendUsers(params: {
+  viewerId: string;
+  types: string[];
+  limit: number;
+}): Promise<RecommendedUser[]> {
+  return query<RecommendedUser>(
+    `select id, handle, display_name, avatar_url, saved_from, save_count
+     from (
+       select u.id, u.handle, u.display_name, u.avatar_url,
+         (
+           select count(*) from bookmarks b where b.user_id = $1 and b.source_user_id = u.id
+         )::int as saved_from,
+         exists (
+           select 1 from lists l
+           where l.owner_id = u.id and ${publicLiveList("l")} and lower(l.type) = any($2::text[])
+         ) as shares_type,
+         coalesce(p.save_count, 0) as save_count
+       from users u
+       left join user_popularity p on p.user_id = u.id
+       where u.id <> $1
+         and not exists (select 1 from follows f where f.follower_id = $1 and f.followee_id = u.id)
+     ) candidates
+     where saved_from > 0 or shares_type or save_count > 0
+     order by saved_from desc, shares_type desc, save_count desc, handle
+     limit $3`,
+    [params.viewerId, params.types.map((type) => type.toLowerCase()), params.limit]
+  );
+}
+
+const headlineOptions = `StartSel="${SEARCH_HIGHLIGHT_START}", StopSel="${SEARCH_HIGHLIGHT_STOP}", HighlightAll=true`;
+
+const accessTokenColumns =
+  "id, user_id, name, token_prefix, scopes, created_at, last_used_at, expires_at";
+
+export async function createAccessToken(params: {
+  userId: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+}): Promise<AccessTokenRow> {
+  const rows = await query<AccessTokenRow>(
+    `insert into personal_access_tokens (id, user_id, name, token_hash, token_prefix, scopes, expires_at)
+     values ($1, $2, $3, $4, $5, $6, $7)
+     returning ${accessTokenColumns}`,
+    [
+      uuidv4(),
+      params.userId,
+      params.name,
+      params.tokenHash,
+      params.tokenPrefix,
+      params.scopes,
+      params.expiresAt,
+    ]
+  );
+  return rows[0];
+}
+
+export async function listAccessTokens(userId: string): Promise<AccessTokenRow[]> {
+  return query<AccessTokenRow>(
+    `select ${accessTokenColumns} from personal_access_tokens
+     where user_id = $1 and revoked_at is null
+     order by created_at desc`,
+    [userId]
+  );
+}
+
+export async function revokeAccessToken(tokenId: string, userId: string): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    `update personal_access_tokens set revoked_at = now()
+     where id = $1 and user_id = $2 and revoked_at is null
+     returning id`,
+    [tokenId, userId]
+  );
+  return rows.length > 0;
+}
+
+export async function resolveAccessToken(
+  tokenHash: string
+): Promise<{ token: AccessTokenRow; user: DbUser } | null> {
+  const rows = await query<AccessTokenRow>(
+    `update personal_access_tokens set last_used_at = now()
+     where token_hash = $1 and revoked_at is null and (expires_at is null or expires_at > now())
+     returning ${accessTokenColumns}`,
+    [tokenHash]
+  );
+  const token = rows[0];
+  if (!token) {
+    return null;
+  }
+  const user = await getUserById(token.user_id);
+  return user ? { token, user } : null;
+}
+
+/**
+ * Full-text search over public list titles and types, best match first.
+ */
+export async function searchLists(
+  queryText: string,
+  filters: ContentSearchFilters
+): Promise<ListSearchResult[]> {
+  const values: unknown[] = [queryText, filters.limit, headlineOptions];
+  const conditions = [
+    "l.search_vector @@ q.query",
+    "l.visibility = 'public'",
+    "l.deleted_at is null",
+    "l.archived_at is null",
+  ];
+  if (filters.type) {
+    values.push(filters.type);
+    conditions.push(`lower(l.type) = lower($${values.length})`);
+  }
+  if (filters.ownerId) {
+    values.push(filters.ownerId);
+    conditions.push(`l.owner_id = $${values.length}`);
+  }
+  return query<ListSearchResult>(
+    `select l.id, l.title, l.type, l.owner_id, u.handle as owner_handle,
+       ts_rank_cd(l.search_vector, q.query) as rank,
+       ts_headline('english', l.title, q.query, $3) as title_highlight
+     from lists l
+     cross join websearch_to_tsquery('english', $1) as q(query)
+     join users u on u.id = l.owner_id
+     where ${conditions.join(" and ")}
+     order by rank desc, l.created_at desc
+     limit $2`,
+    values
+  );
+}
+
+/**
+ * Full-text search over item titles, notes and URLs in public lists, best match first.
+ */
+export async function searchItems(
+  queryText: string,
+  filters: ContentSearchFilters
+): Promise<ItemSearchResult[]> {
+  const values: unknown[] = [queryText, filters.limit, headlineOptions];
+  const conditions = [
+    "i.search_vector @@ q.query",
+    "i.deleted_at is null",
+    "l.visibility = 'public'",
+    "l.deleted_at is null",
+    "l.archived_at is null",
+  ];
+  if (filters.type) {
+    values.push(filters.type);
+    conditions.push(`lower(l.type) = lower($${values.length})`);
+  }
+  if (filters.ownerId) {
+    values.push(filters.ownerId);
+    conditions.push(`l.owner_id = $${values.length}`);
+  }
+  if (filters.status) {
+    values.push(filters.status);
+    conditions.push(`i.status = $${values.length}`);
+  }
+  return query<ItemSearchResult>(
+    `select i.id, i.list_id, l.title as list_title, l.type as list_type, l.owner_id,
+       u.handle as owner_handle, i.title, i.note, i.url, i.status,
+       ts_rank_cd(i.search_vector, q.query) as rank,
+       ts_headline('english', i.title, q.query, $3) as title_highlight,
+       case when i.note is null then null else ts_headline('english', i.note, q.query, $3) end as note_highlight
+     from items i
+     cross join websearch_to_tsquery('english', $1) as q(query)
+     join lists l on l.id = i.list_id
+     join users u on u.id = l.owner_id
+     where ${conditions.join(" and ")}
+     order by rank desc, i.created_at desc
+     limit $2`,
+    values
+  );
+}
+
+/**
+ * Creates a list (unless `listId` is given) and inserts all items in one transaction, keeping
+ * their order above any existing items. Returns the new items' ids in import order.
+ */
+export async function importList(params: {
+  ownerId: string;
+  listId?: string | null;
+  title: string;
+  type: string;
+  items: ImportedItem[];
+}): Promise<{ listId: string; itemIds: string[] }> {
+  return withTransaction(async () => {
+    const itemIds = params.items.map(() => uuidv4());
+    const listId =
+      params.listId ??
+      (await createList({ ownerId: params.ownerId, title: params.title, type: params.type }));
+    const [base] = await query<{ min: number | null }>(
+      "select min(order_index) as min from items where list_id = $1 and deleted_at is null",
+      [listId]
+    );
+    const start = (base?.min ?? 0) - params.items.length * ORDER_GAP;
+    await query(
+      `insert into items (id, list_id, title, note, url, status, order_index, completed_at)
+       select t.id, $1, t.title, t.note, t.url, t.status, $2 + (t.ord - 1) * $3,
+         case when t.status = 'done' then now() else null end
+       from unnest($4::uuid[], $5::text[], $6::text[], $7::text[], $8::text[])
+         with ordinality as t(id, title, note, url, status, ord)`,
+      [
+        listId,
+        start,
+        ORDER_GAP,
+        itemIds,
+        params.items.map((item) => item.title),
+        params.items.map((item) => item.note),
+        params.items.map((item) => item.url),
+        params.items.map((item) => item.status),
+      ]
+    );
+    return { listId, itemIds };
+  });
+}
+
+/**
+ * Copies a list and its live items into a new list owned by `ownerId`. Every copy starts out
+ * active, in the source's display order, and remembers the item it came from.
+ */
+export async function forkList(params: {
+  sourceListId: string;
+  ownerId: string;
+  title: string;
+  type: string;
+  visibility: ListVisibility;
+  sync: boolean;
+}): Promise<string> {
+  return withTransaction(async () => {
+    const listId = await createList({
+      ownerId: params.ownerId,
+      title: params.title,
+      type: params.type,
+      visibility: params.visibility,
+    });
+    await query(
+      "update lists set forked_from_list_id = $2, fork_sync = $3, fork_synced_at = now() where id = $1",
+      [listId, params.sourceListId, params.sync]
+    );
+    const sources = await query<{ id: string }>(
+      `select id from items where list_id = $1 and deleted_at is null
+       order by status, order_index, created_at desc, id desc`,
+      [params.sourceListId]
+    );
+    await copyItems(listId, sources.map((row) => row.id), 0);
+    return listId;
+  });
+}
+
+/**
+ * Copies live items of the fork's source that the fork has never had, above the fork's own
+ * items. Items the fork owner deleted count as had, so a sync does not bring them back.
+ */
+export async function syncFork(listId: string, limit: number): Promise<string[]> {
+  return withTransaction(async () => {
+    const [base] = await query<{ min: number | null }>(
+      "select min(order_index) as min from items where list_id = $1 and deleted_at is null",
+      [listId]
+    );
+    const upstream = await query<{ id: string }>(
+      `select s.id
+       from lists f
+       join lists src on src.id = f.forked_from_list_id
+         and src.visibility = 'public' and src.deleted_at is null
+       join items s on s.list_id = src.id and s.deleted_at is null
+       where f.id = $1
+         and not exists (select 1 from items c where c.list_id = f.id and c.forked_from_item_id = s.id)
+       order by s.status, s.order_index, s.created_at desc, s.id desc
+       limit $2`,
+      [listId, limit]
+    );
+    const itemIds = await copyItems(
+      listId,
+      upstream.map((row) => row.id),
+      (base?.min ?? 0) - (upstream.length + 1) * ORDER_GAP
+    );
+    await query("update lists set fork_synced_at = now() where id = $1", [listId]);
+    return itemIds;
+  });
+}
+
+// Copies the source items into `listId` as active items, in the given order from `start` on,
+// each remembering the item it came from. Sources deleted meanwhile are skipped.
+async function copyItems(listId: string, sourceIds: string[], start: number): Promise<string[]> {
+  const ids = sourceIds.map(() => uuidv4());
+  const rows = await query<{ id: string }>(
+    `insert into items
+       (id, list_id, title, note, url, link_preview, attributes, tags, status, order_index, forked_from_item_id)
+     select t.id, $1, s.title, s.note, s.url, s.link_preview, s.attributes, s.tags, 'active',
+       $2 + t.ord * $3, s.id
+     from unnest($4::uuid[], $5::uuid[]) with ordinality as t(source_id, id, ord)
+     join items s on s.id = t.source_id and s.deleted_at is null
+     returning id`,
+    [listId, start, ORDER_GAP, sourceIds, ids]
+  );
+  const inserted = new Set(rows.map((row) => row.id));
+  return ids.filter((id) => inserted.has(id));
+}
+
+/** Live forks with `fork_sync` on whose source is still public, oldest sync first. */
+export async function getSyncedForks(): Promise<ListRow[]> {
+  return query<ListRow>(
+    `select f.id, f.owner_id, f.title, f.type, f.visibility, f.share_token, f.archived_at, f.deleted_at,
+       f.forked_from_list_id, f.fork_sync
+     from lists f
+     join lists src on src.id = f.forked_from_list_id
+     where f.fork_sync and f.deleted_at is null
+       and src.visibility = 'public' and src.deleted_at is null
+     order by f.fork_synced_at asc nulls first`
+  );
+}
+
+export const postgresRepository: Repository = {
+  transaction: withTransaction,
+  getUserById,
+  isHandleAvailable,
+  ensureUser,
+  updateProfile,
+  changeHandle,
+  getUserByHandle,
+  listUserSummaries,
+  searchUsersByQuery,
+  getListsByOwner,
+  getListsSharedWith,
+  getListSummaryById,
+  getListById,
+  getListByShareToken,
+  createList,
+  countListsByOwner,
+  updateList,
+  rotateShareToken,
+  getOrCreateListByType,
+  getListRole,
+  getListMembers,
+  getPendingInvites,
+  inviteListMember,
+  acceptListInvite,
+  removeListMember,
+  countItemsInList,
+  addItem,
+  updateItem,
+  setItemStatus,
+  getItemState,
+  getItemsByList,
+  moveItem,
+  setItemOrder,
+  deleteItem,
+  findSourceItem,
+  getTags,
+  getItemsByTag,
+  importList,
+  forkList,
+  syncFork,
+  getSyncedForks,
+  createBookmark,
+  findBookmark,
+  deleteBookmark,
+  softDeleteItem,
+  restoreItem,
+  getDeletedItem,
+  softDeleteList,
+  setListArchived,
+  restoreList,
+  getTrash,
+  purgeTrash,
+  rateItem,
+  clearItemRating,
+  getTopRatedItems,
+  addComment,
+  getComment,
+  updateComment,
+  setCommentHidden,
+  deleteComment,
+  getCommentThreads,
+  getCommentReplies,
+  addReaction,
+  removeReaction,
+  getEngagement,
+  getCustomListType,
+  getCustomListTypes,
+  saveCustomListType,
+  deleteCustomListType,
+  followUser,
+  unfollowUser,
+  getFollowStats,
+  getFeed,
+  recordListEvent,
+  notify,
+  getNotifications,
+  countUnreadNotifications,
+  markNotificationsRead,
+  getMutedNotificationTypes,
+  setMutedNotificationTypes,
+  refreshRecommendations,
+  recommendItems,
+  recommendLists,
+  recommendUsers,
+  getListHistory,
+  findUndoableEvent,
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+  resolveAccessToken,
+  searchLists,
+  searchItems,
+};
+
+/**
+ * Shares rate limit buckets between server instances. The refill and the take are separate
+ * statements; the take only succeeds while a whole token is left, so concurrent calls can't
+ * overspend a bucket.
+ */
+export const postgresRateLimitStore: RateLimitStore = {
+  async take(key, bucket, now) {
+    const [refilled] = await query<{ tokens: number }>(
+      `insert into rate_limit_buckets as bucket (key, tokens, updated_at)
+       values ($1, $2, to_timestamp($4 / 1000.0))
+       on conflict (key) do update set
+         tokens = least($2, bucket.tokens
+           + greatest(0, extract(epoch from excluded.updated_at - bucket.updated_at)) * $3),
+         updated_at = greatest(bucket.updated_at, excluded.updated_at)
+       returning tokens`,
+      [key, bucket.capacity, bucket.refillPerSecond, now]
+    );
+    const taken = await query(
+      "update rate_limit_buckets set tokens = tokens - 1 where key = $1 and tokens >= 1 returning key",
+      [key]
+    );
+    if (taken.length > 0) {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return {
+      allowed: false,
+      retryAfterMs: ((1 - (refilled?.tokens ?? 0)) / bucket.refillPerSecond) * 1000,
+    };
+  },
+  async prune(before) {
+    await query("delete from rate_limit_buckets where updated_at < to_timestamp($1 / 1000.0)", [before]);
+  },
+};
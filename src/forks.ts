@@ -0,0 +1,38 @@
+import type { ListRow, Repository } from "./repository.js";
+
+/**
+ * Copies the upstream items a fork doesn't have yet, as far as the item cap allows, and
+ * records them in the fork's history as added by its owner so they can be undone.
+ */
+export async function syncForkItems(
+  repo: Repository,
+  fork: Pick<ListRow, "id" | "owner_id">,
+  maxItemsPerList: number
+): Promise<string[]> {
+  return repo.transaction(async () => {
+    const room = maxItemsPerList - (await repo.countItemsInList(fork.id));
+    const itemIds = room > 0 ? await repo.syncFork(fork.id, room) : [];
+    if (itemIds.length > 0) {
+      await repo.recordListEvent({
+        listId: fork.id,
+        actorId: fork.owner_id,
+        action: "items_added",
+        after: { itemIds },
+      });
+    }
+    return itemIds;
+  });
+}
+
+/** Syncs every fork that follows its source; one failing fork doesn't stop the others. */
+export async function syncAllForks(repo: Repository, maxItemsPerList: number) {
+  let items = 0;
+  for (const fork of await repo.getSyncedForks()) {
+    try {
+      items += (await syncForkItems(repo, fork, maxItemsPerList)).length;
+    } catch (error) {
+      console.error(`Syncing fork ${fork.id} failed`, error);
+    }
+  }
+  return items;
+}
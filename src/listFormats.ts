@@ -0,0 +1,363 @@
+export type ExportFormat = "csv" | "markdown" | "json";
+
+export type ImportFormat = ExportFormat | "letterboxd" | "goodreads";
+
+export type PortableItem = {
+  title: string;
+  note: string | null;
+  url: string | null;
+  status: "active" | "done";
+};
+
+export type PortableList = {
+  title: string;
+  type: string;
+  items: PortableItem[];
+};
+
+export type ParsedImport = {
+  title: string | null;
+  type: string | null;
+  items: PortableItem[];
+  warnings: string[];
+};
+
+export const LIST_JSON_FORMAT = "a-lister.list";
+export const LIST_JSON_VERSION = 1;
+
+const TITLE_MAX = 160;
+const NOTE_MAX = 280;
+
+export class ImportError extends Error {}
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new ImportError("CSV has an unterminated quoted field.");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function csvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new ImportError("CSV is empty.");
+  }
+  const columns = header.map((name) => name.trim().toLowerCase());
+  return rows.map((cells) =>
+    Object.fromEntries(columns.map((name, index) => [name, (cells[index] ?? "").trim()]))
+  );
+}
+
+function escapeCsv(value: string | null): string {
+  if (value === null) return "";
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function normalizeUrl(value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function clip(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+function toItem(
+  raw: { title?: string; note?: string | null; url?: string | null; status?: string | null },
+  defaultStatus: "active" | "done",
+  line: number,
+  warnings: string[]
+): PortableItem | null {
+  const title = (raw.title ?? "").trim();
+  if (!title) {
+    warnings.push(`Row ${line}: skipped because it has no title.`);
+    return null;
+  }
+  const note = raw.note?.trim() || null;
+  const url = normalizeUrl(raw.url);
+  if (raw.url?.trim() && !url) {
+    warnings.push(`Row ${line}: ignored invalid URL.`);
+  }
+  if (title.length > TITLE_MAX || (note && note.length > NOTE_MAX)) {
+    warnings.push(`Row ${line}: shortened a long title or note.`);
+  }
+  const status = raw.status?.trim().toLowerCase();
+  return {
+    title: clip(title, TITLE_MAX),
+    note: note ? clip(note, NOTE_MAX) : null,
+    url,
+    status:
+      status === "done" || status === "x" || status === "true"
+        ? "done"
+        : status === "active"
+          ? "active"
+          : defaultStatus,
+  };
+}
+
+function parseCsvList(text: string, defaultStatus: "active" | "done"): ParsedImport {
+  const warnings: string[] = [];
+  const records = csvRecords(text);
+  if (records.length > 0 && !("title" in records[0])) {
+    throw new ImportError("CSV needs a title column.");
+  }
+  const items = records
+    .map((record, index) => toItem(record, defaultStatus, index + 2, warnings))
+    .filter((item): item is PortableItem => item !== null);
+  return { title: null, type: null, items, warnings };
+}
+
+const markdownItemPattern = /^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const markdownLinkPattern = /^\[([^\]]+)\]\(([^)\s]+)\)(.*)$/;
+
+function parseMarkdownList(text: string): ParsedImport {
+  const warnings: string[] = [];
+  const items: PortableItem[] = [];
+  let title: string | null = null;
+  text.split(/\r?\n/).forEach((line, index) => {
+    const heading = line.match(/^#\s+(.+)$/);
+    if (heading && title === null) {
+      title = heading[1].trim();
+      return;
+    }
+    const match = line.match(markdownItemPattern);
+    if (!match) return;
+    let rest = match[2].trim();
+    let url: string | null = null;
+    const link = rest.match(markdownLinkPattern);
+    if (link) {
+      url = link[2];
+      rest = `${link[1]}${link[3]}`;
+    }
+    const [itemTitle, ...noteParts] = rest.split(" — ");
+    const item = toItem(
+      {
+        title: itemTitle,
+        note: noteParts.join(" — "),
+        url,
+        status: match[1].trim() ? "done" : "active",
+      },
+      "active",
+      index + 1,
+      warnings
+    );
+    if (item) items.push(item);
+  });
+  return { title, type: null, items, warnings };
+}
+
+function parseJsonList(text: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("JSON could not be parsed.");
+  }
+  const doc = data as {
+    format?: unknown;
+    version?: unknown;
+    list?: { title?: unknown; type?: unknown };
+    items?: unknown;
+  };
+  if (doc.format !== LIST_JSON_FORMAT) {
+    throw new ImportError(`JSON must have "format": "${LIST_JSON_FORMAT}".`);
+  }
+  if (typeof doc.version !== "number" || doc.version > LIST_JSON_VERSION) {
+    throw new ImportError(
+      `Unsupported JSON version. This server reads up to version ${LIST_JSON_VERSION}.`
+    );
+  }
+  if (!Array.isArray(doc.items)) {
+    throw new ImportError("JSON needs an items array.");
+  }
+  const warnings: string[] = [];
+  const items = doc.items
+    .map((raw, index) => {
+      const entry = (raw ?? {}) as Record<string, unknown>;
+      return toItem(
+        {
+          title: typeof entry.title === "string" ? entry.title : "",
+          note: typeof entry.note === "string" ? entry.note : null,
+          url: typeof entry.url === "string" ? entry.url : null,
+          status: typeof entry.status === "string" ? entry.status : null,
+        },
+        "active",
+        index + 1,
+        warnings
+      );
+    })
+    .filter((item): item is PortableItem => item !== null);
+  return {
+    title: typeof doc.list?.title === "string" ? doc.list.title : null,
+    type: typeof doc.list?.type === "string" ? doc.list.type : null,
+    items,
+    warnings,
+  };
+}
+
+// Letterboxd exports watched.csv, diary.csv, ratings.csv and watchlist.csv. Rows with a watch
+// date or rating are done; watched.csv and watchlist.csv look alike, so others use defaultStatus.
+function parseLetterboxd(text: string, defaultStatus: "active" | "done"): ParsedImport {
+  const warnings: string[] = [];
+  const records = csvRecords(text);
+  if (records.length > 0 && !("name" in records[0])) {
+    throw new ImportError("This doesn't look like a Letterboxd export (missing Name column).");
+  }
+  const items = records
+    .map((record, index) => {
+      const watched = Boolean(record["watched date"] || record.rating);
+      const noteParts = [
+        record.rating ? `Rated ${record.rating}/5` : "",
+        record.rewatch?.toLowerCase() === "yes" ? "Rewatch" : "",
+        record.tags ? `Tags: ${record.tags}` : "",
+      ].filter(Boolean);
+      return toItem(
+        {
+          title: record.year ? `${record.name} (${record.year})` : record.name,
+          note: noteParts.join(" · ") || null,
+          url: record["letterboxd uri"],
+          status: watched ? "done" : defaultStatus,
+        },
+        defaultStatus,
+        index + 2,
+        warnings
+      );
+    })
+    .filter((item): item is PortableItem => item !== null);
+  return { title: "Films", type: "movies", items, warnings };
+}
+
+function parseGoodreads(text: string): ParsedImport {
+  const warnings: string[] = [];
+  const records = csvRecords(text);
+  if (records.length > 0 && !("exclusive shelf" in records[0])) {
+    throw new ImportError("This doesn't look like a Goodreads export (missing Exclusive Shelf column).");
+  }
+  const items = records
+    .map((record, index) => {
+      const rating = Number(record["my rating"] || 0);
+      const noteParts = [
+        record.author ? `by ${record.author}` : "",
+        rating > 0 ? `Rated ${rating}/5` : "",
+        record["my review"] || "",
+      ].filter(Boolean);
+      return toItem(
+        {
+          title: record.title,
+          note: noteParts.join(" · ") || null,
+          url: record["book id"] ? `https://www.goodreads.com/book/show/${record["book id"]}` : null,
+          status: record["exclusive shelf"] === "read" ? "done" : "active",
+        },
+        "active",
+        index + 2,
+        warnings
+      );
+    })
+    .filter((item): item is PortableItem => item !== null);
+  return { title: "Books", type: "books", items, warnings };
+}
+
+export function parseImport(
+  format: ImportFormat,
+  content: string,
+  defaultStatus: "active" | "done" = "active"
+): ParsedImport {
+  switch (format) {
+    case "csv":
+      return parseCsvList(content, defaultStatus);
+    case "markdown":
+      return parseMarkdownList(content);
+    case "json":
+      return parseJsonList(content);
+    case "letterboxd":
+      return parseLetterboxd(content, defaultStatus);
+    case "goodreads":
+      return parseGoodreads(content);
+  }
+}
+
+export function serializeList(list: PortableList, format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return [
+        "title,note,url,status",
+        ...list.items.map((item) =>
+          [item.title, item.note, item.url, item.status].map(escapeCsv).join(",")
+        ),
+      ].join("\n");
+    case "markdown":
+      return [
+        `# ${list.title}`,
+        "",
+        ...list.items.map((item) => {
+          const label = item.url ? `[${item.title}](${item.url})` : item.title;
+          const note = item.note ? ` — ${item.note.replace(/\r?\n/g, " ")}` : "";
+          return `- [${item.status === "done" ? "x" : " "}] ${label}${note}`;
+        }),
+      ].join("\n");
+    case "json":
+      return JSON.stringify(
+        {
+          format: LIST_JSON_FORMAT,
+          version: LIST_JSON_VERSION,
+          exported_at: new Date().toISOString(),
+          list: { title: list.title, type: list.type },
+          items: list.items,
+        },
+        null,
+        2
+      );
+  }
+}
+
+export const exportMimeTypes: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  markdown: "text/markdown",
+  json: "application/json",
+};
+
+export const exportExtensions: Record<ExportFormat, string> = {
+  csv: "csv",
+  markdown: "md",
+  json: "json",
+};
@@ -0,0 +1,182 @@
+import { z } from "zod";
+import type { CustomListType, ItemAttributes, ListTypeField, ListTypeFieldKind, Repository } from "./repository.js";
+
+export type ListTypeDefinition = {
+  name: string;
+  label: string;
+  fields: ListTypeField[];
+  custom: boolean;
+};
+
+export const LIST_TYPE_FIELD_KINDS = [
+  "text",
+  "long_text",
+  "number",
+  "integer",
+  "year",
+  "rating",
+  "url",
+  "date",
+  "choice",
+] as const satisfies readonly ListTypeFieldKind[];
+
+export const LIST_TYPE_MAX_FIELDS = 20;
+
+const rating: ListTypeField = { key: "rating", label: "Rating", kind: "rating" };
+
+export const BUILT_IN_LIST_TYPES: ListTypeDefinition[] = [
+  {
+    name: "movies",
+    label: "Movies",
+    custom: false,
+    fields: [
+      { key: "year", label: "Year", kind: "year" },
+      { key: "director", label: "Director", kind: "text" },
+      { key: "runtime_minutes", label: "Runtime (min)", kind: "integer" },
+      rating,
+    ],
+  },
+  {
+    name: "books",
+    label: "Books",
+    custom: false,
+    fields: [
+      { key: "author", label: "Author", kind: "text" },
+      { key: "year", label: "Year", kind: "year" },
+      { key: "pages", label: "Pages", kind: "integer" },
+      { key: "isbn", label: "ISBN", kind: "text" },
+      rating,
+    ],
+  },
+  {
+    name: "places",
+    label: "Places",
+    custom: false,
+    fields: [
+      { key: "address", label: "Address", kind: "text" },
+      { key: "city", label: "City", kind: "text" },
+      { key: "country", label: "Country", kind: "text" },
+      rating,
+    ],
+  },
+  {
+    name: "recipes",
+    label: "Recipes",
+    custom: false,
+    fields: [
+      { key: "servings", label: "Servings", kind: "integer" },
+      { key: "prep_minutes", label: "Prep (min)", kind: "integer" },
+      { key: "cook_minutes", label: "Cook (min)", kind: "integer" },
+      { key: "ingredients", label: "Ingredients", kind: "long_text" },
+      rating,
+    ],
+  },
+  { name: "generic", label: "Generic", custom: false, fields: [] },
+];
+
+const GENERIC_LIST_TYPE = BUILT_IN_LIST_TYPES.find((type) => type.name === "generic")!;
+
+// `general` was the default type before types had fields.
+const BUILT_IN_ALIASES: Record<string, string> = { general: "generic" };
+
+export function findBuiltInListType(name: string) {
+  const lower = name.toLowerCase();
+  const target = BUILT_IN_ALIASES[lower] ?? lower;
+  return BUILT_IN_LIST_TYPES.find((type) => type.name === target) ?? null;
+}
+
+export function toListTypeDefinition(type: CustomListType): ListTypeDefinition {
+  return { name: type.name, label: type.label, fields: type.fields, custom: true };
+}
+
+/**
+ * The definition a list's items are validated against: a built-in type, else the owner's custom
+ * type of that name. Any other free-text type has no fields, like `generic`.
+ */
+export async function resolveListType(
+  repo: Pick<Repository, "getCustomListType">,
+  list: { owner_id: string; type: string }
+): Promise<ListTypeDefinition> {
+  const builtIn = findBuiltInListType(list.type);
+  if (builtIn) return builtIn;
+  const custom = await repo.getCustomListType(list.owner_id, list.type);
+  return custom ? toListTypeDefinition(custom) : { ...GENERIC_LIST_TYPE, name: list.type, label: list.type };
+}
+
+export const listTypeFieldSchema = z
+  .object({
+    key: z
+      .string()
+      .min(1)
+      .max(40)
+      .regex(/^[a-z][a-z0-9_]*$/, "Field keys are lowercase letters, digits and underscores"),
+    label: z.string().min(1).max(60),
+    kind: z.enum(LIST_TYPE_FIELD_KINDS),
+    required: z.boolean().optional(),
+    options: z.array(z.string().min(1).max(60)).min(1).max(30).optional(),
+  })
+  .refine((field) => (field.kind === "choice") === !!field.options, {
+    message: "Choice fields need options, and only choice fields take them",
+    path: ["options"],
+  });
+
+function fieldValueSchema(field: ListTypeField): z.ZodTypeAny {
+  switch (field.kind) {
+    case "text":
+      return z.string().min(1).max(200);
+    case "long_text":
+      return z.string().min(1).max(2000);
+    case "number":
+      return z.number().finite();
+    case "integer":
+      return z.number().int().min(0);
+    case "year":
+      return z.number().int().min(1000).max(9999);
+    case "rating":
+      return z.number().min(0).max(5).multipleOf(0.5);
+    case "url":
+      return z.string().url();
+    case "date":
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+    case "choice":
+      return z.enum(field.options as [string, ...string[]]);
+  }
+}
+
+/**
+ * Applies `changes` to stored attributes: a null value clears a field, and fields the type no
+ * longer has are dropped so a list can change type without stranding its items.
+ */
+export function mergeAttributes(
+  type: ListTypeDefinition,
+  current: ItemAttributes,
+  changes: Record<string, string | number | null>
+) {
+  const keys = new Set(type.fields.map((field) => field.key));
+  const merged: Record<string, unknown> = Object.fromEntries(
+    Object.entries(current).filter(([key]) => keys.has(key))
+  );
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) delete merged[key];
+    else merged[key] = value;
+  }
+  return merged;
+}
+
+/** Checks a complete set of attributes against the type; unknown fields are rejected. */
+export function parseAttributes(type: ListTypeDefinition, attributes: Record<string, unknown>): ItemAttributes {
+  const shape = Object.fromEntries(
+    type.fields.map((field) => {
+      const schema = fieldValueSchema(field);
+      return [field.key, field.required ? schema : schema.optional()];
+    })
+  );
+  const result = z.object(shape).strict().safeParse(attributes);
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid ${type.label} fields. ${problems.join("; ")}.`);
+  }
+  return result.data as ItemAttributes;
+}
@@ -0,0 +1,3157 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthContext, Scope } from "./auth.js";
+
+import { readFileSync } from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+import { fileURLToPath } from "node:url";
+import { dirname, join } from "node:path";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_STOP } from "./repository.js";
+import { generatePersonalAccessToken, hasScope, SCOPES } from "./auth.js";
+import type {
+  DbUser,
+  FeedCursor,
+  ItemAttributes,
+  ItemRow,
+  ItemSort,
+  ItemStatus,
+  ItemState,
+  ListEvent,
+  ListEventAction,
+  ListRole,
+  ListRow,
+  ListSummary,
+  Repository,
+} from "./repository.js";
+import { buildCommentTrees, COMMENT_MAX_LENGTH, REACTION_EMOJIS } from "./comments.js";
+import { syncForkItems } from "./forks.js";
+import { describeNotification, NOTIFICATION_TYPES } from "./notifications.js";
+import { exportExtensions, exportMimeTypes, parseImport, serializeList } from "./listFormats.js";
+import {
+  BUILT_IN_LIST_TYPES,
+  findBuiltInListType,
+  LIST_TYPE_MAX_FIELDS,
+  listTypeFieldSchema,
+  mergeAttributes,
+  parseAttributes,
+  resolveListType,
+  toListTypeDefinition,
+} from "./listTypes.js";
+import type { ListTypeDefinition } from "./listTypes.js";
+import { RateLimitError } from "./rateLimit.js";
+import type { RateLimiter } from "./rateLimit.js";
+import { MAX_ITEM_TAGS, normalizeTag, normalizeTags, TAG_MAX_LENGTH } from "./tags.js";
+import { unfurlBatch, unfurlLink } from "./unfurl.js";
+import type { LinkPreview } from "./unfurl.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const HANDLE_GRACE_DAYS = Number(process.env.HANDLE_GRACE_DAYS ?? 30);
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+const WIDGET_PATH = join(__dirname, "..", "public", "alister-widget.html");
+
+const widgetHtml = readFileSync(WIDGET_PATH, "utf8");
+
+const listTypeSchema = z
+  .string()
+  .min(1)
+  .max(40)
+  .regex(/^[a-zA-Z0-9 _-]+$/, "Type must be simple text");
+
+const RESERVED_HANDLES = new Set([
+  "admin",
+  "alister",
+  "api",
+  "health",
+  "mcp",
+  "me",
+  "settings",
+  "share",
+  "support",
+]);
+
+const handleSchema = z
+  .string()
+  .transform((value) => value.trim().replace(/^@/, "").toLowerCase())
+  .pipe(
+    z
+      .string()
+      .min(3)
+      .max(30)
+      .regex(/^[a-z0-9_]+$/, "Handles use letters, numbers and underscores only")
+      .refine((value) => !RESERVED_HANDLES.has(value), "That handle is reserved")
+  );
+
+const IMPORT_MAX_ITEMS = 1000;
+const IMPORT_PREVIEW_ITEMS = 50;
+
+const MAX_LISTS_PER_USER = Number(process.env.MAX_LISTS_PER_USER ?? 500);
+export const MAX_ITEMS_PER_LIST = Number(process.env.MAX_ITEMS_PER_LIST ?? 2000);
+
+const ACCESS_TOKEN_MAX_DAYS = 365;
+const ACCESS_TOKEN_LIMIT = 20;
+
+const BATCH_MAX_ITEMS = 100;
+
+const HISTORY_PAGE_SIZE = 50;
+const ITEM_PAGE_SIZE = 50;
+const LIST_PAGE_SIZE = 50;
+const USER_PAGE_SIZE = 20;
+const TOP_RATED_SIZE = 10;
+const COMMENT_PAGE_SIZE = 20;
+const NOTIFICATION_PAGE_SIZE = 20;
+const RECOMMENDATION_SIZE = 10;
+const TAG_SUGGESTION_SIZE = 50;
+
+const pageInputSchema = {
+  cursor: z.string().max(200).optional().nullable(),
+  limit: z.number().int().min(1).max(100).optional(),
+};
+
+const listVisibilitySchema = z.enum(["private", "unlisted", "public"]);
+
+const itemFieldsSchema = {
+  title: z.string().min(1).max(160).optional(),
+  note: z.string().max(280).optional().nullable(),
+  url: z.string().url().optional().nullable(),
+  attributes: z
+    .record(z.string(), z.union([z.string(), z.number(), z.null()]))
+    .optional()
+    .describe("Fields of the list's type, such as year or author; null clears a field."),
+  tags: z
+    .array(z.string().min(1).max(TAG_MAX_LENGTH))
+    .max(MAX_ITEM_TAGS)
+    .optional()
+    .describe("Replaces the item's tags; [] clears them. Case and a leading # are ignored."),
+};
+
+const tagSchema = z.string().min(1).max(TAG_MAX_LENGTH);
+
+const uniqueItemIds = (ids: string[]) => new Set(ids).size === ids.length;
+
+// The item fields `update_item` records in history and undo restores.
+const ITEM_FIELD_KEYS = ["title", "note", "url", "attributes", "tags"] as const;
+
+// The attributes an item ends up with once `changes` apply, checked against the list's type.
+function applyAttributes(
+  type: ListTypeDefinition,
+  current: ItemAttributes,
+  changes: Record<string, string | number | null> | undefined
+) {
+  return changes === undefined ? undefined : parseAttributes(type, mergeAttributes(type, current, changes));
+}
+
+const toolOutputTemplate = "ui://widget/alister.html";
+
+const feedCursorSchema = z.object({ occurredAt: z.string(), eventId: z.string() });
+const itemSortSchema = z.enum(["position", "rating"]);
+const itemCursorSchema = z.object({
+  status: z.enum(["active", "done"]),
+  afterId: z.string().uuid(),
+  sort: itemSortSchema.default("position"),
+  tag: z.string().nullable().default(null),
+});
+const rowCursorSchema = z.object({ afterId: z.string().uuid() });
+
+type PageRequest = { cursor?: string | null; limit?: number };
+
+function encodeCursor(value: Record<string, unknown>) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeCursor<T>(cursor: string, schema: z.ZodType<T>): T {
+  try {
+    return schema.parse(JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")));
+  } catch {
+    throw new Error("Invalid cursor.");
+  }
+}
+
+// Fetches one row more than `limit` to learn whether another page follows.
+async function loadPage<T>(
+  limit: number,
+  load: (limit: number) => Promise<T[]>,
+  toCursor: (last: T) => Record<string, unknown>
+) {
+  const rows = await load(limit + 1);
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return { rows: page, nextCursor: rows.length > limit && last ? encodeCursor(toCursor(last)) : null };
+}
+
+function afterIdFrom(cursor: string | null | undefined) {
+  return cursor ? decodeCursor(cursor, rowCursorSchema).afterId : null;
+}
+
+function buildStructuredResponse(
+  payload: Record<string, unknown>,
+  message: string
+): CallToolResult {
+  return {
+    content: [{ type: "text", text: message }],
+    structuredContent: payload,
+  };
+}
+
+/**
+ * Like `buildStructuredResponse`, and tells the widget it can offer to undo the change that was
+ * just recorded on `listId`.
+ */
+function buildUndoableResponse(
+  payload: { view: unknown; effects?: Record<string, unknown> },
+  listId: string,
+  message: string
+) {
+  return buildStructuredResponse(
+    { ...payload, effects: { ...payload.effects, undo: { listId, message } } },
+    message
+  );
+}
+
+// The fields of `next` that differ from `current`, split into old and new values.
+function changedFields<T extends Record<string, unknown>>(
+  current: T,
+  next: Partial<T>,
+  keys: readonly (keyof T & string)[]
+) {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (next[key] !== undefined && !isDeepStrictEqual(next[key], current[key])) {
+      before[key] = current[key];
+      after[key] = next[key];
+    }
+  }
+  return Object.keys(after).length > 0 ? { before, after } : null;
+}
+
+// Ids of the list's live items in their stored order, across both sections.
+async function currentItemOrder(repo: Repository, listId: string) {
+  const [active, done] = await Promise.all([
+    repo.getItemsByList(listId, "active"),
+    repo.getItemsByList(listId, "done"),
+  ]);
+  return [...active, ...done].sort((a, b) => a.order_index - b.order_index).map((item) => item.id);
+}
+
+function describeEvent(event: ListEvent) {
+  const item = event.item_title ? `"${event.item_title}"` : "an item";
+  switch (event.action) {
+    case "list_created":
+      return "created the list";
+    case "list_updated":
+      return `changed the list's ${Object.keys(event.after ?? {}).join(" and ")}`;
+    case "list_deleted":
+      return "moved the list to trash";
+    case "list_archived":
+      return "archived the list";
+    case "list_restored":
+      return "restored the list";
+    case "item_added":
+      return `added ${item}`;
+    case "items_imported":
+      return `imported ${(event.after?.itemIds as string[] | undefined)?.length ?? 0} items`;
+    case "items_added":
+      return `added ${(event.after?.itemIds as string[] | undefined)?.length ?? 0} items`;
+    case "items_updated":
+      return `edited ${Object.keys(event.after?.items ?? {}).length} items`;
+    case "items_status": {
+      const count = Object.keys(event.before?.statuses ?? {}).length;
+      return event.after?.status === "done"
+        ? `marked ${count} items done`
+        : `moved ${count} items back to active`;
+    }
+    case "item_updated":
+      return `edited ${item}`;
+    case "item_status":
+      return event.after?.status === "done" ? `marked ${item} done` : `moved ${item} back to active`;
+    case "item_moved":
+      return `moved ${item}`;
+    case "items_reordered":
+      return "reordered the items";
+    case "item_deleted":
+      return `moved ${item} to trash`;
+    case "item_restored":
+      return `restored ${item}`;
+    case "bookmark_removed":
+      return `removed the saved copy of "${event.before?.title}"`;
+    case "undo":
+      return "undid a change";
+  }
+}
+
+const listRoleRank: Record<ListRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+function canViewList(
+  list: { owner_id: string; visibility: string; share_token: string | null },
+  viewerId: string,
+  shareToken?: string | null,
+  role?: ListRole | null
+) {
+  if (role || list.owner_id === viewerId || list.visibility === "public") {
+    return true;
+  }
+  return list.visibility === "unlisted" && !!shareToken && list.share_token === shareToken;
+}
+
+function requireListVisible(
+  list: { owner_id: string; visibility: string; share_token: string | null },
+  viewerId: string,
+  shareToken?: string | null,
+  role?: ListRole | null
+) {
+  // Hidden lists are reported as missing so their existence isn't leaked.
+  if (!canViewList(list, viewerId, shareToken, role)) {
+    throw new Error("List not found.");
+  }
+}
+
+async function requireListRole(
+  repo: Repository,
+  listId: string,
+  viewerId: string,
+  minimum: ListRole
+) {
+  const list = await repo.getListById(listId);
+  if (!list) throw new Error("List not found.");
+  const role = await repo.getListRole(listId, viewerId);
+  if (!role || listRoleRank[role] < listRoleRank[minimum]) {
+    requireListVisible(list, viewerId, null, role);
+    throw new Error(
+      minimum === "owner"
+        ? "You can only modify your own lists."
+        : "You need editor access to change this list."
+    );
+  }
+  return { list, role };
+}
+
+function buildShareUrl(shareToken: string) {
+  const baseUrl = (process.env.BASE_URL || "").replace(/\/+$/, "");
+  return `${baseUrl}/share/${shareToken}`;
+}
+
+function presentList<T extends ListSummary>(list: T, viewerId: string) {
+  const isOwner = list.owner_id === viewerId;
+  const shareToken = isOwner && list.visibility === "unlisted" ? list.share_token : null;
+  return {
+    ...list,
+    share_token: shareToken,
+    share_url: shareToken ? buildShareUrl(shareToken) : null,
+  };
+}
+
+async function buildViewerSummary(repo: Repository, viewerId: string) {
+  const viewer = await repo.getUserById(viewerId);
+  if (!viewer) {
+    throw new Error("Viewer not found.");
+  }
+  return {
+    id: viewer.id,
+    handle: viewer.handle,
+    displayName: viewer.display_name,
+    avatarUrl: viewer.avatar_url,
+    bio: viewer.bio,
+    unreadNotifications: await repo.countUnreadNotifications(viewerId),
+  };
+}
+
+async function buildProfileUser(
+  repo: Repository,
+  profile: {
+    id: string;
+    handle: string;
+    displayName: string | null;
+    avatarUrl: string | null;
+    bio: string | null;
+  },
+  viewerId: string
+) {
+  const stats = await repo.getFollowStats(profile.id, viewerId);
+  return {
+    ...profile,
+    followerCount: stats.follower_count,
+    followingCount: stats.following_count,
+    viewerFollows: stats.viewer_follows,
+  };
+}
+
+async function loadListPage(
+  repo: Repository,
+  ownerId: string,
+  viewerId: string,
+  page: PageRequest
+) {
+  const afterId = afterIdFrom(page.cursor);
+  const { rows, nextCursor } = await loadPage(
+    page.limit ?? LIST_PAGE_SIZE,
+    (limit) => repo.getListsByOwner(ownerId, viewerId, { afterId, limit }),
+    (last) => ({ afterId: last.id })
+  );
+  return { lists: rows.map((list) => presentList(list, viewerId)), nextCursor };
+}
+
+async function buildViewerContext(repo: Repository, viewerId: string, listsPage: PageRequest = {}) {
+  const viewer = await buildViewerSummary(repo, viewerId);
+  const { lists, nextCursor } = await loadListPage(repo, viewerId, viewerId, listsPage);
+  const sharedLists = (await repo.getListsSharedWith(viewerId)).map((list) =>
+    presentList(list, viewerId)
+  );
+  const invites = await repo.getPendingInvites(viewerId);
+  return {
+    viewer,
+    lists,
+    listsCursor: listsPage.cursor ?? null,
+    listsNextCursor: nextCursor,
+    sharedLists,
+    invites,
+    listTypes: await availableListTypes(repo, viewerId),
+    viewerTags: await repo.getTags(viewerId, null, TAG_SUGGESTION_SIZE),
+  };
+}
+
+// Built-in types first, then the viewer's own.
+async function availableListTypes(repo: Repository, viewerId: string) {
+  const custom = await repo.getCustomListTypes(viewerId);
+  return [...BUILT_IN_LIST_TYPES, ...custom.map(toListTypeDefinition)];
+}
+
+/**
+ * One page of each section of a list. A cursor belongs to one section, so following it leaves
+ * the other section empty.
+ */
+async function buildItemSections(
+  repo: Repository,
+  listId: string,
+  viewerId: string,
+  page: PageRequest = {},
+  requestedSort: ItemSort = "position",
+  requestedTag: string | null = null
+) {
+  const cursor = page.cursor
+    ? (decodeCursor(page.cursor, itemCursorSchema) as z.output<typeof itemCursorSchema>)
+    : null;
+  // A cursor keeps the order and tag filter its first page was loaded with.
+  const sort = cursor?.sort ?? requestedSort;
+  const tag = cursor ? cursor.tag : requestedTag;
+  const loadSection = async (status: ItemStatus) => {
+    if (cursor && cursor.status !== status) {
+      return { rows: [], nextCursor: null };
+    }
+    return loadPage(
+      page.limit ?? ITEM_PAGE_SIZE,
+      (limit) =>
+        repo.getItemsByList(listId, status, viewerId, { afterId: cursor?.afterId, limit }, sort, tag),
+      (last) => ({ status, afterId: last.id, sort, tag })
+    );
+  };
+  const active = await loadSection("active");
+  const done = await loadSection("done");
+  const itemIds = [...active.rows, ...done.rows].map((item) => item.id);
+  const engagement = new Map(
+    (await repo.getEngagement(listId, itemIds, viewerId)).map((row) => [row.item_id, row])
+  );
+  const withEngagement = (item: ItemRow) => ({
+    ...item,
+    comment_count: engagement.get(item.id)?.comment_count ?? 0,
+    reactions: engagement.get(item.id)?.reactions ?? [],
+  });
+  return {
+    itemsActive: active.rows.map(withEngagement),
+    itemsDone: done.rows.map(withEngagement),
+    listEngagement: {
+      comment_count: engagement.get(null)?.comment_count ?? 0,
+      reactions: engagement.get(null)?.reactions ?? [],
+    },
+    itemSort: sort,
+    itemTag: tag,
+    itemsCursor: page.cursor ?? null,
+    itemsNextCursor: { active: active.nextCursor, done: done.nextCursor },
+  };
+}
+
+async function buildMembers(repo: Repository, listId: string, role: ListRole | null) {
+  if (!role) {
+    return null;
+  }
+  const members = await repo.getListMembers(listId);
+  return role === "owner" ? members : members.filter((member) => member.status === "accepted");
+}
+
+/** A page of comment threads on the list itself (`itemId` null) or on one of its items. */
+async function buildComments(
+  repo: Repository,
+  list: { id: string; owner_id: string },
+  itemId: string | null,
+  viewerId: string,
+  page: PageRequest = {}
+) {
+  const { rows, nextCursor } = await loadPage(
+    page.limit ?? COMMENT_PAGE_SIZE,
+    (limit) => repo.getCommentThreads(list.id, itemId, { afterId: afterIdFrom(page.cursor), limit }),
+    (last) => ({ afterId: last.id })
+  );
+  const replies = await repo.getCommentReplies(rows.map((row) => row.id));
+  return {
+    listId: list.id,
+    itemId,
+    threads: buildCommentTrees(rows, replies, { id: viewerId, isListOwner: list.owner_id === viewerId }),
+    cursor: page.cursor ?? null,
+    nextCursor,
+  };
+}
+
+async function buildNotifications(
+  repo: Repository,
+  viewerId: string,
+  unreadOnly: boolean,
+  page: PageRequest = {}
+) {
+  const { rows, nextCursor } = await loadPage(
+    page.limit ?? NOTIFICATION_PAGE_SIZE,
+    (limit) => repo.getNotifications(viewerId, unreadOnly, { afterId: afterIdFrom(page.cursor), limit }),
+    (last) => ({ afterId: last.id })
+  );
+  return {
+    entries: rows.map((row) => ({ ...row, description: describeNotification(row) })),
+    unreadCount: await repo.countUnreadNotifications(viewerId),
+    mutedTypes: await repo.getMutedNotificationTypes(viewerId),
+    unreadOnly,
+    cursor: page.cursor ?? null,
+    nextCursor,
+  };
+}
+
+async function buildListView(
+  repo: Repository,
+  params: {
+    viewerId: string;
+    listId: string | null;
+    shareToken?: string | null;
+    itemsPage?: PageRequest;
+    itemSort?: ItemSort;
+    itemTag?: string | null;
+    listsPage?: PageRequest;
+  }
+): Promise<Record<string, unknown>> {
+  const context = await buildViewerContext(repo, params.viewerId, params.listsPage);
+  if (!params.listId) {
+    params.listId = context.lists[0]?.id ?? context.sharedLists[0]?.id ?? null;
+  }
+  if (!params.listId) {
+    return {
+      ...context,
+      mode: "mine",
+      selectedList: null,
+      selectedListType: null,
+      viewerRole: null,
+      members: null,
+      itemsActive: [],
+      itemsDone: [],
+      profileUser: null,
+      profileLists: null,
+      profileTopRated: null,
+      searchResults: null,
+    };
+  }
+
+  const selected = await repo.getListSummaryById(params.listId);
+  if (!selected) {
+    throw new Error("List not found.");
+  }
+  const role = await repo.getListRole(params.listId, params.viewerId);
+  requireListVisible(selected, params.viewerId, params.shareToken, role);
+
+  const items = await buildItemSections(
+    repo,
+    params.listId,
+    params.viewerId,
+    params.itemsPage,
+    params.itemSort,
+    params.itemTag
+  );
+  const members = await buildMembers(repo, params.listId, role);
+  const selectedListType = await resolveListType(repo, selected);
+
+  if (!role) {
+    const profileRecord = await repo.getUserById(selected.owner_id);
+    const profileUser = await buildProfileUser(
+      repo,
+      profileRecord
+        ? {
+            id: profileRecord.id,
+            handle: profileRecord.handle,
+            displayName: profileRecord.display_name,
+            avatarUrl: profileRecord.avatar_url,
+            bio: profileRecord.bio,
+          }
+        : {
+            id: selected.owner_id,
+            handle: selected.owner_handle,
+            displayName: selected.owner_display_name,
+            avatarUrl: null,
+            bio: null,
+          },
+      params.viewerId
+    );
+    const profileLists = await loadListPage(repo, selected.owner_id, params.viewerId, {});
+    return {
+      ...context,
+      mode: "profile",
+      selectedList: presentList(selected, params.viewerId),
+      selectedListType,
+      viewerRole: null,
+      members,
+      shareToken: selected.visibility === "unlisted" ? params.shareToken ?? null : null,
+      ...items,
+      profileUser,
+      profileLists: profileLists.lists,
+      profileListsCursor: null,
+      profileListsNextCursor: profileLists.nextCursor,
+      profileTopRated: await repo.getTopRatedItems(selected.owner_id, params.viewerId, TOP_RATED_SIZE),
+      searchResults: null,
+    };
+  }
+
+  return {
+    ...context,
+    mode: "mine",
+    selectedList: presentList(selected, params.viewerId),
+    selectedListType,
+    viewerRole: role,
+    members,
+    ...items,
+    profileUser: null,
+    profileLists: null,
+    profileTopRated: null,
+    searchResults: null,
+  };
+}
+
+async function buildProfileView(
+  repo: Repository,
+  params: {
+    viewerId: string;
+    profileUserId: string;
+    listId?: string | null;
+    listsPage?: PageRequest;
+  }
+): Promise<Record<string, unknown>> {
+  const context = await buildViewerContext(repo, params.viewerId);
+  const profileRecord = await repo.getUserById(params.profileUserId);
+  if (!profileRecord) {
+    throw new Error("Profile user not found.");
+  }
+  const profileUser = await buildProfileUser(
+    repo,
+    {
+      id: profileRecord.id,
+      handle: profileRecord.handle,
+      displayName: profileRecord.display_name,
+      avatarUrl: profileRecord.avatar_url,
+      bio: profileRecord.bio,
+    },
+    params.viewerId
+  );
+  const { lists: profileLists, nextCursor: profileListsNextCursor } = await loadListPage(
+    repo,
+    params.profileUserId,
+    params.viewerId,
+    params.listsPage ?? {}
+  );
+  const profileListsCursor = params.listsPage?.cursor ?? null;
+  const profileTopRated = await repo.getTopRatedItems(params.profileUserId, params.viewerId, TOP_RATED_SIZE);
+  let listId = params.listId ?? profileLists[0]?.id ?? null;
+  if (!listId) {
+    return {
+      ...context,
+      mode: "profile",
+      selectedList: null,
+      selectedListType: null,
+      viewerRole: null,
+      members: null,
+      itemsActive: [],
+      itemsDone: [],
+      profileUser,
+      profileLists,
+      profileListsCursor,
+      profileListsNextCursor,
+      profileTopRated,
+      searchResults: null,
+    };
+  }
+  const selected = await repo.getListSummaryById(listId);
+  if (!selected) {
+    throw new Error("List not found.");
+  }
+  const role = await repo.getListRole(listId, params.viewerId);
+  requireListVisible(selected, params.viewerId, null, role);
+  const items = await buildItemSections(repo, listId, params.viewerId);
+  const isOwner = selected.owner_id === params.viewerId;
+
+  return {
+    ...context,
+    mode: isOwner ? "mine" : "profile",
+    selectedList: presentList(selected, params.viewerId),
+    selectedListType: await resolveListType(repo, selected),
+    viewerRole: role,
+    members: await buildMembers(repo, listId, role),
+    ...items,
+    profileUser: isOwner ? null : profileUser,
+    profileLists: isOwner ? null : profileLists,
+    profileListsCursor: isOwner ? null : profileListsCursor,
+    profileListsNextCursor: isOwner ? null : profileListsNextCursor,
+    profileTopRated: isOwner ? null : profileTopRated,
+    searchResults: null,
+  };
+}
+
+type SearchKind = "users" | "lists" | "items";
+
+async function buildSearchView(
+  repo: Repository,
+  viewerId: string,
+  query: string,
+  options: {
+    kinds?: SearchKind[];
+    type?: string | null;
+    ownerId?: string | null;
+    status?: "active" | "done" | null;
+    limit?: number;
+    usersPage?: PageRequest;
+    recommendations?: Awaited<ReturnType<typeof buildRecommendations>>;
+    tagged?: Awaited<ReturnType<typeof buildTaggedItems>>;
+  } = {}
+) {
+  const context = await buildViewerContext(repo, viewerId);
+  const kinds = new Set<SearchKind>(options.kinds ?? ["users"]);
+  const filters = {
+    type: options.type,
+    ownerId: options.ownerId,
+    status: options.status,
+    limit: options.limit ?? 20,
+  };
+  const usersPage = options.usersPage ?? {};
+  const afterId = afterIdFrom(usersPage.cursor);
+  const users =
+    query && kinds.has("users")
+      ? await loadPage(
+          usersPage.limit ?? USER_PAGE_SIZE,
+          (limit) => repo.searchUsersByQuery(query, { afterId, limit }),
+          (last) => ({ afterId: last.id })
+        )
+      : { rows: [], nextCursor: null };
+  const lists = query && kinds.has("lists") ? await repo.searchLists(query, filters) : [];
+  const items = query && kinds.has("items") ? await repo.searchItems(query, filters) : [];
+  return {
+    ...context,
+    mode: "search",
+    selectedList: null,
+    viewerRole: null,
+    members: null,
+    itemsActive: [],
+    itemsDone: [],
+    profileUser: null,
+    profileLists: null,
+    profileTopRated: null,
+    searchQuery: query,
+    searchResults: {
+      users: users.rows.map((user) => ({
+        id: user.id,
+        handle: user.handle,
+        displayName: user.display_name,
+        avatarUrl: user.avatar_url,
+      })),
+      cursor: usersPage.cursor ?? null,
+      nextCursor: users.nextCursor,
+      lists,
+      items,
+      highlight: { start: SEARCH_HIGHLIGHT_START, stop: SEARCH_HIGHLIGHT_STOP },
+      recommendations: options.recommendations ?? null,
+      tagged: options.tagged ?? null,
+    },
+  };
+}
+
+/** A page of items carrying `tag` across the viewer's lists, or across public lists. */
+async function buildTaggedItems(
+  repo: Repository,
+  params: {
+    tag: string;
+    viewerId: string;
+    scope: "mine" | "public";
+    ownerId: string | null;
+    status: ItemStatus | null;
+    page: PageRequest;
+  }
+) {
+  const { rows, nextCursor } = await loadPage(
+    params.page.limit ?? ITEM_PAGE_SIZE,
+    (limit) =>
+      repo.getItemsByTag({
+        tag: params.tag,
+        viewerId: params.viewerId,
+        scope: params.scope,
+        ownerId: params.ownerId,
+        status: params.status,
+        page: { afterId: afterIdFrom(params.page.cursor), limit },
+      }),
+    (last) => ({ afterId: last.id })
+  );
+  return {
+    tag: params.tag,
+    scope: params.scope,
+    items: rows,
+    cursor: params.page.cursor ?? null,
+    nextCursor,
+  };
+}
+
+/**
+ * Suggestions from bookmark data, seeded by one list's or item's items, or when `seed` is null by
+ * everything the viewer owns or saved. Without a seed the types of the viewer's own lists count as
+ * shared.
+ */
+async function buildRecommendations(
+  repo: Repository,
+  viewerId: string,
+  seed: { listId: string | null; itemIds: string[]; type: string } | null,
+  limit: number
+) {
+  const types = seed
+    ? [seed.type]
+    : [...new Set((await repo.getListsByOwner(viewerId)).map((list) => list.type))];
+  const params = { viewerId, seedItemIds: seed?.itemIds ?? null, types, limit };
+  const [items, lists, users] = await Promise.all([
+    repo.recommendItems(params),
+    repo.recommendLists({ ...params, limit: limit + 1 }),
+    repo.recommendUsers({ viewerId, types, limit }),
+  ]);
+  return {
+    items,
+    lists: lists.filter((list) => list.id !== seed?.listId).slice(0, limit),
+    users: users.map((user) => ({
+      id: user.id,
+      handle: user.handle,
+      displayName: user.display_name,
+      avatarUrl: user.avatar_url,
+      savedFrom: user.saved_from,
+      saveCount: user.save_count,
+    })),
+  };
+}
+
+async function buildFeedView(
+  repo: Repository,
+  viewerId: string,
+  cursor: string | null,
+  limit: number
+) {
+  const context = await buildViewerContext(repo, viewerId);
+  const after = cursor ? decodeCursor<FeedCursor>(cursor, feedCursorSchema) : null;
+  const { rows: page, nextCursor } = await loadPage(
+    limit,
+    (fetchLimit) => repo.getFeed({ followerId: viewerId, cursor: after, limit: fetchLimit }),
+    (last) => ({ occurredAt: last.occurred_at_key, eventId: last.event_id })
+  );
+  return {
+    ...context,
+    mode: "feed",
+    selectedList: null,
+    viewerRole: null,
+    members: null,
+    itemsActive: [],
+    itemsDone: [],
+    profileUser: null,
+    profileLists: null,
+    profileTopRated: null,
+    searchResults: null,
+    feed: {
+      entries: page.map(({ occurred_at_key: _key, ...entry }) => entry),
+      cursor,
+      nextCursor,
+    },
+  };
+}
+
+async function buildTrashView(repo: Repository, viewerId: string) {
+  const context = await buildViewerContext(repo, viewerId);
+  const trash = await repo.getTrash(viewerId);
+  return {
+    ...context,
+    mode: "trash",
+    selectedList: null,
+    viewerRole: null,
+    members: null,
+    itemsActive: [],
+    itemsDone: [],
+    profileUser: null,
+    profileLists: null,
+    profileTopRated: null,
+    searchResults: null,
+    trash: { ...trash, retentionDays: TRASH_RETENTION_DAYS },
+  };
+}
+
+export type McpServerOptions = {
+  unfurl?: typeof unfurlLink;
+  /** Tool calls spend the caller's read or write budget when set. */
+  rateLimiter?: RateLimiter | null;
+  /** The address of the current caller, which has its own budget next to the user's. */
+  clientIp?: () => string | null;
+  maxListsPerUser?: number;
+  maxItemsPerList?: number;
+};
+
+export function createMcpServer(
+  authContext: AuthContext | (() => AuthContext),
+  repo: Repository,
+  options: McpServerOptions = {}
+) {
+  // Sessions pass a getter so re-authentication can swap the context under a live server.
+  const currentAuth = typeof authContext === "function" ? authContext : () => authContext;
+  const unfurl = options.unfurl ?? unfurlLink;
+  const maxListsPerUser = options.maxListsPerUser ?? MAX_LISTS_PER_USER;
+  const maxItemsPerList = options.maxItemsPerList ?? MAX_ITEMS_PER_LIST;
+  const server = new McpServer({
+    name: "a-lister",
+    version: "0.1.0",
+  });
+
+  let viewerCache: { auth: AuthContext; user: DbUser } | null = null;
+  const getViewer = async () => {
+    const auth = currentAuth();
+    if (!viewerCache || viewerCache.auth !== auth) {
+      const user = await repo.ensureUser({
+        authProviderId: auth.authProviderId,
+        handle: auth.handle,
+        displayName: auth.displayName ?? null,
+        avatarUrl: auth.avatarUrl ?? null,
+      });
+      viewerCache = { auth, user };
+    }
+    return viewerCache.user;
+  };
+
+  const requireScope = (scope: Scope) => {
+    if (!hasScope(currentAuth(), scope)) {
+      throw new Error(`Your credentials lack the ${scope} scope.`);
+    }
+  };
+
+  const spendBudget = async (access: "read" | "write") => {
+    if (!options.rateLimiter) return;
+    const ip = options.clientIp?.();
+    await options.rateLimiter.check(access, [
+      `user:${currentAuth().authProviderId}`,
+      ...(ip ? [`ip:${ip}`] : []),
+    ]);
+  };
+
+  // Read-only tools need lists:read and spend the read budget; everything else needs
+  // lists:write and spends the write budget. The overload keeps each handler's own type.
+  function guard<H extends (...args: never[]) => unknown>(access: "read" | "write", handler: H): H;
+  function guard(
+    access: "read" | "write",
+    handler: (...args: never[]) => unknown
+  ): (...args: never[]) => unknown {
+    return async (...args) => {
+      requireScope(`lists:${access}`);
+      try {
+        await spendBudget(access);
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) throw error;
+        return {
+          isError: true,
+          content: [{ type: "text", text: error.message }],
+          _meta: { retryAfterSeconds: error.retryAfterSeconds },
+        } satisfies CallToolResult;
+      }
+      return handler(...args);
+    };
+  }
+
+  const registerTool: McpServer["registerTool"] = (name, config, handler) =>
+    server.registerTool(name, config, guard(config.annotations?.readOnlyHint ? "read" : "write", handler));
+
+  const requireListCapacity = async (ownerId: string) => {
+    if ((await repo.countListsByOwner(ownerId)) >= maxListsPerUser) {
+      throw new Error(`You can have at most ${maxListsPerUser} lists. Delete one to make room.`);
+    }
+  };
+
+  const requireItemCapacity = async (listId: string, adding: number) => {
+    const count = await repo.countItemsInList(listId);
+    if (count + adding > maxItemsPerList) {
+      throw new Error(`Lists hold at most ${maxItemsPerList} items and this one has ${count}.`);
+    }
+  };
+
+  // The owner and accepted members of a shared list hear about each other's changes.
+  const notifyListEdit = async (actorId: string, listId: string) => {
+    const list = await repo.getListById(listId, { includeDeleted: true });
+    if (!list) return;
+    const members = (await repo.getListMembers(listId)).filter((member) => member.status === "accepted");
+    const userIds = [list.owner_id, ...members.map((member) => member.user_id)].filter((id) => id !== actorId);
+    await repo.notify({ userIds, actorId, type: "list_edit", listId });
+  };
+
+  const recordChange = async (
+    actorId: string,
+    listId: string,
+    action: ListEventAction,
+    change: {
+      itemId?: string | null;
+      before?: Record<string, unknown> | null;
+      after?: Record<string, unknown> | null;
+    } = {}
+  ) => {
+    const eventId = await repo.recordListEvent({ listId, actorId, action, ...change });
+    await notifyListEdit(actorId, listId);
+    return eventId;
+  };
+
+  // Edits are only reverted while the row still holds what the change wrote, so undo never
+  // overwrites somebody's later edit.
+  const requireUnchangedSince = (current: Record<string, unknown>, written: Record<string, unknown>) => {
+    const changed = Object.entries(written).some(([key, value]) => !isDeepStrictEqual(current[key], value));
+    if (changed) {
+      throw new Error("That change was edited again since, so it can't be undone.");
+    }
+  };
+
+  const requireItemState = async (itemId: string | null, listId: string) => {
+    const item = itemId ? await repo.getItemState(itemId) : null;
+    if (!item || item.list_id !== listId) throw new Error("That item no longer exists.");
+    return item;
+  };
+
+  // Every id must be a live item of the list; the states come back in the same order.
+  const requireLiveItems = async (listId: string, itemIds: string[]) => {
+    const states = await Promise.all(itemIds.map((itemId) => repo.getItemState(itemId)));
+    const missing = itemIds.filter((_, index) => {
+      const item = states[index];
+      return !item || item.list_id !== listId || item.deleted_at;
+    });
+    if (missing.length > 0) {
+      throw new Error(`Items not found: ${missing.join(", ")}.`);
+    }
+    return states as ItemState[];
+  };
+
+  // Anyone who can read a list can discuss it and its live items.
+  const requireDiscussionTarget = async (
+    listId: string,
+    itemId: string | null | undefined,
+    viewerId: string,
+    shareToken: string | null | undefined
+  ) => {
+    const list = await repo.getListById(listId);
+    if (!list) throw new Error("List not found.");
+    requireListVisible(list, viewerId, shareToken, await repo.getListRole(listId, viewerId));
+    if (itemId) {
+      const item = await repo.getItemState(itemId);
+      if (!item || item.list_id !== listId || item.deleted_at) throw new Error("Item not found.");
+    }
+    return list;
+  };
+
+  const requireComment = async (
+    commentId: string,
+    viewerId: string,
+    shareToken: string | null | undefined
+  ) => {
+    const comment = await repo.getComment(commentId);
+    const list = comment && !comment.deleted_at ? await repo.getListById(comment.list_id) : null;
+    const role = list ? await repo.getListRole(list.id, viewerId) : null;
+    if (!comment || !list || !canViewList(list, viewerId, shareToken, role)) {
+      throw new Error("Comment not found.");
+    }
+    return { comment, list };
+  };
+
+  const revertItemFields = async (
+    listId: string,
+    itemId: string | null,
+    before: Record<string, unknown>,
+    written: Record<string, unknown>
+  ) => {
+    const item = await requireItemState(itemId, listId);
+    if (item.deleted_at) throw new Error("Restore the item first.");
+    requireUnchangedSince(item, written);
+    await repo.updateItem({
+      itemId: item.id,
+      listId,
+      title: before.title as string | undefined,
+      note: before.note as string | null | undefined,
+      url: before.url as string | null | undefined,
+      linkPreview: "url" in before ? ((before.link_preview as LinkPreview | null) ?? null) : undefined,
+      attributes: before.attributes as ItemAttributes | undefined,
+      tags: before.tags as string[] | undefined,
+    });
+  };
+
+  const revertItemStatus = async (
+    listId: string,
+    itemId: string | null,
+    status: ItemStatus,
+    written: unknown
+  ) => {
+    const item = await requireItemState(itemId, listId);
+    if (item.deleted_at) throw new Error("Restore the item first.");
+    requireUnchangedSince(item, { status: written });
+    await repo.setItemStatus({ itemId: item.id, listId, status });
+  };
+
+  const revertChange = async (event: ListEvent, list: ListRow, viewerId: string) => {
+    const before = event.before ?? {};
+    switch (event.action) {
+      case "list_created":
+        await repo.softDeleteList(list.id);
+        return;
+      case "list_updated":
+        requireUnchangedSince(list, event.after ?? {});
+        await repo.updateList({
+          listId: list.id,
+          ...(before as Partial<Pick<ListRow, "title" | "type" | "visibility">>),
+        });
+        return;
+      case "list_deleted":
+        await requireListCapacity(viewerId);
+        await repo.restoreList(list.id);
+        return;
+      case "list_archived":
+        await repo.setListArchived(list.id, false);
+        return;
+      case "list_restored":
+        if (before.archived) await repo.setListArchived(list.id, true);
+        if (before.deleted) await repo.softDeleteList(list.id);
+        return;
+      case "item_added":
+      case "item_restored":
+        await repo.softDeleteItem(event.item_id as string, list.id);
+        return;
+      case "items_imported":
+      case "items_added":
+        for (const itemId of (event.after?.itemIds as string[] | undefined) ?? []) {
+          await repo.softDeleteItem(itemId, list.id);
+        }
+        return;
+      case "item_updated":
+        await revertItemFields(list.id, event.item_id, before, event.after ?? {});
+        return;
+      case "items_updated": {
+        const written = (event.after?.items ?? {}) as Record<string, Record<string, unknown>>;
+        for (const [itemId, fields] of Object.entries(before.items ?? {})) {
+          await revertItemFields(list.id, itemId, fields, written[itemId] ?? {});
+        }
+        return;
+      }
+      case "item_status":
+        await revertItemStatus(list.id, event.item_id, before.status as ItemStatus, event.after?.status);
+        return;
+      case "items_status":
+        for (const [itemId, status] of Object.entries(before.statuses ?? {})) {
+          await revertItemStatus(list.id, itemId, status as ItemStatus, event.after?.status);
+        }
+        return;
+      case "item_moved":
+      case "items_reordered":
+        await repo.setItemOrder({ listId: list.id, itemIds: before.itemIds as string[] });
+        return;
+      case "item_deleted":
+        await requireItemCapacity(list.id, 1);
+        await repo.restoreItem(event.item_id as string, list.id);
+        return;
+      case "bookmark_removed":
+        throw new Error("Save the item again to bring it back.");
+      case "undo":
+        throw new Error("Undo entries can't be undone.");
+    }
+  };
+
+  const requireInteractiveAuth = () => {
+    if (currentAuth().accessTokenId) {
+      throw new Error("Access tokens can't be managed with an access token. Sign in instead.");
+    }
+  };
+
+  server.registerResource(
+    "alister-widget",
+    "ui://widget/alister.html",
+    {},
+    async () => ({
+      contents: [
+        {
+          uri: "ui://widget/alister.html",
+          mimeType: "text/html+skybridge",
+          text: widgetHtml,
+        },
+      ],
+    })
+  );
+
+  registerTool(
+    "list_my_lists",
+    {
+      title: "List my lists",
+      description:
+        "Get the current user lists, newest first. Pass a previous nextCursor as cursor for more.",
+      inputSchema: z.object(pageInputSchema),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ cursor, limit }) => {
+      const viewer = await getViewer();
+      const view = await buildListView(repo, {
+        viewerId: viewer.id,
+        listId: null,
+        listsPage: { cursor, limit },
+      });
+      return buildStructuredResponse({ view }, "Here are your lists.");
+    }
+  );
+
+  registerTool(
+    "get_list",
+    {
+      title: "Get list",
+      description:
+        "Get a specific list and a page of its active and done items. Unlisted lists need their share token. Sort by rating to put the best-rated items first, or pass a tag to show only items carrying it. Pass one of itemsNextCursor's cursors as cursor to load more of that section.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+        sort: itemSortSchema.optional(),
+        tag: tagSchema.optional().nullable(),
+        ...pageInputSchema,
+      }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, share_token, sort, tag, cursor, limit }) => {
+      const viewer = await getViewer();
+      const view = await buildListView(repo, {
+        viewerId: viewer.id,
+        listId: list_id,
+        shareToken: share_token,
+        itemsPage: { cursor, limit },
+        itemSort: sort,
+        itemTag: tag ? normalizeTag(tag) || null : null,
+      });
+      return buildStructuredResponse({ view }, "List loaded.");
+    }
+  );
+
+  registerTool(
+    "open_shared_list",
+    {
+      title: "Open shared list",
+      description: "Open a list from a share link or share token.",
+      inputSchema: z.object({ share_token: z.string().min(1).max(64) }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ share_token }) => {
+      const viewer = await getViewer();
+      const list = await repo.getListByShareToken(share_token);
+      if (!list) throw new Error("List not found.");
+      const view = await buildListView(repo, {
+        viewerId: viewer.id,
+        listId: list.id,
+        shareToken: share_token,
+      });
+      return buildStructuredResponse({ view }, "Shared list loaded.");
+    }
+  );
+
+  registerTool(
+    "create_list",
+    {
+      title: "Create list",
+      description:
+        "Create a new list for the current user. Visibility is private, unlisted (share link only) or public. The type decides which item fields the list has; see get_list_types.",
+      inputSchema: z.object({
+        title: z.string().min(1).max(120),
+        type: listTypeSchema.default("general"),
+        visibility: listVisibilitySchema.default("public"),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ title, type, visibility }) => {
+      const viewer = await getViewer();
+      await requireListCapacity(viewer.id);
+      const listId = await repo.transaction(async () => {
+        const created = await repo.createList({ ownerId: viewer.id, title, type, visibility });
+        await recordChange(viewer.id, created, "list_created", { after: { title, type, visibility } });
+        return created;
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId });
+      return buildUndoableResponse({ view, effects: { lastCreatedListId: listId } }, listId, "List created.");
+    }
+  );
+
+  registerTool(
+    "update_list",
+    {
+      title: "Update list",
+      description: "Rename a list, change its type or change its visibility.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        title: z.string().min(1).max(120).optional(),
+        type: listTypeSchema.optional(),
+        visibility: listVisibilitySchema.optional(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, title, type, visibility }) => {
+      const viewer = await getViewer();
+      const { list } = await requireListRole(repo, list_id, viewer.id, "owner");
+      const change = changedFields(list, { title, type, visibility }, ["title", "type", "visibility"]);
+      await repo.transaction(async () => {
+        await repo.updateList({ listId: list_id, title, type, visibility });
+        if (change) {
+          await recordChange(viewer.id, list_id, "list_updated", change);
+        }
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return change
+        ? buildUndoableResponse({ view }, list_id, "List updated.")
+        : buildStructuredResponse({ view }, "List updated.");
+    }
+  );
+
+  registerTool(
+    "revoke_share_link",
+    {
+      title: "Revoke share link",
+      description: "Invalidate an unlisted list's current share link and issue a new one.",
+      inputSchema: z.object({ list_id: z.string().uuid() }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id }) => {
+      const viewer = await getViewer();
+      await requireListRole(repo, list_id, viewer.id, "owner");
+      await repo.rotateShareToken(list_id);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return buildStructuredResponse({ view }, "Share link revoked. A new link was created.");
+    }
+  );
+
+  registerTool(
+    "get_list_types",
+    {
+      title: "Get list types",
+      description:
+        "Show the built-in list types and the current user's custom types with the item fields each one has.",
+      inputSchema: z.object({}),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async () => {
+      const viewer = await getViewer();
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, listTypes: view.listTypes },
+        "Here are the list types you can use."
+      );
+    }
+  );
+
+  registerTool(
+    "save_list_type",
+    {
+      title: "Save list type",
+      description: `Define a custom list type with up to ${LIST_TYPE_MAX_FIELDS} item fields, or replace the fields of one you defined. Lists you own whose type has this name use these fields.`,
+      inputSchema: z.object({
+        name: listTypeSchema,
+        label: z.string().min(1).max(60).optional().nullable(),
+        fields: z
+          .array(listTypeFieldSchema)
+          .max(LIST_TYPE_MAX_FIELDS)
+          .refine(
+            (fields) => new Set(fields.map((field) => field.key)).size === fields.length,
+            "Field keys must be unique"
+          ),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ name, label, fields }) => {
+      if (findBuiltInListType(name)) {
+        throw new Error(`"${name}" is a built-in type.`);
+      }
+      const viewer = await getViewer();
+      const saved = await repo.saveCustomListType({ ownerId: viewer.id, name, label: label ?? name, fields });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, listType: toListTypeDefinition(saved) },
+        `Saved the "${saved.name}" list type.`
+      );
+    }
+  );
+
+  registerTool(
+    "delete_list_type",
+    {
+      title: "Delete list type",
+      description:
+        "Delete one of your custom list types. Lists of that type keep their items but no longer have its fields.",
+      inputSchema: z.object({ name: listTypeSchema }),
+      annotations: { destructiveHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ name }) => {
+      const viewer = await getViewer();
+      const deleted = await repo.deleteCustomListType(viewer.id, name);
+      if (!deleted) throw new Error("List type not found.");
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse({ view }, `Deleted the "${name}" list type.`);
+    }
+  );
+
+  registerTool(
+    "invite_member",
+    {
+      title: "Invite member",
+      description:
+        "Invite a user by handle to collaborate on a list as an editor (can add and change items) or viewer.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        handle: z.string().min(1).max(60),
+        role: z.enum(["editor", "viewer"]).default("editor"),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, handle, role }) => {
+      const viewer = await getViewer();
+      await requireListRole(repo, list_id, viewer.id, "owner");
+      const invitee = await repo.getUserByHandle(handle.replace(/^@/, ""));
+      if (!invitee) throw new Error("User not found.");
+      if (invitee.id === viewer.id) throw new Error("You already own this list.");
+      await repo.inviteListMember({ listId: list_id, userId: invitee.id, role, invitedBy: viewer.id });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return buildStructuredResponse({ view }, `Invited @${invitee.handle} as ${role}.`);
+    }
+  );
+
+  registerTool(
+    "accept_invite",
+    {
+      title: "Accept invite",
+      description: "Accept a pending invitation to collaborate on a list.",
+      inputSchema: z.object({ list_id: z.string().uuid() }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id }) => {
+      const viewer = await getViewer();
+      const accepted = await repo.acceptListInvite(list_id, viewer.id);
+      if (!accepted) throw new Error("Invite not found.");
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return buildStructuredResponse({ view }, "Invite accepted.");
+    }
+  );
+
+  registerTool(
+    "remove_member",
+    {
+      title: "Remove member",
+      description:
+        "Remove a member or pending invite from a list. Members can remove themselves to leave or decline.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        user_id: z.string().uuid(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, user_id }) => {
+      const viewer = await getViewer();
+      const list = await repo.getListById(list_id);
+      if (!list) throw new Error("List not found.");
+      if (user_id !== viewer.id) {
+        await requireListRole(repo, list_id, viewer.id, "owner");
+      }
+      const removed = await repo.removeListMember(list_id, user_id);
+      if (!removed) throw new Error("Member not found.");
+      const leaving = user_id === viewer.id;
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: leaving ? null : list_id });
+      return buildStructuredResponse({ view }, leaving ? "You left the list." : "Member removed.");
+    }
+  );
+
+  registerTool(
+    "add_item",
+    {
+      title: "Add item",
+      description:
+        "Add an item to a list. With only a url, the title is taken from the linked page.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        ...itemFieldsSchema,
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, title, note, url, attributes, tags }) => {
+      if (!title && !url) {
+        throw new Error("Provide a title or a url.");
+      }
+      const viewer = await getViewer();
+      const { list } = await requireListRole(repo, list_id, viewer.id, "editor");
+      const type = await resolveListType(repo, list);
+      const itemAttributes = applyAttributes(type, {}, attributes ?? {});
+      await requireItemCapacity(list_id, 1);
+      const linkPreview = url ? await unfurl(url) : null;
+      const itemId = await repo.transaction(async () => {
+        const added = await repo.addItem({
+          listId: list_id,
+          title: title ?? linkPreview?.title ?? new URL(url!).hostname,
+          note,
+          url,
+          linkPreview,
+          attributes: itemAttributes,
+          tags: normalizeTags(tags ?? []),
+        });
+        await recordChange(viewer.id, list_id, "item_added", { itemId: added });
+        return added;
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return buildUndoableResponse({ view, effects: { lastAddedItemId: itemId } }, list_id, "Item added.");
+    }
+  );
+
+  registerTool(
+    "update_item",
+    {
+      title: "Update item",
+      description: "Update an item in a list.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_id: z.string().uuid(),
+        ...itemFieldsSchema,
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id, title, note, url, attributes, tags }) => {
+      const viewer = await getViewer();
+      const { list } = await requireListRole(repo, list_id, viewer.id, "editor");
+      const item = await repo.getItemState(item_id);
+      if (!item || item.list_id !== list_id || item.deleted_at) throw new Error("Item not found.");
+      const type = await resolveListType(repo, list);
+      const itemAttributes = applyAttributes(type, item.attributes, attributes);
+      const itemTags = tags && normalizeTags(tags);
+      const linkPreview = url === undefined ? undefined : url ? await unfurl(url) : null;
+      const change = changedFields(
+        item,
+        { title, note, url, attributes: itemAttributes, tags: itemTags },
+        ITEM_FIELD_KEYS
+      );
+      if (change && "url" in change.before) {
+        change.before.link_preview = item.link_preview;
+      }
+      await repo.transaction(async () => {
+        await repo.updateItem({
+          itemId: item_id,
+          listId: list_id,
+          title,
+          note,
+          url,
+          linkPreview,
+          attributes: itemAttributes,
+          tags: itemTags,
+        });
+        if (change) {
+          await recordChange(viewer.id, list_id, "item_updated", { itemId: item_id, ...change });
+        }
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return change
+        ? buildUndoableResponse({ view }, list_id, "Item updated.")
+        : buildStructuredResponse({ view }, "Item updated.");
+    }
+  );
+
+  registerTool(
+    "set_item_status",
+    {
+      title: "Set item status",
+      description: "Move an item between main and done.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_id: z.string().uuid(),
+        status: z.enum(["active", "done"]),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id, status }) => {
+      const viewer = await getViewer();
+      await requireListRole(repo, list_id, viewer.id, "editor");
+      const item = await repo.getItemState(item_id);
+      if (!item || item.list_id !== list_id || item.deleted_at) throw new Error("Item not found.");
+      const changed = item.status !== status;
+      await repo.transaction(async () => {
+        await repo.setItemStatus({ listId: list_id, itemId: item_id, status });
+        if (changed) {
+          await recordChange(viewer.id, list_id, "item_status", {
+            itemId: item_id,
+            before: { status: item.status },
+            after: { status },
+          });
+        }
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      const effects = { lastMovedItemId: item_id, lastMoveTo: status };
+      return changed
+        ? buildUndoableResponse({ view, effects }, list_id, "Item moved.")
+        : buildStructuredResponse({ view, effects }, "Item moved.");
+    }
+  );
+
+  registerTool(
+    "add_items",
+    {
+      title: "Add items",
+      description: `Add up to ${BATCH_MAX_ITEMS} items to a list at once, kept in the given order above existing items. Each item needs a title or a url.`,
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        items: z.array(z.object(itemFieldsSchema)).min(1).max(BATCH_MAX_ITEMS),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, items }) => {
+      if (items.some((item) => !item.title && !item.url)) {
+        throw new Error("Every item needs a title or a url.");
+      }
+      const viewer = await getViewer();
+      const { list } = await requireListRole(repo, list_id, viewer.id, "editor");
+      const type = await resolveListType(repo, list);
+      const attributes = items.map((item) => applyAttributes(type, {}, item.attributes ?? {}));
+      await requireItemCapacity(list_id, items.length);
+      const previews = await unfurlBatch(items.map((item) => item.url ?? null), unfurl);
+      const itemIds = await repo.transaction(async () => {
+        const ids: string[] = [];
+        // New items go on top, so adding from the end keeps the given order.
+        for (let index = items.length - 1; index >= 0; index -= 1) {
+          const { title, note, url, tags } = items[index];
+          const linkPreview = previews[index] ?? null;
+          ids.unshift(
+            await repo.addItem({
+              listId: list_id,
+              title: title ?? linkPreview?.title ?? new URL(url!).hostname,
+              note,
+              url,
+              linkPreview,
+              attributes: attributes[index],
+              tags: normalizeTags(tags ?? []),
+            })
+          );
+        }
+        await recordChange(viewer.id, list_id, "items_added", { after: { itemIds: ids } });
+        return ids;
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return buildUndoableResponse(
+        { view, effects: { lastAddedItemId: itemIds[0] } },
+        list_id,
+        `Added ${itemIds.length} items.`
+      );
+    }
+  );
+
+  registerTool(
+    "set_items_status",
+    {
+      title: "Set items status",
+      description: `Move up to ${BATCH_MAX_ITEMS} items of a list between main and done at once.`,
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_ids: z
+          .array(z.string().uuid())
+          .min(1)
+          .max(BATCH_MAX_ITEMS)
+          .refine(uniqueItemIds, "Item ids must be unique"),
+        status: z.enum(["active", "done"]),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_ids, status }) => {
+      const viewer = await getViewer();
+      await requireListRole(repo, list_id, viewer.id, "editor");
+      const changing = (await requireLiveItems(list_id, item_ids)).filter((item) => item.status !== status);
+      if (changing.length > 0) {
+        await repo.transaction(async () => {
+          for (const item of changing) {
+            await repo.setItemStatus({ listId: list_id, itemId: item.id, status });
+          }
+          await recordChange(viewer.id, list_id, "items_status", {
+            before: { statuses: Object.fromEntries(changing.map((item) => [item.id, item.status])) },
+            after: { status },
+          });
+        });
+      }
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      const message = `Moved ${item_ids.length} items to ${status === "done" ? "done" : "main"}.`;
+      return changing.length > 0
+        ? buildUndoableResponse({ view }, list_id, message)
+        : buildStructuredResponse({ view }, message);
+    }
+  );
+
+  registerTool(
+    "update_items",
+    {
+      title: "Update items",
+      description: `Update up to ${BATCH_MAX_ITEMS} items of a list at once. Fields left out stay as they are.`,
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        items: z
+          .array(z.object({ item_id: z.string().uuid(), ...itemFieldsSchema }))
+          .min(1)
+          .max(BATCH_MAX_ITEMS)
+          .refine((items) => uniqueItemIds(items.map((item) => item.item_id)), "Item ids must be unique"),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, items }) => {
+      const viewer = await getViewer();
+      const { list } = await requireListRole(repo, list_id, viewer.id, "editor");
+      const states = await requireLiveItems(list_id, items.map((item) => item.item_id));
+      const type = await resolveListType(repo, list);
+      const attributes = items.map((item, index) => applyAttributes(type, states[index].attributes, item.attributes));
+      const tags = items.map((item) => item.tags && normalizeTags(item.tags));
+      const previews = await unfurlBatch(items.map(({ url }) => url), unfurl);
+      const before: Record<string, Record<string, unknown>> = {};
+      const after: Record<string, Record<string, unknown>> = {};
+      items.forEach(({ item_id, title, note, url }, index) => {
+        const next = { title, note, url, attributes: attributes[index], tags: tags[index] };
+        const change = changedFields(states[index], next, ITEM_FIELD_KEYS);
+        if (!change) return;
+        if ("url" in change.before) {
+          change.before.link_preview = states[index].link_preview;
+        }
+        before[item_id] = change.before;
+        after[item_id] = change.after;
+      });
+      await repo.transaction(async () => {
+        for (const [index, { item_id, title, note, url }] of items.entries()) {
+          await repo.updateItem({
+            itemId: item_id,
+            listId: list_id,
+            title,
+            note,
+            url,
+            linkPreview: previews[index],
+            attributes: attributes[index],
+            tags: tags[index],
+          });
+        }
+        if (Object.keys(after).length > 0) {
+          await recordChange(viewer.id, list_id, "items_updated", {
+            before: { items: before },
+            after: { items: after },
+          });
+        }
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      const message = `Updated ${items.length} items.`;
+      return Object.keys(after).length > 0
+        ? buildUndoableResponse({ view }, list_id, message)
+        : buildStructuredResponse({ view }, message);
+    }
+  );
+
+  registerTool(
+    "reorder_item",
+    {
+      title: "Reorder item",
+      description:
+        "Move an item before or after another item in the same section, or to a zero-based position.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_id: z.string().uuid(),
+        before_item_id: z.string().uuid().optional().nullable(),
+        after_item_id: z.string().uuid().optional().nullable(),
+        position: z.number().int().min(0).optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id, before_item_id, after_item_id, position }) => {
+      const anchors = [before_item_id, after_item_id, position].filter(
+        (value) => value !== undefined && value !== null
+      );
+      if (anchors.length !== 1) {
+        throw new Error("Provide exactly one of before_item_id, after_item_id or position.");
+      }
+      const viewer = await getViewer();
+      await requireListRole(repo, list_id, viewer.id, "editor");
+      const status = await repo.transaction(async () => {
+        const itemIds = await currentItemOrder(repo, list_id);
+        const moved = await repo.moveItem({
+          listId: list_id,
+          itemId: item_id,
+          beforeItemId: before_item_id,
+          afterItemId: after_item_id,
+          position,
+        });
+        if (!moved) throw new Error("Item not found.");
+        await recordChange(viewer.id, list_id, "item_moved", { itemId: item_id, before: { itemIds } });
+        return moved;
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return buildUndoableResponse(
+        { view, effects: { lastMovedItemId: item_id, lastMoveTo: status } },
+        list_id,
+        "Item reordered."
+      );
+    }
+  );
+
+  registerTool(
+    "set_item_order",
+    {
+      title: "Set item order",
+      description:
+        "Set the order of items in a list. Listed items come first in the given order; the rest keep their relative order.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_ids: z.array(z.string().uuid()).min(1).max(500),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_ids }) => {
+      const viewer = await getViewer();
+      await requireListRole(repo, list_id, viewer.id, "editor");
+      await repo.transaction(async () => {
+        const itemIds = await currentItemOrder(repo, list_id);
+        await repo.setItemOrder({ listId: list_id, itemIds: item_ids });
+        await recordChange(viewer.id, list_id, "items_reordered", { before: { itemIds } });
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return buildUndoableResponse({ view }, list_id, "Item order saved.");
+    }
+  );
+
+  registerTool(
+    "delete_item",
+    {
+      title: "Delete item",
+      description: "Move an item to the trash. It can be restored until the trash is purged.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_id: z.string().uuid(),
+      }),
+      annotations: { destructiveHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id }) => {
+      const viewer = await getViewer();
+      await requireListRole(repo, list_id, viewer.id, "editor");
+      await repo.transaction(async () => {
+        const deleted = await repo.softDeleteItem(item_id, list_id);
+        if (!deleted) throw new Error("Item not found.");
+        await recordChange(viewer.id, list_id, "item_deleted", { itemId: item_id });
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id });
+      return buildUndoableResponse(
+        { view, effects: { lastDeleted: { kind: "item", id: item_id, listId: list_id } } },
+        list_id,
+        "Item moved to trash."
+      );
+    }
+  );
+
+  registerTool(
+    "delete_list",
+    {
+      title: "Delete list",
+      description: "Move a list and its items to the trash. It can be restored until the trash is purged.",
+      inputSchema: z.object({ list_id: z.string().uuid() }),
+      annotations: { destructiveHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id }) => {
+      const viewer = await getViewer();
+      await requireListRole(repo, list_id, viewer.id, "owner");
+      await repo.transaction(async () => {
+        await repo.softDeleteList(list_id);
+        await recordChange(viewer.id, list_id, "list_deleted");
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildUndoableResponse(
+        { view, effects: { lastDeleted: { kind: "list", id: list_id } } },
+        list_id,
+        "List moved to trash."
+      );
+    }
+  );
+
+  registerTool(
+    "archive_list",
+    {
+      title: "Archive list",
+      description: "Hide a list from your lists without deleting it.",
+      inputSchema: z.object({ list_id: z.string().uuid() }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id }) => {
+      const viewer = await getViewer();
+      const { list } = await requireListRole(repo, list_id, viewer.id, "owner");
+      await repo.transaction(async () => {
+        await repo.setListArchived(list_id, true);
+        if (!list.archived_at) {
+          await recordChange(viewer.id, list_id, "list_archived");
+        }
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildUndoableResponse(
+        { view, effects: { lastDeleted: { kind: "archive", id: list_id } } },
+        list_id,
+        "List archived."
+      );
+    }
+  );
+
+  registerTool(
+    "restore",
+    {
+      title: "Restore",
+      description: "Restore a trashed item, or a trashed or archived list. Pass exactly one of item_id or list_id.",
+      inputSchema: z.object({
+        list_id: z.string().uuid().optional().nullable(),
+        item_id: z.string().uuid().optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id }) => {
+      if (!list_id === !item_id) {
+        throw new Error("Provide exactly one of list_id or item_id.");
+      }
+      const viewer = await getViewer();
+      if (item_id) {
+        const item = await repo.getDeletedItem(item_id);
+        if (!item) throw new Error("Item not found in trash.");
+        const list = await repo.getListById(item.list_id, { includeDeleted: true });
+        if (list?.deleted_at) throw new Error("Restore the list first.");
+        await requireListRole(repo, item.list_id, viewer.id, "editor");
+        await requireItemCapacity(item.list_id, 1);
+        await repo.transaction(async () => {
+          await repo.restoreItem(item_id, item.list_id);
+          await recordChange(viewer.id, item.list_id, "item_restored", { itemId: item_id });
+        });
+        const view = await buildListView(repo, { viewerId: viewer.id, listId: item.list_id });
+        return buildUndoableResponse(
+          { view, effects: { lastAddedItemId: item_id } },
+          item.list_id,
+          "Item restored."
+        );
+      }
+
+      const list = await repo.getListById(list_id as string, { includeDeleted: true });
+      if (!list || list.owner_id !== viewer.id) throw new Error("List not found.");
+      if (list.deleted_at) await requireListCapacity(viewer.id);
+      await repo.transaction(async () => {
+        const restored = await repo.restoreList(list.id);
+        if (!restored) throw new Error("List is not in the trash or archive.");
+        await recordChange(viewer.id, list.id, "list_restored", {
+          before: { deleted: !!list.deleted_at, archived: !!list.archived_at },
+        });
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list.id });
+      return buildUndoableResponse({ view }, list.id, "List restored.");
+    }
+  );
+
+  registerTool(
+    "get_trash",
+    {
+      title: "Get trash",
+      description: "Show trashed lists and items plus archived lists.",
+      inputSchema: z.object({}),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async () => {
+      const viewer = await getViewer();
+      const view = await buildTrashView(repo, viewer.id);
+      return buildStructuredResponse(
+        { view },
+        `Trash is kept for ${TRASH_RETENTION_DAYS} days before it is purged.`
+      );
+    }
+  );
+
+  registerTool(
+    "get_history",
+    {
+      title: "Get history",
+      description:
+        "Show who changed what on a list and its items, newest first. Pass a previous nextCursor as cursor for more.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+        ...pageInputSchema,
+      }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, share_token, cursor, limit }) => {
+      const viewer = await getViewer();
+      const list = await repo.getListById(list_id);
+      if (!list) throw new Error("List not found.");
+      requireListVisible(list, viewer.id, share_token, await repo.getListRole(list_id, viewer.id));
+      const { rows, nextCursor } = await loadPage(
+        limit ?? HISTORY_PAGE_SIZE,
+        (fetchLimit) => repo.getListHistory(list_id, { afterId: afterIdFrom(cursor), limit: fetchLimit }),
+        (last) => ({ afterId: last.id })
+      );
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id, shareToken: share_token });
+      return buildStructuredResponse(
+        {
+          view,
+          history: {
+            listId: list_id,
+            entries: rows.map((event) => ({ ...event, description: describeEvent(event) })),
+            cursor: cursor ?? null,
+            nextCursor,
+          },
+        },
+        rows.length > 0 ? "Here is the list's history." : "This list has no recorded changes yet."
+      );
+    }
+  );
+
+  registerTool(
+    "undo_last_change",
+    {
+      title: "Undo last change",
+      description:
+        "Revert your most recent change on a list that hasn't been undone yet. Call it again to step further back.",
+      inputSchema: z.object({ list_id: z.string().uuid() }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id }) => {
+      const viewer = await getViewer();
+      // Trashed lists are included so deleting a list can be undone.
+      const list = await repo.getListById(list_id, { includeDeleted: true });
+      const role = list ? await repo.getListRole(list_id, viewer.id) : null;
+      if (!list || !role || (list.deleted_at && role !== "owner")) throw new Error("List not found.");
+      if (listRoleRank[role] < listRoleRank.editor) {
+        throw new Error("You need editor access to change this list.");
+      }
+      const event = await repo.findUndoableEvent(list_id, viewer.id);
+      if (!event) throw new Error("You have no changes to undo on this list.");
+      if (list.deleted_at && event.action !== "list_deleted") throw new Error("Restore the list first.");
+
+      try {
+        await repo.transaction(async () => {
+          await revertChange(event, list, viewer.id);
+          await repo.recordListEvent({
+            listId: list_id,
+            itemId: event.item_id,
+            actorId: viewer.id,
+            action: "undo",
+            before: event.after,
+            after: event.before,
+            revertsEventId: event.id,
+          });
+          await notifyListEdit(viewer.id, list_id);
+        });
+      } catch (error) {
+        if ((error as { code?: string }).code === "23505") {
+          throw new Error("That change was already undone.");
+        }
+        throw error;
+      }
+      const reverted = await repo.getListById(list_id);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: reverted ? list_id : null });
+      return buildStructuredResponse({ view, undone: event }, `Undone: you ${describeEvent(event)}.`);
+    }
+  );
+
+  registerTool(
+    "export_list",
+    {
+      title: "Export list",
+      description:
+        "Export a list with its active and done items as CSV, a Markdown checklist or versioned JSON.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        format: z.enum(["csv", "markdown", "json"]),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, format, share_token }) => {
+      const viewer = await getViewer();
+      const list = await repo.getListSummaryById(list_id);
+      if (!list) throw new Error("List not found.");
+      requireListVisible(list, viewer.id, share_token, await repo.getListRole(list_id, viewer.id));
+      const rows = [
+        ...(await repo.getItemsByList(list_id, "active")),
+        ...(await repo.getItemsByList(list_id, "done")),
+      ];
+      const items = rows.map((item) => ({
+        title: item.title,
+        note: item.note,
+        url: item.url,
+        status: item.status,
+      }));
+      const content = serializeList({ title: list.title, type: list.type, items }, format);
+      const slug =
+        list.title
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-+|-+$/g, "") || "list";
+      const view = await buildListView(repo, {
+        viewerId: viewer.id,
+        listId: list_id,
+        shareToken: share_token,
+      });
+      return buildStructuredResponse(
+        {
+          view,
+          export: {
+            format,
+            filename: `${slug}.${exportExtensions[format]}`,
+            mimeType: exportMimeTypes[format],
+            content,
+          },
+        },
+        content
+      );
+    }
+  );
+
+  registerTool(
+    "import_list",
+    {
+      title: "Import list",
+      description:
+        "Import items from CSV (title,note,url,status), a Markdown checklist, A-Lister JSON, or a Letterboxd or Goodreads CSV export. Creates a new list unless list_id is given. Use dry_run to preview first.",
+      inputSchema: z.object({
+        format: z.enum(["csv", "markdown", "json", "letterboxd", "goodreads"]),
+        content: z.string().min(1).max(1_000_000),
+        list_id: z.string().uuid().optional().nullable(),
+        title: z.string().min(1).max(120).optional().nullable(),
+        type: listTypeSchema.optional().nullable(),
+        default_status: z.enum(["active", "done"]).default("active"),
+        dry_run: z.boolean().default(false),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ format, content, list_id, title, type, default_status, dry_run }) => {
+      const viewer = await getViewer();
+      const target = list_id ? (await requireListRole(repo, list_id, viewer.id, "editor")).list : null;
+      const parsed = parseImport(format, content, default_status);
+      if (parsed.items.length === 0) {
+        throw new Error("No items found to import.");
+      }
+      if (parsed.items.length > IMPORT_MAX_ITEMS) {
+        throw new Error(`Imports are limited to ${IMPORT_MAX_ITEMS} items.`);
+      }
+      const listTitle = target?.title ?? title ?? parsed.title ?? "Imported list";
+      const parsedType =
+        parsed.type && listTypeSchema.safeParse(parsed.type).success ? parsed.type : null;
+      const listType = target?.type ?? type ?? parsedType ?? "general";
+      const doneCount = parsed.items.filter((item) => item.status === "done").length;
+
+      if (dry_run) {
+        const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id ?? null });
+        return buildStructuredResponse(
+          {
+            view,
+            importPreview: {
+              format,
+              listId: target?.id ?? null,
+              listTitle: listTitle.slice(0, 120),
+              listType,
+              total: parsed.items.length,
+              activeCount: parsed.items.length - doneCount,
+              doneCount,
+              items: parsed.items.slice(0, IMPORT_PREVIEW_ITEMS),
+              warnings: parsed.warnings,
+            },
+          },
+          `Preview: ${parsed.items.length} items would be imported into "${listTitle}".`
+        );
+      }
+
+      if (target) {
+        await requireItemCapacity(target.id, parsed.items.length);
+      } else {
+        await requireListCapacity(viewer.id);
+        if (parsed.items.length > maxItemsPerList) {
+          throw new Error(`Lists hold at most ${maxItemsPerList} items.`);
+        }
+      }
+      const listId = await repo.transaction(async () => {
+        const imported = await repo.importList({
+          ownerId: viewer.id,
+          listId: target?.id ?? null,
+          title: listTitle.slice(0, 120),
+          type: listType,
+          items: parsed.items,
+        });
+        if (target) {
+          await recordChange(viewer.id, imported.listId, "items_imported", {
+            after: { itemIds: imported.itemIds },
+          });
+        } else {
+          await recordChange(viewer.id, imported.listId, "list_created", {
+            after: { title: listTitle.slice(0, 120), type: listType, visibility: "public" },
+          });
+        }
+        return imported.listId;
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId });
+      return buildUndoableResponse(
+        { view, effects: { lastCreatedListId: target ? null : listId } },
+        listId,
+        `Imported ${parsed.items.length} items.`
+      );
+    }
+  );
+
+  registerTool(
+    "fork_list",
+    {
+      title: "Fork list",
+      description:
+        "Copy another user's public list and its items into a new list of the current user that links back to the original. With sync, items later added to the original are copied over too.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        title: z.string().min(1).max(120).optional().nullable(),
+        visibility: listVisibilitySchema.default("public"),
+        sync: z.boolean().default(false),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, title, visibility, sync }) => {
+      const viewer = await getViewer();
+      const source = await repo.getListById(list_id);
+      if (!source) throw new Error("List not found.");
+      requireListVisible(source, viewer.id, null, await repo.getListRole(list_id, viewer.id));
+      if (source.owner_id === viewer.id) {
+        throw new Error("That list is already yours.");
+      }
+      if (source.visibility !== "public" || source.archived_at) {
+        throw new Error("Only public lists can be forked.");
+      }
+      await requireListCapacity(viewer.id);
+      const forkTitle = title ?? source.title;
+      const listId = await repo.transaction(async () => {
+        const created = await repo.forkList({
+          sourceListId: source.id,
+          ownerId: viewer.id,
+          title: forkTitle,
+          type: source.type,
+          visibility,
+          sync,
+        });
+        await recordChange(viewer.id, created, "list_created", {
+          after: { title: forkTitle, type: source.type, visibility, forkedFromListId: source.id },
+        });
+        return created;
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId });
+      return buildUndoableResponse(
+        { view, effects: { lastCreatedListId: listId } },
+        listId,
+        `Forked "${source.title}".`
+      );
+    }
+  );
+
+  registerTool(
+    "sync_fork",
+    {
+      title: "Sync fork",
+      description:
+        "Copy items added to the original since a fork was made. Set auto_sync to have new items copied over automatically from now on.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        auto_sync: z.boolean().optional(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, auto_sync }) => {
+      const viewer = await getViewer();
+      const { list } = await requireListRole(repo, list_id, viewer.id, "owner");
+      if (!list.forked_from_list_id) {
+        throw new Error("This list isn't a fork.");
+      }
+      const source = await repo.getListById(list.forked_from_list_id);
+      if (!source || source.visibility !== "public") {
+        throw new Error("The original list is no longer available.");
+      }
+      if (auto_sync !== undefined) {
+        await repo.updateList({ listId: list.id, forkSync: auto_sync });
+      }
+      const itemIds = await syncForkItems(repo, list, maxItemsPerList);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list.id });
+      if (itemIds.length === 0) {
+        return buildStructuredResponse({ view }, "The fork is up to date.");
+      }
+      return buildUndoableResponse(
+        { view },
+        list.id,
+        `Copied ${itemIds.length} new items from "${source.title}".`
+      );
+    }
+  );
+
+  registerTool(
+    "bookmark_item",
+    {
+      title: "Bookmark item",
+      description: "Copy an item from another user into the current user's list.",
+      inputSchema: z.object({
+        source_item_id: z.string().uuid(),
+        viewing_list_id: z.string().uuid().optional().nullable(),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ source_item_id, viewing_list_id, share_token }) => {
+      const viewer = await getViewer();
+      const viewerId = viewer.id;
+      const source = await repo.findSourceItem(source_item_id);
+      const sourceRole = source ? await repo.getListRole(source.list_id, viewerId) : null;
+      if (!source || !canViewList(source, viewerId, share_token, sourceRole)) {
+        throw new Error("Source item not found.");
+      }
+      if (source.owner_id === viewerId) {
+        const view = await buildListView(repo, {
+          viewerId,
+          listId: viewing_list_id ?? source.list_id,
+          shareToken: share_token,
+        });
+        return buildStructuredResponse(
+          { view, effects: { lastBookmarkItemId: source_item_id } },
+          "That item is already yours."
+        );
+      }
+
+      const existing = await repo.findBookmark({ userId: viewerId, sourceItemId: source.id });
+      if (existing && !existing.created_item_deleted) {
+        const view = viewing_list_id
+          ? await buildListView(repo, { viewerId, listId: viewing_list_id, shareToken: share_token })
+          : await buildListView(repo, { viewerId, listId: existing.created_list_id });
+        return buildStructuredResponse(
+          { view, effects: { lastBookmarkItemId: source_item_id } },
+          "You already saved this item."
+        );
+      }
+      const { targetListId, created } = await repo.transaction(async () => {
+        if (existing) {
+          // The earlier copy was deleted; start over with a fresh one.
+          await repo.deleteBookmark(existing.id);
+        }
+        const targetListId = await repo.getOrCreateListByType({
+          ownerId: viewerId,
+          type: source.list_type,
+          fallbackTitle: source.list_title,
+        });
+        await requireItemCapacity(targetListId, 1);
+
+        const createdItemId = await repo.addItem({
+          listId: targetListId,
+          title: source.title,
+          note: source.note,
+          url: source.url,
+          linkPreview: source.link_preview,
+          attributes: source.attributes,
+          tags: source.tags,
+        });
+
+        const created = await repo.createBookmark({
+          userId: viewerId,
+          sourceItemId: source.id,
+          sourceListId: source.list_id,
+          sourceUserId: source.owner_id,
+          createdItemId,
+        });
+        if (created) {
+          await recordChange(viewerId, targetListId, "item_added", { itemId: createdItemId });
+          await repo.notify({
+            userIds: [source.owner_id],
+            actorId: viewerId,
+            type: "bookmark",
+            listId: source.list_id,
+            itemId: source.id,
+          });
+        } else {
+          // A concurrent request saved it first.
+          await repo.deleteItem(createdItemId);
+        }
+        return { targetListId, created };
+      });
+
+      const view = viewing_list_id
+        ? await buildListView(repo, { viewerId, listId: viewing_list_id, shareToken: share_token })
+        : await buildListView(repo, { viewerId, listId: targetListId });
+
+      const payload = { view, effects: { lastBookmarkItemId: source_item_id } };
+      return created
+        ? buildUndoableResponse(payload, targetListId, "Item bookmarked.")
+        : buildStructuredResponse(payload, "Item bookmarked.");
+    }
+  );
+
+  registerTool(
+    "unbookmark_item",
+    {
+      title: "Unbookmark item",
+      description:
+        "Remove a bookmark and the copy it created. Pass the original item's ID or the copy's ID.",
+      inputSchema: z.object({
+        source_item_id: z.string().uuid().optional().nullable(),
+        item_id: z.string().uuid().optional().nullable(),
+        viewing_list_id: z.string().uuid().optional().nullable(),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      annotations: { destructiveHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ source_item_id, item_id, viewing_list_id, share_token }) => {
+      if (!source_item_id === !item_id) {
+        throw new Error("Provide exactly one of source_item_id or item_id.");
+      }
+      const viewer = await getViewer();
+      const bookmark = await repo.findBookmark({
+        userId: viewer.id,
+        sourceItemId: source_item_id,
+        createdItemId: item_id,
+      });
+      if (!bookmark) throw new Error("Bookmark not found.");
+      const copy = await repo.getItemState(bookmark.created_item_id);
+      await repo.transaction(async () => {
+        await repo.deleteBookmark(bookmark.id);
+        // The copy is gone for good, so its item_added entry drops out of undo; this one closes it.
+        if (copy) {
+          await recordChange(viewer.id, copy.list_id, "bookmark_removed", {
+            itemId: copy.id,
+            before: { title: copy.title },
+          });
+        }
+      });
+      const view = await buildListView(repo, {
+        viewerId: viewer.id,
+        listId: viewing_list_id ?? bookmark.created_list_id,
+        shareToken: share_token,
+      });
+      return buildStructuredResponse({ view }, "Bookmark removed.");
+    }
+  );
+
+  registerTool(
+    "rate_item",
+    {
+      title: "Rate item",
+      description:
+        "Rate an item from 1 to 5 stars in half steps, with an optional review. Ratings on a bookmarked copy count toward the original item. Pass a null rating to clear yours.",
+      inputSchema: z.object({
+        item_id: z.string().uuid(),
+        rating: z.number().min(1).max(5).multipleOf(0.5).nullable(),
+        review: z.string().max(1000).optional().nullable().describe("Omit to keep your current review."),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ item_id, rating, review, share_token }) => {
+      const viewer = await getViewer();
+      const item = await repo.findSourceItem(item_id);
+      const role = item ? await repo.getListRole(item.list_id, viewer.id) : null;
+      if (!item || !canViewList(item, viewer.id, share_token, role)) {
+        throw new Error("Item not found.");
+      }
+      let message: string;
+      if (rating === null) {
+        const cleared = await repo.clearItemRating(viewer.id, item_id);
+        message = cleared ? "Rating cleared." : "You haven't rated this item.";
+      } else {
+        await repo.rateItem({
+          userId: viewer.id,
+          itemId: item_id,
+          rating,
+          review: review === undefined ? undefined : review?.trim() || null,
+        });
+        message = `Rated ${rating} out of 5.`;
+      }
+      const view = await buildListView(repo, {
+        viewerId: viewer.id,
+        listId: item.list_id,
+        shareToken: share_token,
+      });
+      return buildStructuredResponse({ view }, message);
+    }
+  );
+
+  registerTool(
+    "get_comments",
+    {
+      title: "Get comments",
+      description:
+        "Get comment threads on a list, or on one of its items when item_id is given, newest thread first with replies nested. Pass a previous nextCursor as cursor for more.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_id: z.string().uuid().optional().nullable(),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+        ...pageInputSchema,
+      }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id, share_token, cursor, limit }) => {
+      const viewer = await getViewer();
+      const list = await requireDiscussionTarget(list_id, item_id, viewer.id, share_token);
+      const comments = await buildComments(repo, list, item_id ?? null, viewer.id, { cursor, limit });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id, shareToken: share_token });
+      return buildStructuredResponse(
+        { view, comments },
+        comments.threads.length > 0 ? "Here are the comments." : "No comments yet."
+      );
+    }
+  );
+
+  registerTool(
+    "add_comment",
+    {
+      title: "Add comment",
+      description:
+        "Comment on a list, or on one of its items when item_id is given. Pass parent_id to reply to a comment.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_id: z.string().uuid().optional().nullable(),
+        parent_id: z.string().uuid().optional().nullable(),
+        body: z.string().trim().min(1).max(COMMENT_MAX_LENGTH),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id, parent_id, body, share_token }) => {
+      const viewer = await getViewer();
+      const list = await requireDiscussionTarget(list_id, item_id, viewer.id, share_token);
+      const itemId = item_id ?? null;
+      let threadId: string | null = null;
+      if (parent_id) {
+        const parent = await repo.getComment(parent_id);
+        if (!parent || parent.deleted_at || parent.list_id !== list_id || parent.item_id !== itemId) {
+          throw new Error("The comment you're replying to doesn't exist.");
+        }
+        threadId = parent.thread_id ?? parent.id;
+      }
+      const commentId = await repo.addComment({
+        listId: list_id,
+        itemId,
+        parentId: parent_id ?? null,
+        threadId,
+        authorId: viewer.id,
+        body,
+      });
+      const comments = await buildComments(repo, list, itemId, viewer.id);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id, shareToken: share_token });
+      return buildStructuredResponse(
+        { view, comments, effects: { lastCommentId: commentId } },
+        parent_id ? "Reply posted." : "Comment posted."
+      );
+    }
+  );
+
+  registerTool(
+    "edit_comment",
+    {
+      title: "Edit comment",
+      description: "Change the text of one of your comments.",
+      inputSchema: z.object({
+        comment_id: z.string().uuid(),
+        body: z.string().trim().min(1).max(COMMENT_MAX_LENGTH),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ comment_id, body, share_token }) => {
+      const viewer = await getViewer();
+      const { comment, list } = await requireComment(comment_id, viewer.id, share_token);
+      if (comment.author_id !== viewer.id) throw new Error("You can only edit your own comments.");
+      await repo.updateComment(comment_id, body);
+      const comments = await buildComments(repo, list, comment.item_id, viewer.id);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list.id, shareToken: share_token });
+      return buildStructuredResponse({ view, comments }, "Comment updated.");
+    }
+  );
+
+  registerTool(
+    "delete_comment",
+    {
+      title: "Delete comment",
+      description:
+        "Delete one of your comments, or any comment on a list you own. Replies stay, under a placeholder.",
+      inputSchema: z.object({
+        comment_id: z.string().uuid(),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      annotations: { destructiveHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ comment_id, share_token }) => {
+      const viewer = await getViewer();
+      const { comment, list } = await requireComment(comment_id, viewer.id, share_token);
+      if (comment.author_id !== viewer.id && list.owner_id !== viewer.id) {
+        throw new Error("You can only delete your own comments.");
+      }
+      await repo.deleteComment(comment_id);
+      const comments = await buildComments(repo, list, comment.item_id, viewer.id);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list.id, shareToken: share_token });
+      return buildStructuredResponse({ view, comments }, "Comment deleted.");
+    }
+  );
+
+  registerTool(
+    "moderate_comment",
+    {
+      title: "Moderate comment",
+      description:
+        "Hide or unhide a comment on a list you own. Hidden comments keep their place in the thread, but only you and their author can read them.",
+      inputSchema: z.object({
+        comment_id: z.string().uuid(),
+        hidden: z.boolean(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ comment_id, hidden }) => {
+      const viewer = await getViewer();
+      const { comment, list } = await requireComment(comment_id, viewer.id, null);
+      if (list.owner_id !== viewer.id) {
+        throw new Error("Only the list's owner can moderate its comments.");
+      }
+      await repo.setCommentHidden(comment_id, hidden);
+      const comments = await buildComments(repo, list, comment.item_id, viewer.id);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list.id });
+      return buildStructuredResponse({ view, comments }, hidden ? "Comment hidden." : "Comment shown again.");
+    }
+  );
+
+  registerTool(
+    "add_reaction",
+    {
+      title: "Add reaction",
+      description: `React to a list, or to one of its items when item_id is given, with one of ${REACTION_EMOJIS.join(" ")}.`,
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_id: z.string().uuid().optional().nullable(),
+        emoji: z.enum(REACTION_EMOJIS),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id, emoji, share_token }) => {
+      const viewer = await getViewer();
+      await requireDiscussionTarget(list_id, item_id, viewer.id, share_token);
+      const added = await repo.addReaction({
+        userId: viewer.id,
+        listId: list_id,
+        itemId: item_id ?? null,
+        emoji,
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id, shareToken: share_token });
+      return buildStructuredResponse(
+        { view },
+        added ? `Reacted with ${emoji}.` : `You already reacted with ${emoji}.`
+      );
+    }
+  );
+
+  registerTool(
+    "remove_reaction",
+    {
+      title: "Remove reaction",
+      description: "Take back one of your reactions to a list or item.",
+      inputSchema: z.object({
+        list_id: z.string().uuid(),
+        item_id: z.string().uuid().optional().nullable(),
+        emoji: z.enum(REACTION_EMOJIS),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id, emoji, share_token }) => {
+      const viewer = await getViewer();
+      await requireDiscussionTarget(list_id, item_id, viewer.id, share_token);
+      const removed = await repo.removeReaction({
+        userId: viewer.id,
+        listId: list_id,
+        itemId: item_id ?? null,
+        emoji,
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: list_id, shareToken: share_token });
+      return buildStructuredResponse(
+        { view },
+        removed ? "Reaction removed." : `You haven't reacted with ${emoji}.`
+      );
+    }
+  );
+
+  registerTool(
+    "get_tags",
+    {
+      title: "Get tags",
+      description:
+        "List the tags used on items in your lists, most used first, to reuse existing tags. Pass a prefix to complete a partial tag.",
+      inputSchema: z.object({
+        prefix: z.string().max(TAG_MAX_LENGTH).optional().nullable(),
+        limit: z.number().int().min(1).max(100).default(TAG_SUGGESTION_SIZE),
+      }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ prefix, limit }) => {
+      const viewer = await getViewer();
+      const tags = await repo.getTags(viewer.id, (prefix && normalizeTag(prefix)) || null, limit);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, tags },
+        tags.length > 0 ? `Your tags: ${tags.map((row) => row.tag).join(", ")}.` : "No matching tags."
+      );
+    }
+  );
+
+  registerTool(
+    "get_items_by_tag",
+    {
+      title: "Get items by tag",
+      description:
+        "Find items carrying a tag across all your own and shared lists, or with scope public across public lists, newest first. Pass owner to only search one user's public lists. Pass a previous nextCursor as cursor for more.",
+      inputSchema: z.object({
+        tag: tagSchema,
+        scope: z.enum(["mine", "public"]).default("mine"),
+        owner: z.string().min(1).max(60).optional().nullable(),
+        status: z.enum(["active", "done"]).optional().nullable(),
+        ...pageInputSchema,
+      }),
+      annotations: { readOnlyHint: true, openWorldHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ tag, scope, owner, status, cursor, limit }) => {
+      const viewer = await getViewer();
+      const normalized = normalizeTag(tag);
+      if (!normalized) throw new Error("Provide a tag.");
+      let ownerId: string | null = null;
+      if (owner) {
+        if (scope !== "public") throw new Error("owner only applies to the public scope.");
+        const ownerRecord = await repo.getUserByHandle(owner.replace(/^@/, ""));
+        if (!ownerRecord) throw new Error("User not found.");
+        ownerId = ownerRecord.id;
+      }
+      const tagged = await buildTaggedItems(repo, {
+        tag: normalized,
+        viewerId: viewer.id,
+        scope,
+        ownerId,
+        status: status ?? null,
+        page: { cursor, limit },
+      });
+      const view = await buildSearchView(repo, viewer.id, "", { tagged });
+      return buildStructuredResponse(
+        { view },
+        tagged.items.length > 0 ? `Items tagged #${normalized}.` : `No items tagged #${normalized}.`
+      );
+    }
+  );
+
+  registerTool(
+    "search_users",
+    {
+      title: "Search users",
+      description:
+        "Search for public users by handle or display name, newest first. Pass a previous nextCursor as cursor for more.",
+      inputSchema: z.object({ query: z.string().min(1).max(120), ...pageInputSchema }),
+      annotations: { readOnlyHint: true, openWorldHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ query, cursor, limit }) => {
+      const viewer = await getViewer();
+      const view = await buildSearchView(repo, viewer.id, query, { usersPage: { cursor, limit } });
+      return buildStructuredResponse({ view }, "Search results.");
+    }
+  );
+
+  registerTool(
+    "search",
+    {
+      title: "Search",
+      description:
+        "Search people, public lists and items in public lists. Supports quoted phrases, OR and -exclusions.",
+      inputSchema: z.object({
+        query: z.string().min(1).max(200),
+        kinds: z.array(z.enum(["users", "lists", "items"])).min(1).optional(),
+        type: listTypeSchema.optional().nullable(),
+        owner: z.string().min(1).max(60).optional().nullable(),
+        status: z.enum(["active", "done"]).optional().nullable(),
+        limit: z.number().int().min(1).max(50).default(20),
+      }),
+      annotations: { readOnlyHint: true, openWorldHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ query, kinds, type, owner, status, limit }) => {
+      const viewer = await getViewer();
+      let ownerId: string | null = null;
+      if (owner) {
+        const ownerRecord = await repo.getUserByHandle(owner.replace(/^@/, ""));
+        if (!ownerRecord) throw new Error("User not found.");
+        ownerId = ownerRecord.id;
+      }
+      const view = await buildSearchView(repo, viewer.id, query, {
+        kinds: kinds ?? (ownerId || type || status ? ["lists", "items"] : ["users", "lists", "items"]),
+        type,
+        ownerId,
+        status,
+        limit,
+      });
+      return buildStructuredResponse({ view }, "Search results.");
+    }
+  );
+
+  registerTool(
+    "recommend",
+    {
+      title: "Recommend",
+      description:
+        "Suggest items, public lists and people to follow from what others saved: items saved by people who also saved the given item or the given list's items, then popular ones of the same type. Without list_id or item_id, suggestions start from everything you own or saved. Items you own or saved are left out.",
+      inputSchema: z.object({
+        list_id: z.string().uuid().optional().nullable(),
+        item_id: z.string().uuid().optional().nullable(),
+        share_token: z.string().min(1).max(64).optional().nullable(),
+        limit: z.number().int().min(1).max(30).default(RECOMMENDATION_SIZE),
+      }),
+      annotations: { readOnlyHint: true, openWorldHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ list_id, item_id, share_token, limit }) => {
+      const viewer = await getViewer();
+      let seed: { listId: string | null; itemIds: string[]; type: string } | null = null;
+      if (item_id) {
+        const item = await repo.findSourceItem(item_id);
+        const role = item ? await repo.getListRole(item.list_id, viewer.id) : null;
+        if (!item || !canViewList(item, viewer.id, share_token, role)) {
+          throw new Error("Item not found.");
+        }
+        seed = { listId: null, itemIds: [item.id], type: item.list_type };
+      } else if (list_id) {
+        const list = await repo.getListById(list_id);
+        if (!list) throw new Error("List not found.");
+        requireListVisible(list, viewer.id, share_token, await repo.getListRole(list_id, viewer.id));
+        const sections = await Promise.all([
+          repo.getItemsByList(list_id, "active"),
+          repo.getItemsByList(list_id, "done"),
+        ]);
+        seed = { listId: list_id, itemIds: sections.flat().map((item) => item.id), type: list.type };
+      }
+      const recommendations = await buildRecommendations(repo, viewer.id, seed, limit);
+      const view = await buildSearchView(repo, viewer.id, "", { recommendations });
+      const { items, lists, users } = recommendations;
+      return buildStructuredResponse(
+        { view },
+        items.length + lists.length + users.length > 0
+          ? "Here are some suggestions."
+          : "Nothing to suggest yet. Suggestions grow as people save items."
+      );
+    }
+  );
+
+  registerTool(
+    "get_user_profile",
+    {
+      title: "Get user profile",
+      description:
+        "Get a user's public profile and lists by user ID or handle. Recently changed handles still resolve. Pass a previous profileListsNextCursor as cursor for more lists.",
+      inputSchema: z.object({
+        user_id: z.string().uuid().optional().nullable(),
+        handle: z.string().min(1).max(60).optional().nullable(),
+        ...pageInputSchema,
+      }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ user_id, handle, cursor, limit }) => {
+      if (!user_id === !handle) {
+        throw new Error("Provide exactly one of user_id or handle.");
+      }
+      const viewer = await getViewer();
+      let profileUserId = user_id;
+      let message = "Profile loaded.";
+      if (handle) {
+        const requested = handle.replace(/^@/, "").toLowerCase();
+        const profile = await repo.getUserByHandle(requested);
+        if (!profile) throw new Error("Profile user not found.");
+        profileUserId = profile.id;
+        if (profile.handle !== requested) {
+          message = `@${requested} is now @${profile.handle}.`;
+        }
+      }
+      const view = await buildProfileView(repo, {
+        viewerId: viewer.id,
+        profileUserId: profileUserId as string,
+        listsPage: { cursor, limit },
+      });
+      return buildStructuredResponse({ view }, message);
+    }
+  );
+
+  registerTool(
+    "update_profile",
+    {
+      title: "Update profile",
+      description:
+        "Update your display name, bio, avatar URL or handle. Your old handle stays reserved and redirects to you for a while.",
+      inputSchema: z.object({
+        display_name: z.string().min(1).max(80).optional().nullable(),
+        bio: z.string().max(280).optional().nullable(),
+        avatar_url: z.string().url().max(500).optional().nullable(),
+        handle: handleSchema.optional(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ display_name, bio, avatar_url, handle }) => {
+      const viewer = await getViewer();
+      if (handle && handle !== viewer.handle) {
+        if (!(await repo.isHandleAvailable(handle, viewer.id))) {
+          throw new Error("That handle is already taken.");
+        }
+        try {
+          await repo.changeHandle({ userId: viewer.id, handle, graceDays: HANDLE_GRACE_DAYS });
+        } catch (error) {
+          if ((error as { code?: string }).code === "23505") {
+            throw new Error("That handle is already taken.");
+          }
+          throw error;
+        }
+      }
+      await repo.updateProfile({
+        userId: viewer.id,
+        displayName: display_name,
+        bio,
+        avatarUrl: avatar_url,
+      });
+      viewerCache = null;
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse({ view }, "Profile updated.");
+    }
+  );
+
+  registerTool(
+    "follow_user",
+    {
+      title: "Follow user",
+      description: "Follow a user to see their public activity in your feed.",
+      inputSchema: z.object({ user_id: z.string().uuid() }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ user_id }) => {
+      const viewer = await getViewer();
+      if (user_id === viewer.id) throw new Error("You can't follow yourself.");
+      const target = await repo.getUserById(user_id);
+      if (!target) throw new Error("Profile user not found.");
+      if (await repo.followUser(viewer.id, user_id)) {
+        await repo.notify({ userIds: [user_id], actorId: viewer.id, type: "follow" });
+      }
+      const view = await buildProfileView(repo, { viewerId: viewer.id, profileUserId: user_id });
+      return buildStructuredResponse({ view }, `Following @${target.handle}.`);
+    }
+  );
+
+  registerTool(
+    "unfollow_user",
+    {
+      title: "Unfollow user",
+      description: "Stop following a user.",
+      inputSchema: z.object({ user_id: z.string().uuid() }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ user_id }) => {
+      const viewer = await getViewer();
+      await repo.unfollowUser(viewer.id, user_id);
+      const view = await buildProfileView(repo, { viewerId: viewer.id, profileUserId: user_id });
+      return buildStructuredResponse({ view }, "Unfollowed.");
+    }
+  );
+
+  registerTool(
+    "get_feed",
+    {
+      title: "Get feed",
+      description:
+        "Get recent items added, items completed and new public lists from people you follow, newest first.",
+      inputSchema: z.object({
+        cursor: z.string().max(200).optional().nullable(),
+        limit: z.number().int().min(1).max(50).default(20),
+      }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ cursor, limit }) => {
+      const viewer = await getViewer();
+      const view = await buildFeedView(repo, viewer.id, cursor ?? null, limit);
+      return buildStructuredResponse({ view }, "Here is your feed.");
+    }
+  );
+
+  registerTool(
+    "get_notifications",
+    {
+      title: "Get notifications",
+      description:
+        "Show who bookmarked your items, followed you or changed lists you share, newest first, with the unread count. Pass a previous nextCursor as cursor for more.",
+      inputSchema: z.object({
+        unread_only: z.boolean().default(false),
+        ...pageInputSchema,
+      }),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ unread_only, cursor, limit }) => {
+      const viewer = await getViewer();
+      const notifications = await buildNotifications(repo, viewer.id, unread_only, { cursor, limit });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, notifications },
+        notifications.unreadCount > 0
+          ? `You have ${notifications.unreadCount} unread notification${notifications.unreadCount === 1 ? "" : "s"}.`
+          : "You're all caught up."
+      );
+    }
+  );
+
+  registerTool(
+    "mark_notifications_read",
+    {
+      title: "Mark notifications read",
+      description: "Mark the given notifications read, or all of them when notification_ids is omitted.",
+      inputSchema: z.object({
+        notification_ids: z
+          .array(z.string().uuid())
+          .min(1)
+          .max(NOTIFICATION_PAGE_SIZE * 5)
+          .optional()
+          .nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ notification_ids }) => {
+      const viewer = await getViewer();
+      const marked = await repo.markNotificationsRead(viewer.id, notification_ids ?? null);
+      const notifications = await buildNotifications(repo, viewer.id, false);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, notifications },
+        marked === 1 ? "Marked 1 notification read." : `Marked ${marked} notifications read.`
+      );
+    }
+  );
+
+  registerTool(
+    "set_notification_preferences",
+    {
+      title: "Set notification preferences",
+      description: `Choose which kinds of notifications to mute: ${NOTIFICATION_TYPES.join(", ")}. Replaces the current choice; pass an empty list to hear about everything.`,
+      inputSchema: z.object({
+        muted_types: z.array(z.enum(NOTIFICATION_TYPES)).max(NOTIFICATION_TYPES.length),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ muted_types }) => {
+      const viewer = await getViewer();
+      const muted = [...new Set(muted_types)];
+      await repo.setMutedNotificationTypes(viewer.id, muted);
+      const notifications = await buildNotifications(repo, viewer.id, false);
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, notifications },
+        muted.length > 0 ? `Muted ${muted.join(", ")} notifications.` : "All notifications are on."
+      );
+    }
+  );
+
+  registerTool(
+    "create_access_token",
+    {
+      title: "Create access token",
+      description:
+        "Create a personal access token for scripts calling the MCP endpoint with `Authorization: Bearer <token>`. The token is only shown once.",
+      inputSchema: z.object({
+        name: z.string().min(1).max(60),
+        scopes: z.array(z.enum(SCOPES)).min(1).default(["lists:read"]),
+        expires_in_days: z.number().int().min(1).max(ACCESS_TOKEN_MAX_DAYS).optional().nullable(),
+      }),
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ name, scopes, expires_in_days }) => {
+      requireInteractiveAuth();
+      const viewer = await getViewer();
+      if ((await repo.listAccessTokens(viewer.id)).length >= ACCESS_TOKEN_LIMIT) {
+        throw new Error(`You can have at most ${ACCESS_TOKEN_LIMIT} access tokens. Revoke one first.`);
+      }
+      const { token, tokenHash, tokenPrefix } = generatePersonalAccessToken();
+      const created = await repo.createAccessToken({
+        userId: viewer.id,
+        name,
+        tokenHash,
+        tokenPrefix,
+        scopes: [...new Set(scopes)],
+        expiresAt: expires_in_days
+          ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+      });
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, accessToken: { ...created, token }, accessTokens: await repo.listAccessTokens(viewer.id) },
+        "Access token created. Copy it now; it won't be shown again."
+      );
+    }
+  );
+
+  registerTool(
+    "list_access_tokens",
+    {
+      title: "List access tokens",
+      description: "List your personal access tokens with their scopes, expiry and last use.",
+      inputSchema: z.object({}),
+      annotations: { readOnlyHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async () => {
+      requireInteractiveAuth();
+      const viewer = await getViewer();
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, accessTokens: await repo.listAccessTokens(viewer.id) },
+        "Here are your access tokens."
+      );
+    }
+  );
+
+  registerTool(
+    "revoke_access_token",
+    {
+      title: "Revoke access token",
+      description: "Revoke one of your personal access tokens. Scripts using it are refused within a minute.",
+      inputSchema: z.object({ token_id: z.string().uuid() }),
+      annotations: { destructiveHint: true },
+      _meta: { "openai/outputTemplate": toolOutputTemplate },
+    },
+    async ({ token_id }) => {
+      requireInteractiveAuth();
+      const viewer = await getViewer();
+      if (!(await repo.revokeAccessToken(token_id, viewer.id))) {
+        throw new Error("Access token not found.");
+      }
+      const view = await buildListView(repo, { viewerId: viewer.id, listId: null });
+      return buildStructuredResponse(
+        { view, accessTokens: await repo.listAccessTokens(viewer.id) },
+        "Access token revoked."
+      );
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,1957 @@
+import { randomBytes } from "node:crypto";
+import { v4 as uuidv4 } from "uuid";
+import type { LinkPreview } from "./unfurl.js";
+import { ORDER_GAP, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_STOP } from "./repository.js";
+import type {
+  AccessTokenRow,
+  BookmarkRow,
+  CommentRow,
+  ContentSearchFilters,
+  CustomListType,
+  DbUser,
+  Engagement,
+  FeedEntry,
+  ItemAttributes,
+  ItemRow,
+  ItemSearchResult,
+  ItemStatus,
+  ListEvent,
+  ListMember,
+  ListRole,
+  ListRow,
+  ListSearchResult,
+  ListSummary,
+  ListVisibility,
+  NotificationType,
+  PageParams,
+  ReactionCount,
+  ReactionTarget,
+  RecommendationSeeds,
+  Repository,
+  SourceItem,
+} from "./repository.js";
+
+type UserRecord = DbUser & { handle_changed_at: string | null; created_at: string };
+
+type ListRecord = ListRow & { fork_synced_at: string | null; created_at: string; updated_at: string };
+
+type ItemRecord = {
+  id: string;
+  list_id: string;
+  title: string;
+  note: string | null;
+  url: string | null;
+  link_preview: LinkPreview | null;
+  attributes: ItemAttributes;
+  tags: string[];
+  status: ItemStatus;
+  order_index: number;
+  deleted_at: string | null;
+  completed_at: string | null;
+  forked_from_item_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type MemberRecord = {
+  list_id: string;
+  user_id: string;
+  role: ListRole;
+  status: "pending" | "accepted";
+  invited_by: string | null;
+  created_at: string;
+  accepted_at: string | null;
+};
+
+type BookmarkRecord = {
+  id: string;
+  user_id: string;
+  source_item_id: string;
+  source_list_id: string;
+  source_user_id: string;
+  created_item_id: string;
+  created_at: string;
+};
+
+type AccessTokenRecord = AccessTokenRow & { token_hash: string; revoked_at: string | null };
+
+type ListEventRecord = Omit<ListEvent, "item_title" | "actor_handle" | "undone">;
+
+type RatingRecord = {
+  user_id: string;
+  item_id: string;
+  rating: number;
+  review: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type CommentRecord = Omit<CommentRow, "author_handle" | "author_display_name">;
+
+type ReactionRecord = {
+  user_id: string;
+  list_id: string;
+  item_id: string | null;
+  emoji: string;
+  created_at: string;
+};
+
+type NotificationRecord = {
+  id: string;
+  user_id: string;
+  actor_id: string;
+  type: NotificationType;
+  list_id: string | null;
+  item_id: string | null;
+  count: number;
+  read_at: string | null;
+  created_at: string;
+};
+
+type HandleHistoryRecord = {
+  handle: string;
+  user_id: string;
+  released_at: string;
+  expires_at: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roleOrder: Record<ListRole, number> = { owner: 0, editor: 1, viewer: 2 };
+
+function byDesc<T>(key: (row: T) => string | number) {
+  return (a: T, b: T) => (key(a) < key(b) ? 1 : key(a) > key(b) ? -1 : 0);
+}
+
+function byAsc<T>(key: (row: T) => string | number) {
+  return (a: T, b: T) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0);
+}
+
+function newestFirst<T extends { created_at: string; id: string }>(a: T, b: T) {
+  return byDesc<T>((row) => row.created_at)(a, b) || byDesc<T>((row) => row.id)(a, b);
+}
+
+function itemOrder(a: ItemRecord, b: ItemRecord) {
+  return a.order_index - b.order_index || newestFirst(a, b);
+}
+
+// Like the Postgres keyset queries: rows sorting after the anchor row, whatever filters it fails.
+function keysetPage<T>(
+  rows: T[],
+  compare: (a: T, b: T) => number,
+  page: PageParams | undefined,
+  findAnchor: (id: string) => T | undefined
+) {
+  let sorted = [...rows].sort(compare);
+  if (page?.afterId) {
+    const anchor = findAnchor(page.afterId);
+    sorted = anchor ? sorted.filter((row) => compare(row, anchor) > 0) : [];
+  }
+  return page ? sorted.slice(0, page.limit) : sorted;
+}
+
+// A rough stand-in for Postgres' english stemmer: good enough that "ramen" finds "Ramen shops".
+function stem(word: string) {
+  return word.length > 4 ? word.replace(/(ing|ed|es|s)$/, "") : word;
+}
+
+function tokenize(text: string | null) {
+  return (text ?? "").toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function parseSearchQuery(queryText: string) {
+  const words = queryText.toLowerCase().split(/\s+/).filter(Boolean);
+  const include: string[] = [];
+  const exclude: string[] = [];
+  words.forEach((word) => {
+    const negated = word.startsWith("-");
+    tokenize(negated ? word.slice(1) : word)
+      .filter((token) => token !== "or" && token !== "and")
+      .forEach((token) => (negated ? exclude : include).push(stem(token)));
+  });
+  return { include, exclude };
+}
+
+type WeightedField = { text: string | null; weight: number };
+
+// Weights follow ts_rank_cd's defaults for the A/B/C labels used in the search vectors.
+function rankDocument(fields: WeightedField[], queryText: string): number | null {
+  const { include, exclude } = parseSearchQuery(queryText);
+  if (include.length === 0) return null;
+  const stems = fields.map((field) => new Set(tokenize(field.text).map(stem)));
+  if (exclude.some((term) => stems.some((set) => set.has(term)))) return null;
+  let rank = 0;
+  for (const term of include) {
+    const weights = fields.filter((_, index) => stems[index].has(term)).map((field) => field.weight);
+    if (weights.length === 0) return null;
+    rank += Math.max(...weights);
+  }
+  return rank;
+}
+
+function highlight(text: string, queryText: string) {
+  const terms = new Set(parseSearchQuery(queryText).include);
+  return text.replace(/[\p{L}\p{N}]+/gu, (word) =>
+    terms.has(stem(word.toLowerCase()))
+      ? `${SEARCH_HIGHLIGHT_START}${word}${SEARCH_HIGHLIGHT_STOP}`
+      : word
+  );
+}
+
+function urlText(url: string | null) {
+  return url ? url.replace(/[/:.?=&_-]+/g, " ") : null;
+}
+
+/**
+ * An in-process `Repository` with the same observable behaviour as the Postgres one, for tests
+ * and local experiments. State lives only as long as the returned object.
+ */
+export function createMemoryRepository(): Repository {
+  const users = new Map<string, UserRecord>();
+  const lists = new Map<string, ListRecord>();
+  const items = new Map<string, ItemRecord>();
+  const members = new Map<string, MemberRecord>();
+  const bookmarks = new Map<string, BookmarkRecord>();
+  const follows = new Map<string, { follower_id: string; followee_id: string; created_at: string }>();
+  const handleHistory = new Map<string, HandleHistoryRecord>();
+  const accessTokens = new Map<string, AccessTokenRecord>();
+  const listEvents = new Map<string, ListEventRecord>();
+  const listTypes = new Map<string, CustomListType & { updated_at: string }>();
+  const ratings = new Map<string, RatingRecord>();
+  const comments = new Map<string, CommentRecord>();
+  const reactions = new Map<string, ReactionRecord>();
+  const notifications = new Map<string, NotificationRecord>();
+  const notificationMutes = new Map<string, NotificationType[]>();
+  // What `refreshRecommendations` last computed, standing in for the materialized views.
+  const coSaves = new Map<string, Map<string, number>>();
+  const itemSaves = new Map<string, number>();
+  const listSaves = new Map<string, number>();
+  const userSaves = new Map<string, number>();
+
+  // Strictly increasing so "newest first" orderings are deterministic.
+  let lastTick = 0;
+  const now = () => {
+    lastTick = Math.max(Date.now(), lastTick + 1);
+    return new Date(lastTick).toISOString();
+  };
+  const current = () => new Date(Math.max(Date.now(), lastTick)).toISOString();
+  const memberKey = (listId: string, userId: string) => `${listId}:${userId}`;
+  const generateShareToken = () => randomBytes(18).toString("base64url");
+
+  const toAccessToken = ({ token_hash: _hash, revoked_at: _revoked, ...token }: AccessTokenRecord) => ({
+    ...token,
+    scopes: [...token.scopes],
+  });
+  const toUser = ({ handle_changed_at: _changed, created_at: _created, ...user }: UserRecord) => ({
+    ...user,
+  });
+  // Mirrors the Postgres join: titles come from the item's current row, jsonb values are copies.
+  const toListEvent = (event: ListEventRecord): ListEvent => ({
+    ...event,
+    before: event.before ? structuredClone(event.before) : null,
+    after: event.after ? structuredClone(event.after) : null,
+    item_title: (event.item_id && items.get(event.item_id)?.title) ?? null,
+    actor_handle: users.get(event.actor_id)!.handle,
+    undone: [...listEvents.values()].some((other) => other.reverts_event_id === event.id),
+  });
+  const toCustomListType = ({ updated_at: _updated, ...type }: CustomListType & { updated_at: string }) => ({
+    ...type,
+    fields: structuredClone(type.fields),
+  });
+  const toListRow = (list: ListRecord): ListRow => ({
+    id: list.id,
+    owner_id: list.owner_id,
+    title: list.title,
+    type: list.type,
+    visibility: list.visibility,
+    share_token: list.share_token,
+    archived_at: list.archived_at,
+    deleted_at: list.deleted_at,
+    forked_from_list_id: list.forked_from_list_id,
+    fork_sync: list.fork_sync,
+  });
+  const liveItems = (listId: string) =>
+    [...items.values()].filter((item) => item.list_id === listId && !item.deleted_at);
+  const ratingKey = (userId: string, itemId: string) => `${userId}:${itemId}`;
+  // Like the Postgres helper: a bookmarked copy shares its source's ratings while the source exists.
+  const ratingTarget = (itemId: string) => {
+    const origin = [...bookmarks.values()].find((bookmark) => bookmark.created_item_id === itemId);
+    return origin && items.has(origin.source_item_id) ? origin.source_item_id : itemId;
+  };
+  const ratingsOf = (itemIds: string[]) => {
+    const targets = new Set(itemIds.map(ratingTarget));
+    return [...ratings.values()].filter((rating) => targets.has(rating.item_id));
+  };
+  const average = (rows: RatingRecord[]) =>
+    rows.length > 0 ? rows.reduce((sum, row) => sum + row.rating, 0) / rows.length : null;
+  const reactionKey = (params: ReactionTarget) =>
+    `${params.userId}:${params.listId}:${params.itemId ?? ""}:${params.emoji}`;
+  const toComment = (comment: CommentRecord): CommentRow => {
+    const author = users.get(comment.author_id)!;
+    return { ...comment, author_handle: author.handle, author_display_name: author.display_name };
+  };
+  const summarize = (list: ListRecord): ListSummary => {
+    const owner = users.get(list.owner_id)!;
+    const listItems = liveItems(list.id);
+    return {
+      id: list.id,
+      owner_id: list.owner_id,
+      title: list.title,
+      type: list.type,
+      visibility: list.visibility,
+      share_token: list.share_token,
+      active_count: listItems.filter((item) => item.status === "active").length,
+      done_count: listItems.filter((item) => item.status === "done").length,
+      owner_handle: owner.handle,
+      owner_display_name: owner.display_name,
+      forked_from_list_id: list.forked_from_list_id,
+      fork_count: [...lists.values()].filter(
+        (fork) => fork.forked_from_list_id === list.id && !fork.deleted_at
+      ).length,
+      average_rating: average(ratingsOf(listItems.map((item) => item.id))),
+    };
+  };
+  const acceptedMember = (listId: string, userId: string) => {
+    const member = members.get(memberKey(listId, userId));
+    return member?.status === "accepted" ? member : null;
+  };
+  const isLive = (list: ListRecord) => !list.deleted_at && !list.archived_at;
+
+  const removeItem = (itemId: string) => {
+    items.delete(itemId);
+    [...ratings.values()]
+      .filter((rating) => rating.item_id === itemId)
+      .forEach((rating) => ratings.delete(ratingKey(rating.user_id, rating.item_id)));
+    [...bookmarks.values()]
+      .filter((bookmark) => bookmark.created_item_id === itemId)
+      .forEach((bookmark) => bookmarks.delete(bookmark.id));
+    [...comments.values()]
+      .filter((comment) => comment.item_id === itemId)
+      .forEach((comment) => comments.delete(comment.id));
+    [...reactions.entries()]
+      .filter(([, reaction]) => reaction.item_id === itemId)
+      .forEach(([key]) => reactions.delete(key));
+    [...notifications.values()]
+      .filter((notification) => notification.item_id === itemId)
+      .forEach((notification) => notifications.delete(notification.id));
+  };
+  const removeList = (listId: string) => {
+    lists.delete(listId);
+    [...items.values()].filter((item) => item.list_id === listId).forEach((item) => removeItem(item.id));
+    [...members.values()]
+      .filter((member) => member.list_id === listId)
+      .forEach((member) => members.delete(memberKey(member.list_id, member.user_id)));
+    [...listEvents.values()]
+      .filter((event) => event.list_id === listId)
+      .forEach((event) => listEvents.delete(event.id));
+    [...comments.values()]
+      .filter((comment) => comment.list_id === listId)
+      .forEach((comment) => comments.delete(comment.id));
+    [...reactions.entries()]
+      .filter(([, reaction]) => reaction.list_id === listId)
+      .forEach(([key]) => reactions.delete(key));
+    [...notifications.values()]
+      .filter((notification) => notification.list_id === listId)
+      .forEach((notification) => notifications.delete(notification.id));
+    [...lists.values()]
+      .filter((fork) => fork.forked_from_list_id === listId)
+      .forEach((fork) => {
+        fork.forked_from_list_id = null;
+      });
+  };
+
+  const isPublicLive = (list: ListRecord) => list.visibility === "public" && isLive(list);
+  // Source item ids, as in the Postgres `owned` and `seeds` CTEs.
+  const ownedSources = (viewerId: string) => {
+    const saved = [...bookmarks.values()]
+      .filter((bookmark) => bookmark.user_id === viewerId)
+      .map((bookmark) => bookmark.source_item_id);
+    const own = [...items.values()]
+      .filter((item) => {
+        const list = lists.get(item.list_id);
+        return !item.deleted_at && !!list && !list.deleted_at && list.owner_id === viewerId;
+      })
+      .map((item) => item.forked_from_item_id ?? item.id);
+    return new Set([...saved, ...own]);
+  };
+  const recommendationSeeds = (params: RecommendationSeeds) => {
+    if (!params.seedItemIds) return ownedSources(params.viewerId);
+    const copies = new Map([...bookmarks.values()].map((bookmark) => [bookmark.created_item_id, bookmark]));
+    return new Set(
+      params.seedItemIds.map(
+        (id) => copies.get(id)?.source_item_id ?? items.get(id)?.forked_from_item_id ?? id
+      )
+    );
+  };
+  const coSaveScores = (seeds: Set<string>) => {
+    const scores = new Map<string, number>();
+    seeds.forEach((seed) =>
+      coSaves.get(seed)?.forEach((count, related) => scores.set(related, (scores.get(related) ?? 0) + count))
+    );
+    return scores;
+  };
+  // The Postgres ordering: co-saves, then a preferred type, then saves, then newest.
+  const recommendationOrder = <T extends { id: string; created_at: string }>(
+    rank: (row: T) => { coSaves: number; type: string; saves: number },
+    types: string[]
+  ) => {
+    const preferred = new Set(types.map((type) => type.toLowerCase()));
+    return (a: T, b: T) => {
+      const first = rank(a);
+      const second = rank(b);
+      return (
+        second.coSaves - first.coSaves ||
+        Number(preferred.has(second.type.toLowerCase())) - Number(preferred.has(first.type.toLowerCase())) ||
+        second.saves - first.saves ||
+        byDesc<T>((row) => row.created_at)(a, b) ||
+        byAsc<T>((row) => row.id)(a, b)
+      );
+    };
+  };
+
+  const isHandleAvailable = async (handle: string, userId: string | null) => {
+    const lower = handle.toLowerCase();
+    const takenByUser = [...users.values()].some(
+      (user) => user.handle.toLowerCase() === lower && user.id !== userId
+    );
+    const reserved = handleHistory.get(lower);
+    const takenByHistory = !!reserved && reserved.expires_at > current() && reserved.user_id !== userId;
+    return !takenByUser && !takenByHistory;
+  };
+
+  const pickAvailableHandle = async (base: string) => {
+    if (await isHandleAvailable(base, null)) return base;
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      const candidate = `${base}_${Math.floor(Math.random() * 9000 + 1000)}`;
+      if (await isHandleAvailable(candidate, null)) return candidate;
+    }
+    return `${base}_${randomBytes(4).toString("hex")}`;
+  };
+
+  const insertList = (params: {
+    ownerId: string;
+    title: string;
+    type: string;
+    visibility: ListVisibility;
+  }) => {
+    const id = uuidv4();
+    const createdAt = now();
+    lists.set(id, {
+      id,
+      owner_id: params.ownerId,
+      title: params.title,
+      type: params.type,
+      visibility: params.visibility,
+      share_token: params.visibility === "unlisted" ? generateShareToken() : null,
+      archived_at: null,
+      deleted_at: null,
+      forked_from_list_id: null,
+      fork_sync: false,
+      fork_synced_at: null,
+      created_at: createdAt,
+      updated_at: createdAt,
+    });
+    members.set(memberKey(id, params.ownerId), {
+      list_id: id,
+      user_id: params.ownerId,
+      role: "owner",
+      status: "accepted",
+      invited_by: null,
+      created_at: createdAt,
+      accepted_at: createdAt,
+    });
+    return id;
+  };
+
+  const getItemOrder = (listId: string) => liveItems(listId).sort(itemOrder);
+  // Display order across both sections: active items first, like the fork queries.
+  const displayOrder = (listId: string) =>
+    liveItems(listId).sort((a, b) => byAsc<ItemRecord>((item) => item.status)(a, b) || itemOrder(a, b));
+
+  const copyItems = (listId: string, sources: ItemRecord[], start: number) => {
+    const createdAt = now();
+    return sources.map((source, index) => {
+      const id = uuidv4();
+      items.set(id, {
+        id,
+        list_id: listId,
+        title: source.title,
+        note: source.note,
+        url: source.url,
+        link_preview: source.link_preview ? structuredClone(source.link_preview) : null,
+        attributes: { ...source.attributes },
+        tags: [...source.tags],
+        status: "active",
+        order_index: start + index * ORDER_GAP,
+        deleted_at: null,
+        completed_at: null,
+        forked_from_item_id: source.id,
+        created_at: createdAt,
+        updated_at: createdAt,
+      });
+      return id;
+    });
+  };
+
+  const writeItemOrder = (listId: string, itemIds: string[]) => {
+    itemIds.forEach((id, index) => {
+      const item = items.get(id);
+      if (item && item.list_id === listId) {
+        item.order_index = (index + 1) * ORDER_GAP;
+      }
+    });
+  };
+
+  const searchFilters = (list: ListRecord, filters: ContentSearchFilters) =>
+    list.visibility === "public" &&
+    isLive(list) &&
+    (!filters.type || list.type.toLowerCase() === filters.type.toLowerCase()) &&
+    (!filters.ownerId || list.owner_id === filters.ownerId);
+
+  // Everything `transaction` snapshots and restores when its work throws.
+  const stores: Map<string, unknown>[] = [
+    users,
+    lists,
+    items,
+    members,
+    bookmarks,
+    follows,
+    handleHistory,
+    accessTokens,
+    listEvents,
+    listTypes,
+    ratings,
+    comments,
+    reactions,
+    notifications,
+    notificationMutes,
+    coSaves,
+    itemSaves,
+    listSaves,
+    userSaves,
+  ];
+  let inTransaction = false;
+
+  const repository: Repository = {
+    // Rolls back by restoring a snapshot, which also discards writes other callers made
+    // meanwhile. Tests don't write concurrently, so that's an acceptable stand-in.
+    async transaction(work) {
+      if (inTransaction) return work();
+      const snapshot = stores.map((store) => structuredClone(store));
+      inTransaction = true;
+      try {
+        return await work();
+      } catch (error) {
+        stores.forEach((store, index) => {
+          store.clear();
+          snapshot[index].forEach((value, key) => store.set(key, value));
+        });
+        throw error;
+      } finally {
+        inTransaction = false;
+      }
+    },
+
+    async getUserById(userId) {
+      const user = users.get(userId);
+      return user ? toUser(user) : null;
+    },
+
+    isHandleAvailable,
+
+    async ensureUser(params) {
+      const existing = [...users.values()].find(
+        (user) => user.auth_provider_id === params.authProviderId
+      );
+      if (existing) {
+        if (!existing.display_name_custom && params.displayName !== undefined) {
+          existing.display_name = params.displayName;
+        }
+        if (!existing.avatar_url_custom && params.avatarUrl !== undefined) {
+          existing.avatar_url = params.avatarUrl;
+        }
+        return toUser(existing);
+      }
+      const id = uuidv4();
+      const user: UserRecord = {
+        id,
+        auth_provider_id: params.authProviderId,
+        handle: await pickAvailableHandle(params.handle),
+        display_name: params.displayName ?? null,
+        bio: null,
+        avatar_url: params.avatarUrl ?? null,
+        display_name_custom: false,
+        avatar_url_custom: false,
+        handle_changed_at: null,
+        created_at: now(),
+      };
+      users.set(id, user);
+      return toUser(user);
+    },
+
+    async updateProfile(params) {
+      const user = users.get(params.userId);
+      if (!user) return;
+      if (params.displayName !== undefined) {
+        user.display_name = params.displayName;
+        user.display_name_custom = true;
+      }
+      if (params.bio !== undefined) {
+        user.bio = params.bio;
+      }
+      if (params.avatarUrl !== undefined) {
+        user.avatar_url = params.avatarUrl;
+        user.avatar_url_custom = true;
+      }
+    },
+
+    async changeHandle(params) {
+      const user = users.get(params.userId);
+      if (!user) return;
+      const lower = params.handle.toLowerCase();
+      if ([...users.values()].some((row) => row.id !== user.id && row.handle.toLowerCase() === lower)) {
+        // Mirrors the unique index on users.handle.
+        throw Object.assign(new Error("duplicate key value violates unique constraint"), { code: "23505" });
+      }
+      const changedAt = now();
+      if (user.handle !== params.handle) {
+        handleHistory.set(user.handle, {
+          handle: user.handle,
+          user_id: user.id,
+          released_at: changedAt,
+          expires_at: new Date(Date.parse(changedAt) + params.graceDays * DAY_MS).toISOString(),
+        });
+      }
+      if (handleHistory.get(params.handle)?.user_id === user.id) {
+        handleHistory.delete(params.handle);
+      }
+      user.handle = params.handle;
+      user.handle_changed_at = changedAt;
+    },
+
+    async getUserByHandle(handle) {
+      const lower = handle.toLowerCase();
+      const user = [...users.values()].find((row) => row.handle.toLowerCase() === lower);
+      if (user) return toUser(user);
+      const reserved = handleHistory.get(lower);
+      if (!reserved || reserved.expires_at <= current()) return null;
+      const redirected = users.get(reserved.user_id);
+      return redirected ? toUser(redirected) : null;
+    },
+
+    async listUserSummaries(page) {
+      return keysetPage([...users.values()], newestFirst, page, (id) => users.get(id)).map(toUser);
+    },
+
+    async searchUsersByQuery(queryText, page = { limit: 20 }) {
+      const needle = queryText.toLowerCase();
+      const matches = [...users.values()].filter(
+        (user) =>
+          user.handle.toLowerCase().includes(needle) ||
+          (user.display_name ?? "").toLowerCase().includes(needle)
+      );
+      return keysetPage(matches, newestFirst, page, (id) => users.get(id)).map(toUser);
+    },
+
+    async getListsByOwner(ownerId, viewerId = ownerId, page) {
+      const visible = [...lists.values()].filter(
+        (list) =>
+          list.owner_id === ownerId &&
+          isLive(list) &&
+          (list.owner_id === viewerId ||
+            list.visibility === "public" ||
+            !!acceptedMember(list.id, viewerId))
+      );
+      return keysetPage(visible, newestFirst, page, (id) => lists.get(id)).map(summarize);
+    },
+
+    async getListsSharedWith(userId) {
+      return [...members.values()]
+        .filter((member) => member.user_id === userId && member.status === "accepted")
+        .map((member) => ({ member, list: lists.get(member.list_id)! }))
+        .filter(({ list }) => list && list.owner_id !== userId && isLive(list))
+        .sort(byDesc(({ member }) => member.accepted_at ?? ""))
+        .map(({ member, list }) => ({ ...summarize(list), role: member.role }));
+    },
+
+    async getListSummaryById(listId) {
+      const list = lists.get(listId);
+      return list && !list.deleted_at ? summarize(list) : null;
+    },
+
+    async getListById(listId, options = {}) {
+      const list = lists.get(listId);
+      if (!list || (list.deleted_at && !options.includeDeleted)) return null;
+      return toListRow(list);
+    },
+
+    async getListByShareToken(shareToken) {
+      const list = [...lists.values()].find(
+        (row) => row.share_token === shareToken && !row.deleted_at
+      );
+      return list ? toListRow(list) : null;
+    },
+
+    async createList(params) {
+      return insertList({ ...params, visibility: params.visibility ?? "public" });
+    },
+
+    async countListsByOwner(ownerId) {
+      return [...lists.values()].filter((list) => list.owner_id === ownerId && !list.deleted_at).length;
+    },
+
+    async updateList(params) {
+      const list = lists.get(params.listId);
+      if (!list) return;
+      const fields = [params.title, params.type, params.visibility, params.forkSync];
+      if (fields.every((value) => value === undefined)) return;
+      if (params.title !== undefined) list.title = params.title;
+      if (params.type !== undefined) list.type = params.type;
+      if (params.visibility !== undefined) {
+        list.visibility = params.visibility;
+        if (params.visibility === "unlisted") {
+          list.share_token = list.share_token ?? generateShareToken();
+        }
+      }
+      if (params.forkSync !== undefined) list.fork_sync = params.forkSync;
+      list.updated_at = now();
+    },
+
+    async rotateShareToken(listId) {
+      const token = generateShareToken();
+      const list = lists.get(listId);
+      if (list) {
+        list.share_token = token;
+        list.updated_at = now();
+      }
+      return token;
+    },
+
+    async getOrCreateListByType(params) {
+      const existing = [...lists.values()]
+        .filter((list) => list.owner_id === params.ownerId && list.type === params.type && isLive(list))
+        .sort(byDesc((list) => list.created_at))[0];
+      if (existing) return existing.id;
+      return insertList({
+        ownerId: params.ownerId,
+        title: params.fallbackTitle,
+        type: params.type,
+        visibility: "public",
+      });
+    },
+
+    async getListRole(listId, userId) {
+      const list = lists.get(listId);
+      if (!list) return null;
+      if (list.owner_id === userId) return "owner";
+      return acceptedMember(listId, userId)?.role ?? null;
+    },
+
+    async getListMembers(listId) {
+      return [...members.values()]
+        .filter((member) => member.list_id === listId && users.has(member.user_id))
+        .sort(
+          (a, b) =>
+            roleOrder[a.role] - roleOrder[b.role] || byAsc<MemberRecord>((m) => m.created_at)(a, b)
+        )
+        .map((member): ListMember => {
+          const user = users.get(member.user_id)!;
+          return {
+            user_id: member.user_id,
+            handle: user.handle,
+            display_name: user.display_name,
+            role: member.role,
+            status: member.status,
+          };
+        });
+    },
+
+    async getPendingInvites(userId) {
+      return [...members.values()]
+        .filter((member) => member.user_id === userId && member.status === "pending")
+        .map((member) => ({ member, list: lists.get(member.list_id) }))
+        .filter(
+          (entry): entry is { member: MemberRecord; list: ListRecord } =>
+            !!entry.list && !entry.list.deleted_at
+        )
+        .sort(byDesc(({ member }) => member.created_at))
+        .map(({ member, list }) => ({
+          list_id: list.id,
+          list_title: list.title,
+          role: member.role,
+          owner_handle: users.get(list.owner_id)!.handle,
+          invited_by_handle: member.invited_by ? users.get(member.invited_by)?.handle ?? null : null,
+        }));
+    },
+
+    async inviteListMember(params) {
+      const key = memberKey(params.listId, params.userId);
+      const existing = members.get(key);
+      if (existing) {
+        existing.role = params.role;
+        return;
+      }
+      members.set(key, {
+        list_id: params.listId,
+        user_id: params.userId,
+        role: params.role,
+        status: "pending",
+        invited_by: params.invitedBy,
+        created_at: now(),
+        accepted_at: null,
+      });
+    },
+
+    async acceptListInvite(listId, userId) {
+      const member = members.get(memberKey(listId, userId));
+      if (!member || member.status !== "pending") return false;
+      member.status = "accepted";
+      member.accepted_at = now();
+      return true;
+    },
+
+    async removeListMember(listId, userId) {
+      const key = memberKey(listId, userId);
+      const member = members.get(key);
+      if (!member || member.role === "owner") return false;
+      members.delete(key);
+      return true;
+    },
+
+    async countItemsInList(listId) {
+      return liveItems(listId).length;
+    },
+
+    async addItem(params) {
+      const id = uuidv4();
+      const orders = liveItems(params.listId).map((item) => item.order_index);
+      const createdAt = now();
+      items.set(id, {
+        id,
+        list_id: params.listId,
+        title: params.title,
+        note: params.note ?? null,
+        url: params.url ?? null,
+        link_preview: params.linkPreview ?? null,
+        attributes: { ...params.attributes },
+        tags: [...(params.tags ?? [])],
+        status: "active",
+        order_index: (orders.length > 0 ? Math.min(...orders) : ORDER_GAP) - ORDER_GAP,
+        deleted_at: null,
+        completed_at: null,
+        forked_from_item_id: null,
+        created_at: createdAt,
+        updated_at: createdAt,
+      });
+      return id;
+    },
+
+    async updateItem(params) {
+      const item = items.get(params.itemId);
+      if (!item || item.list_id !== params.listId || item.deleted_at) return;
+      const fields = [
+        params.title,
+        params.note,
+        params.url,
+        params.linkPreview,
+        params.attributes,
+        params.tags,
+      ];
+      if (fields.every((value) => value === undefined)) return;
+      if (params.title !== undefined) item.title = params.title;
+      if (params.note !== undefined) item.note = params.note;
+      if (params.url !== undefined) item.url = params.url;
+      if (params.linkPreview !== undefined) item.link_preview = params.linkPreview;
+      if (params.attributes !== undefined) item.attributes = { ...params.attributes };
+      if (params.tags !== undefined) item.tags = [...params.tags];
+      item.updated_at = now();
+    },
+
+    async setItemStatus(params) {
+      const item = items.get(params.itemId);
+      if (!item || item.list_id !== params.listId || item.deleted_at) return;
+      item.status = params.status;
+      item.completed_at = params.status === "done" ? item.completed_at ?? now() : null;
+      item.updated_at = now();
+    },
+
+    async getItemState(itemId) {
+      const item = items.get(itemId);
+      if (!item) return null;
+      const { id, list_id, title, note, url, link_preview, attributes, tags, status, deleted_at } = item;
+      return {
+        id,
+        list_id,
+        title,
+        note,
+        url,
+        link_preview,
+        attributes: { ...attributes },
+        tags: [...tags],
+        status,
+        deleted_at,
+      };
+    },
+
+    async getItemsByList(listId, status, viewerId, page, sort = "position", tag = null) {
+      const bookmarkList = [...bookmarks.values()];
+      const section = liveItems(listId).filter(
+        (item) => item.status === status && (!tag || item.tags.includes(tag))
+      );
+      const score = (item: ItemRecord) => average(ratingsOf([item.id])) ?? 0;
+      const compare =
+        sort === "rating" ? (a: ItemRecord, b: ItemRecord) => score(b) - score(a) || itemOrder(a, b) : itemOrder;
+      return keysetPage(section, compare, page, (id) => items.get(id)).map((item): ItemRow => {
+          const origin = bookmarkList.find((bookmark) => bookmark.created_item_id === item.id);
+          const itemRatings = ratingsOf([item.id]);
+          const own = viewerId ? ratings.get(ratingKey(viewerId, ratingTarget(item.id))) : undefined;
+          return {
+            id: item.id,
+            list_id: item.list_id,
+            title: item.title,
+            note: item.note,
+            url: item.url,
+            link_preview: item.link_preview,
+            attributes: { ...item.attributes },
+            tags: [...item.tags],
+            status: item.status,
+            order_index: item.order_index,
+            created_at: item.created_at,
+            source_item_id: origin?.source_item_id ?? null,
+            source_list_id: origin?.source_list_id ?? null,
+            source_user_id: origin?.source_user_id ?? null,
+            source_user_handle: origin ? users.get(origin.source_user_id)?.handle ?? null : null,
+            save_count: bookmarkList.filter((bookmark) => bookmark.source_item_id === item.id).length,
+            viewer_saved: bookmarkList.some(
+              (bookmark) => bookmark.source_item_id === item.id && bookmark.user_id === viewerId
+            ),
+            average_rating: average(itemRatings),
+            rating_count: itemRatings.length,
+            viewer_rating: own?.rating ?? null,
+            viewer_review: own?.review ?? null,
+          };
+        });
+    },
+
+    async moveItem(params) {
+      const rows = getItemOrder(params.listId);
+      const moving = rows.find((row) => row.id === params.itemId);
+      if (!moving) return null;
+      const siblings = rows.filter((row) => row.status === moving.status && row.id !== moving.id);
+
+      let index: number;
+      if (params.beforeItemId || params.afterItemId) {
+        const anchorId = (params.beforeItemId ?? params.afterItemId) as string;
+        const anchorIndex = siblings.findIndex((row) => row.id === anchorId);
+        if (anchorIndex === -1) {
+          throw new Error("Anchor item not found in the same section.");
+        }
+        index = params.beforeItemId ? anchorIndex : anchorIndex + 1;
+      } else {
+        index = Math.min(Math.max(params.position ?? 0, 0), siblings.length);
+      }
+
+      const prev = siblings[index - 1];
+      const next = siblings[index];
+      if (!prev && !next) {
+        moving.order_index = 0;
+      } else if (!prev) {
+        moving.order_index = next.order_index - ORDER_GAP;
+      } else if (!next) {
+        moving.order_index = prev.order_index + ORDER_GAP;
+      } else if (next.order_index - prev.order_index > 1) {
+        moving.order_index = Math.floor((prev.order_index + next.order_index) / 2);
+      } else {
+        const ordered = [...siblings.slice(0, index), moving, ...siblings.slice(index)];
+        writeItemOrder(params.listId, ordered.map((row) => row.id));
+      }
+      return moving.status;
+    },
+
+    async setItemOrder(params) {
+      const rows = getItemOrder(params.listId);
+      const known = new Set(rows.map((row) => row.id));
+      const requested = [...new Set(params.itemIds)].filter((id) => known.has(id));
+      const requestedSet = new Set(requested);
+      const rest = rows.filter((row) => !requestedSet.has(row.id)).map((row) => row.id);
+      writeItemOrder(params.listId, [...requested, ...rest]);
+    },
+
+    async deleteItem(itemId) {
+      removeItem(itemId);
+    },
+
+    async findSourceItem(sourceItemId) {
+      const item = items.get(sourceItemId);
+      const list = item ? lists.get(item.list_id) : undefined;
+      if (!item || !list || item.deleted_at || list.deleted_at) return null;
+      const source: SourceItem = {
+        id: item.id,
+        title: item.title,
+        note: item.note,
+        url: item.url,
+        link_preview: item.link_preview,
+        attributes: { ...item.attributes },
+        tags: [...item.tags],
+        list_id: list.id,
+        list_title: list.title,
+        list_type: list.type,
+        visibility: list.visibility,
+        share_token: list.share_token,
+        owner_id: list.owner_id,
+        owner_handle: users.get(list.owner_id)!.handle,
+      };
+      return source;
+    },
+
+    async getTags(userId, prefix, limit) {
+      const counts = new Map<string, number>();
+      [...items.values()]
+        .filter((item) => {
+          const list = lists.get(item.list_id);
+          return !item.deleted_at && !!list && !list.deleted_at && list.owner_id === userId;
+        })
+        .flatMap((item) => item.tags)
+        .filter((tag) => prefix === null || tag.startsWith(prefix))
+        .forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+      return [...counts.entries()]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || byAsc<{ tag: string }>((row) => row.tag)(a, b))
+        .slice(0, limit);
+    },
+
+    async getItemsByTag(params) {
+      const matches = [...items.values()].filter((item) => {
+        const list = lists.get(item.list_id);
+        if (!list || list.deleted_at || item.deleted_at || !item.tags.includes(params.tag)) return false;
+        const inScope =
+          params.scope === "public"
+            ? list.visibility === "public" && !list.archived_at
+            : list.owner_id === params.viewerId || !!acceptedMember(list.id, params.viewerId);
+        return (
+          inScope &&
+          (!params.ownerId || list.owner_id === params.ownerId) &&
+          (!params.status || item.status === params.status)
+        );
+      });
+      return keysetPage(matches, newestFirst, params.page, (id) => items.get(id)).map((item) => {
+        const list = lists.get(item.list_id)!;
+        return {
+          id: item.id,
+          list_id: list.id,
+          list_title: list.title,
+          list_type: list.type,
+          owner_id: list.owner_id,
+          owner_handle: users.get(list.owner_id)!.handle,
+          title: item.title,
+          note: item.note,
+          url: item.url,
+          tags: [...item.tags],
+          status: item.status,
+          created_at: item.created_at,
+        };
+      });
+    },
+
+    async importList(params) {
+      // Nothing below can fail half way, so the in-memory import is atomic without a transaction.
+      const listId =
+        params.listId ??
+        insertList({
+          ownerId: params.ownerId,
+          title: params.title,
+          type: params.type,
+          visibility: "public",
+        });
+      const orders = liveItems(listId).map((item) => item.order_index);
+      const start = (orders.length > 0 ? Math.min(...orders) : 0) - params.items.length * ORDER_GAP;
+      const createdAt = now();
+      const itemIds = params.items.map((item, index) => {
+        const id = uuidv4();
+        items.set(id, {
+          id,
+          list_id: listId,
+          title: item.title,
+          note: item.note,
+          url: item.url,
+          link_preview: null,
+          attributes: {},
+          tags: [],
+          status: item.status,
+          order_index: start + index * ORDER_GAP,
+          deleted_at: null,
+          completed_at: item.status === "done" ? createdAt : null,
+          forked_from_item_id: null,
+          created_at: createdAt,
+          updated_at: createdAt,
+        });
+        return id;
+      });
+      return { listId, itemIds };
+    },
+
+    async forkList(params) {
+      const listId = insertList({
+        ownerId: params.ownerId,
+        title: params.title,
+        type: params.type,
+        visibility: params.visibility,
+      });
+      const fork = lists.get(listId)!;
+      fork.forked_from_list_id = params.sourceListId;
+      fork.fork_sync = params.sync;
+      fork.fork_synced_at = now();
+      copyItems(listId, displayOrder(params.sourceListId), ORDER_GAP);
+      return listId;
+    },
+
+    async syncFork(listId, limit) {
+      const fork = lists.get(listId);
+      if (!fork) return [];
+      const source = fork.forked_from_list_id ? lists.get(fork.forked_from_list_id) : undefined;
+      let created: string[] = [];
+      if (source && source.visibility === "public" && !source.deleted_at) {
+        const copied = new Set(
+          [...items.values()]
+            .filter((item) => item.list_id === listId && item.forked_from_item_id)
+            .map((item) => item.forked_from_item_id)
+        );
+        const fresh = displayOrder(source.id)
+          .filter((item) => !copied.has(item.id))
+          .slice(0, limit);
+        const orders = liveItems(listId).map((item) => item.order_index);
+        const start = (orders.length > 0 ? Math.min(...orders) : 0) - fresh.length * ORDER_GAP;
+        created = copyItems(listId, fresh, start);
+      }
+      fork.fork_synced_at = now();
+      return created;
+    },
+
+    async getSyncedForks() {
+      return [...lists.values()]
+        .filter((fork) => {
+          const source = fork.forked_from_list_id ? lists.get(fork.forked_from_list_id) : undefined;
+          return (
+            fork.fork_sync &&
+            !fork.deleted_at &&
+            source?.visibility === "public" &&
+            !source.deleted_at
+          );
+        })
+        .sort(byAsc((fork) => fork.fork_synced_at ?? ""))
+        .map(toListRow);
+    },
+
+    async createBookmark(params) {
+      const exists = [...bookmarks.values()].some(
+        (bookmark) =>
+          bookmark.user_id === params.userId && bookmark.source_item_id === params.sourceItemId
+      );
+      if (exists) return false;
+      const id = uuidv4();
+      bookmarks.set(id, {
+        id,
+        user_id: params.userId,
+        source_item_id: params.sourceItemId,
+        source_list_id: params.sourceListId,
+        source_user_id: params.sourceUserId,
+        created_item_id: params.createdItemId,
+        created_at: now(),
+      });
+      return true;
+    },
+
+    async findBookmark(params) {
+      const bookmark = [...bookmarks.values()].find(
+        (row) =>
+          row.user_id === params.userId &&
+          (row.source_item_id === params.sourceItemId || row.created_item_id === params.createdItemId)
+      );
+      if (!bookmark) return null;
+      const created = items.get(bookmark.created_item_id);
+      const row: BookmarkRow = {
+        id: bookmark.id,
+        user_id: bookmark.user_id,
+        source_item_id: bookmark.source_item_id,
+        source_list_id: bookmark.source_list_id,
+        source_user_id: bookmark.source_user_id,
+        created_item_id: bookmark.created_item_id,
+        created_list_id: created?.list_id ?? null,
+        created_item_deleted: !created || !!created.deleted_at,
+      };
+      return row;
+    },
+
+    async deleteBookmark(bookmarkId) {
+      const bookmark = bookmarks.get(bookmarkId);
+      if (!bookmark) return;
+      bookmarks.delete(bookmarkId);
+      removeItem(bookmark.created_item_id);
+    },
+
+    async softDeleteItem(itemId, listId) {
+      const item = items.get(itemId);
+      if (!item || item.list_id !== listId || item.deleted_at) return false;
+      item.deleted_at = now();
+      return true;
+    },
+
+    async restoreItem(itemId, listId) {
+      const item = items.get(itemId);
+      if (!item || item.list_id !== listId || !item.deleted_at) return false;
+      item.deleted_at = null;
+      item.updated_at = now();
+      return true;
+    },
+
+    async getDeletedItem(itemId) {
+      const item = items.get(itemId);
+      return item?.deleted_at ? { id: item.id, list_id: item.list_id } : null;
+    },
+
+    async softDeleteList(listId) {
+      const list = lists.get(listId);
+      if (!list || list.deleted_at) return false;
+      list.deleted_at = now();
+      return true;
+    },
+
+    async setListArchived(listId, archived) {
+      const list = lists.get(listId);
+      if (!list) return;
+      list.archived_at = archived ? list.archived_at ?? now() : null;
+      list.updated_at = now();
+    },
+
+    async restoreList(listId) {
+      const list = lists.get(listId);
+      if (!list || (!list.deleted_at && !list.archived_at)) return false;
+      list.deleted_at = null;
+      list.archived_at = null;
+      list.updated_at = now();
+      return true;
+    },
+
+    async getTrash(userId) {
+      const trashedLists = [...lists.values()]
+        .filter((list) => list.owner_id === userId && list.deleted_at)
+        .sort(byDesc((list) => list.deleted_at!))
+        .map((list) => ({
+          id: list.id,
+          title: list.title,
+          type: list.type,
+          item_count: liveItems(list.id).length,
+          deleted_at: list.deleted_at!,
+        }));
+      const trashedItems = [...items.values()]
+        .filter((item) => {
+          const list = lists.get(item.list_id);
+          if (!item.deleted_at || !list || list.deleted_at) return false;
+          return list.owner_id === userId || acceptedMember(list.id, userId)?.role === "editor";
+        })
+        .sort(byDesc((item) => item.deleted_at!))
+        .slice(0, 100)
+        .map((item) => ({
+          id: item.id,
+          list_id: item.list_id,
+          list_title: lists.get(item.list_id)!.title,
+          title: item.title,
+          status: item.status,
+          deleted_at: item.deleted_at!,
+        }));
+      const archived = [...lists.values()]
+        .filter((list) => list.owner_id === userId && list.archived_at && !list.deleted_at)
+        .sort(byDesc((list) => list.archived_at!))
+        .map((list) => ({
+          id: list.id,
+          title: list.title,
+          type: list.type,
+          archived_at: list.archived_at!,
+        }));
+      return { lists: trashedLists, items: trashedItems, archived };
+    },
+
+    async purgeTrash(retentionDays) {
+      const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+      const expiredLists = [...lists.values()].filter(
+        (list) => list.deleted_at && list.deleted_at < cutoff
+      );
+      expiredLists.forEach((list) => removeList(list.id));
+      const expiredItems = [...items.values()].filter(
+        (item) => item.deleted_at && item.deleted_at < cutoff
+      );
+      expiredItems.forEach((item) => removeItem(item.id));
+      return { lists: expiredLists.length, items: expiredItems.length };
+    },
+
+    async rateItem(params) {
+      if (!items.has(params.itemId)) return;
+      const target = ratingTarget(params.itemId);
+      const key = ratingKey(params.userId, target);
+      const existing = ratings.get(key);
+      const ratedAt = now();
+      ratings.set(key, {
+        user_id: params.userId,
+        item_id: target,
+        rating: params.rating,
+        review: params.review === undefined ? existing?.review ?? null : params.review,
+        created_at: existing?.created_at ?? ratedAt,
+        updated_at: ratedAt,
+      });
+    },
+
+    async clearItemRating(userId, itemId) {
+      return ratings.delete(ratingKey(userId, ratingTarget(itemId)));
+    },
+
+    async getTopRatedItems(userId, viewerId, limit) {
+      return [...ratings.values()]
+        .filter((rating) => rating.user_id === userId)
+        .map((rating) => {
+          const item = items.get(rating.item_id)!;
+          return { rating, item, list: lists.get(item.list_id)! };
+        })
+        .filter(
+          ({ item, list }) =>
+            !item.deleted_at &&
+            !list.deleted_at &&
+            (list.visibility === "public" || list.owner_id === viewerId || !!acceptedMember(list.id, viewerId))
+        )
+        .sort(
+          (a, b) =>
+            b.rating.rating - a.rating.rating ||
+            byDesc<RatingRecord>((row) => row.updated_at)(a.rating, b.rating)
+        )
+        .slice(0, limit)
+        .map(({ rating, item, list }) => ({
+          item_id: item.id,
+          title: item.title,
+          url: item.url,
+          list_id: list.id,
+          list_title: list.title,
+          owner_handle: users.get(list.owner_id)!.handle,
+          rating: rating.rating,
+          review: rating.review,
+          rated_at: rating.updated_at,
+        }));
+    },
+
+    async addComment(params) {
+      const id = uuidv4();
+      comments.set(id, {
+        id,
+        list_id: params.listId,
+        item_id: params.itemId,
+        parent_id: params.parentId,
+        thread_id: params.threadId,
+        author_id: params.authorId,
+        body: params.body,
+        edited_at: null,
+        hidden_at: null,
+        deleted_at: null,
+        created_at: now(),
+      });
+      return id;
+    },
+
+    async getComment(commentId) {
+      const comment = comments.get(commentId);
+      return comment ? toComment(comment) : null;
+    },
+
+    async updateComment(commentId, body) {
+      const comment = comments.get(commentId);
+      if (!comment) return;
+      comment.body = body;
+      comment.edited_at = now();
+    },
+
+    async setCommentHidden(commentId, hidden) {
+      const comment = comments.get(commentId);
+      if (!comment) return;
+      comment.hidden_at = hidden ? comment.hidden_at ?? now() : null;
+    },
+
+    async deleteComment(commentId) {
+      const comment = comments.get(commentId);
+      if (!comment) return;
+      if ([...comments.values()].some((reply) => reply.parent_id === commentId)) {
+        comment.body = "";
+        comment.deleted_at = now();
+      } else {
+        comments.delete(commentId);
+      }
+    },
+
+    async getCommentThreads(listId, itemId, page) {
+      const all = [...comments.values()];
+      const rows = all.filter(
+        (comment) =>
+          comment.list_id === listId &&
+          comment.item_id === itemId &&
+          !comment.parent_id &&
+          (!comment.deleted_at || all.some((reply) => reply.thread_id === comment.id && !reply.deleted_at))
+      );
+      return keysetPage(rows, newestFirst, page, (id) => comments.get(id)).map(toComment);
+    },
+
+    async getCommentReplies(threadIds) {
+      const threads = new Set(threadIds);
+      return [...comments.values()]
+        .filter((comment) => comment.thread_id && threads.has(comment.thread_id))
+        .sort((a, b) => -newestFirst(a, b))
+        .map(toComment);
+    },
+
+    async addReaction(params) {
+      const key = reactionKey(params);
+      if (reactions.has(key)) return false;
+      reactions.set(key, {
+        user_id: params.userId,
+        list_id: params.listId,
+        item_id: params.itemId,
+        emoji: params.emoji,
+        created_at: now(),
+      });
+      return true;
+    },
+
+    async removeReaction(params) {
+      return reactions.delete(reactionKey(params));
+    },
+
+    async getEngagement(listId, itemIds, viewerId) {
+      const wanted = new Set<string | null>([null, ...itemIds]);
+      const visibleComments = [...comments.values()].filter(
+        (comment) => comment.list_id === listId && !comment.deleted_at && !comment.hidden_at
+      );
+      const listReactions = [...reactions.values()].filter((reaction) => reaction.list_id === listId);
+      const targets = new Set(
+        [...visibleComments, ...listReactions].map((row) => row.item_id).filter((itemId) => wanted.has(itemId))
+      );
+      return [...targets].map((itemId): Engagement => {
+        const counts = new Map<string, ReactionCount>();
+        for (const reaction of listReactions.filter((row) => row.item_id === itemId)) {
+          const count = counts.get(reaction.emoji) ?? {
+            emoji: reaction.emoji,
+            count: 0,
+            viewer_reacted: false,
+          };
+          count.count += 1;
+          count.viewer_reacted ||= reaction.user_id === viewerId;
+          counts.set(reaction.emoji, count);
+        }
+        return {
+          item_id: itemId,
+          comment_count: visibleComments.filter((comment) => comment.item_id === itemId).length,
+          reactions: [...counts.values()].sort(
+            (a, b) => b.count - a.count || byAsc<ReactionCount>((row) => row.emoji)(a, b)
+          ),
+        };
+      });
+    },
+
+    async getCustomListType(ownerId, name) {
+      const type = [...listTypes.values()].find(
+        (entry) => entry.owner_id === ownerId && entry.name.toLowerCase() === name.toLowerCase()
+      );
+      return type ? toCustomListType(type) : null;
+    },
+
+    async getCustomListTypes(ownerId) {
+      return [...listTypes.values()]
+        .filter((entry) => entry.owner_id === ownerId)
+        .sort(byAsc((entry) => entry.name.toLowerCase()))
+        .map(toCustomListType);
+    },
+
+    async saveCustomListType(params) {
+      const existing = await repository.getCustomListType(params.ownerId, params.name);
+      const updatedAt = now();
+      const type = {
+        id: existing?.id ?? uuidv4(),
+        owner_id: params.ownerId,
+        name: existing?.name ?? params.name,
+        label: params.label,
+        fields: structuredClone(params.fields),
+        created_at: existing?.created_at ?? updatedAt,
+        updated_at: updatedAt,
+      };
+      listTypes.set(type.id, type);
+      return toCustomListType(type);
+    },
+
+    async deleteCustomListType(ownerId, name) {
+      const type = await repository.getCustomListType(ownerId, name);
+      return type ? listTypes.delete(type.id) : false;
+    },
+
+    async followUser(followerId, followeeId) {
+      if (followerId === followeeId) {
+        throw new Error("Users can't follow themselves.");
+      }
+      const key = `${followerId}:${followeeId}`;
+      if (follows.has(key)) return false;
+      follows.set(key, { follower_id: followerId, followee_id: followeeId, created_at: now() });
+      return true;
+    },
+
+    async unfollowUser(followerId, followeeId) {
+      follows.delete(`${followerId}:${followeeId}`);
+    },
+
+    async getFollowStats(userId, viewerId) {
+      const rows = [...follows.values()];
+      return {
+        follower_count: rows.filter((row) => row.followee_id === userId).length,
+        following_count: rows.filter((row) => row.follower_id === userId).length,
+        viewer_follows: follows.has(`${viewerId}:${userId}`),
+      };
+    },
+
+    async notify(params) {
+      const muted = (userId: string) => notificationMutes.get(userId)?.includes(params.type) ?? false;
+      for (const userId of new Set(params.userIds)) {
+        if (muted(userId)) continue;
+        const unread =
+          params.type === "list_edit"
+            ? [...notifications.values()].find(
+                (notification) =>
+                  notification.user_id === userId &&
+                  notification.actor_id === params.actorId &&
+                  notification.type === params.type &&
+                  notification.list_id === params.listId &&
+                  !notification.read_at
+              )
+            : undefined;
+        if (unread) {
+          unread.count += 1;
+          unread.created_at = now();
+          continue;
+        }
+        const id = uuidv4();
+        notifications.set(id, {
+          id,
+          user_id: userId,
+          actor_id: params.actorId,
+          type: params.type,
+          list_id: params.listId ?? null,
+          item_id: params.itemId ?? null,
+          count: 1,
+          read_at: null,
+          created_at: now(),
+        });
+      }
+    },
+
+    async getNotifications(userId, unreadOnly, page) {
+      const rows = [...notifications.values()].filter(
+        (notification) => notification.user_id === userId && (!unreadOnly || !notification.read_at)
+      );
+      return keysetPage(rows, newestFirst, page, (id) => notifications.get(id)).map((notification) => {
+        const actor = users.get(notification.actor_id)!;
+        return {
+          id: notification.id,
+          type: notification.type,
+          actor_id: notification.actor_id,
+          actor_handle: actor.handle,
+          actor_avatar_url: actor.avatar_url,
+          list_id: notification.list_id,
+          list_title: notification.list_id ? lists.get(notification.list_id)?.title ?? null : null,
+          item_id: notification.item_id,
+          item_title: notification.item_id ? items.get(notification.item_id)?.title ?? null : null,
+          count: notification.count,
+          read_at: notification.read_at,
+          created_at: notification.created_at,
+        };
+      });
+    },
+
+    async countUnreadNotifications(userId) {
+      return [...notifications.values()].filter(
+        (notification) => notification.user_id === userId && !notification.read_at
+      ).length;
+    },
+
+    async markNotificationsRead(userId, notificationIds) {
+      const wanted = notificationIds ? new Set(notificationIds) : null;
+      const unread = [...notifications.values()].filter(
+        (notification) =>
+          notification.user_id === userId && !notification.read_at && (!wanted || wanted.has(notification.id))
+      );
+      const readAt = now();
+      unread.forEach((notification) => {
+        notification.read_at = readAt;
+      });
+      return unread.length;
+    },
+
+    async getMutedNotificationTypes(userId) {
+      return [...(notificationMutes.get(userId) ?? [])].sort();
+    },
+
+    async setMutedNotificationTypes(userId, types) {
+      notificationMutes.set(userId, [...new Set(types)]);
+    },
+
+    async refreshRecommendations() {
+      [coSaves, itemSaves, listSaves, userSaves].forEach((store) => store.clear());
+      const savedByUser = new Map<string, string[]>();
+      for (const bookmark of bookmarks.values()) {
+        const saved = savedByUser.get(bookmark.user_id) ?? [];
+        savedByUser.set(bookmark.user_id, [...saved, bookmark.source_item_id]);
+        itemSaves.set(bookmark.source_item_id, (itemSaves.get(bookmark.source_item_id) ?? 0) + 1);
+        listSaves.set(bookmark.source_list_id, (listSaves.get(bookmark.source_list_id) ?? 0) + 1);
+        userSaves.set(bookmark.source_user_id, (userSaves.get(bookmark.source_user_id) ?? 0) + 1);
+      }
+      for (const saved of savedByUser.values()) {
+        for (const itemId of saved) {
+          const related = coSaves.get(itemId) ?? new Map<string, number>();
+          saved
+            .filter((other) => other !== itemId)
+            .forEach((other) => related.set(other, (related.get(other) ?? 0) + 1));
+          coSaves.set(itemId, related);
+        }
+      }
+    },
+
+    async recommendItems(params) {
+      const seeds = recommendationSeeds(params);
+      const owned = ownedSources(params.viewerId);
+      const scores = coSaveScores(seeds);
+      return [...new Set([...scores.keys(), ...itemSaves.keys()])]
+        .map((id) => items.get(id))
+        .filter((item): item is ItemRecord => !!item && !item.deleted_at)
+        .filter((item) => {
+          const list = lists.get(item.list_id)!;
+          return (
+            isPublicLive(list) &&
+            list.owner_id !== params.viewerId &&
+            !seeds.has(item.id) &&
+            !owned.has(item.id)
+          );
+        })
+        .sort(
+          recommendationOrder<ItemRecord>(
+            (item) => ({
+              coSaves: scores.get(item.id) ?? 0,
+              type: lists.get(item.list_id)!.type,
+              saves: itemSaves.get(item.id) ?? 0,
+            }),
+            params.types
+          )
+        )
+        .slice(0, params.limit)
+        .map((item) => {
+          const list = lists.get(item.list_id)!;
+          return {
+            id: item.id,
+            list_id: item.list_id,
+            title: item.title,
+            url: item.url,
+            list_title: list.title,
+            list_type: list.type,
+            owner_id: list.owner_id,
+            owner_handle: users.get(list.owner_id)!.handle,
+            co_saves: scores.get(item.id) ?? 0,
+            save_count: itemSaves.get(item.id) ?? 0,
+          };
+        });
+    },
+
+    async recommendLists(params) {
+      const scores = new Map<string, number>();
+      coSaveScores(recommendationSeeds(params)).forEach((count, itemId) => {
+        const item = items.get(itemId);
+        if (item && !item.deleted_at) scores.set(item.list_id, (scores.get(item.list_id) ?? 0) + count);
+      });
+      return [...lists.values()]
+        .filter(
+          (list) =>
+            isPublicLive(list) &&
+            list.owner_id !== params.viewerId &&
+            (scores.has(list.id) || listSaves.has(list.id)) &&
+            ![...lists.values()].some(
+              (fork) =>
+                fork.owner_id === params.viewerId && fork.forked_from_list_id === list.id && !fork.deleted_at
+            )
+        )
+        .sort(
+          recommendationOrder<ListRecord>(
+            (list) => ({
+              coSaves: scores.get(list.id) ?? 0,
+              type: list.type,
+              saves: listSaves.get(list.id) ?? 0,
+            }),
+            params.types
+          )
+        )
+        .slice(0, params.limit)
+        .map((list) => ({
+          id: list.id,
+          title: list.title,
+          type: list.type,
+          owner_id: list.owner_id,
+          owner_handle: users.get(list.owner_id)!.handle,
+          item_count: liveItems(list.id).length,
+          co_saves: scores.get(list.id) ?? 0,
+          save_count: listSaves.get(list.id) ?? 0,
+        }));
+    },
+
+    async recommendUsers({ viewerId, types, limit }) {
+      const preferred = new Set(types.map((type) => type.toLowerCase()));
+      return [...users.values()]
+        .filter((user) => user.id !== viewerId && !follows.has(`${viewerId}:${user.id}`))
+        .map((user) => ({
+          user,
+          savedFrom: [...bookmarks.values()].filter(
+            (bookmark) => bookmark.user_id === viewerId && bookmark.source_user_id === user.id
+          ).length,
+          sharesType: [...lists.values()].some(
+            (list) =>
+              list.owner_id === user.id && isPublicLive(list) && preferred.has(list.type.toLowerCase())
+          ),
+          saves: userSaves.get(user.id) ?? 0,
+        }))
+        .filter((row) => row.savedFrom > 0 || row.sharesType || row.saves > 0)
+        .sort(
+          (a, b) =>
+            b.savedFrom - a.savedFrom ||
+            Number(b.sharesType) - Number(a.sharesType) ||
+            b.saves - a.saves ||
+            byAsc<typeof a>((row) => row.user.handle)(a, b)
+        )
+        .slice(0, limit)
+        .map(({ user, savedFrom, saves }) => ({
+          id: user.id,
+          handle: user.handle,
+          display_name: user.display_name,
+          avatar_url: user.avatar_url,
+          saved_from: savedFrom,
+          save_count: saves,
+        }));
+    },
+
+    async recordListEvent(params) {
+      if (
+        params.revertsEventId &&
+        [...listEvents.values()].some((event) => event.reverts_event_id === params.revertsEventId)
+      ) {
+        throw Object.assign(new Error("duplicate key value violates unique constraint"), { code: "23505" });
+      }
+      const id = uuidv4();
+      listEvents.set(id, {
+        id,
+        list_id: params.listId,
+        item_id: params.itemId ?? null,
+        actor_id: params.actorId,
+        action: params.action,
+        before: params.before ? structuredClone(params.before) : null,
+        after: params.after ? structuredClone(params.after) : null,
+        reverts_event_id: params.revertsEventId ?? null,
+        created_at: now(),
+      });
+      return id;
+    },
+
+    async getListHistory(listId, page) {
+      const rows = [...listEvents.values()].filter((event) => event.list_id === listId);
+      return keysetPage(rows, newestFirst, page, (id) => listEvents.get(id)).map(toListEvent);
+    },
+
+    async findUndoableEvent(listId, actorId) {
+      const undone = new Set([...listEvents.values()].map((event) => event.reverts_event_id));
+      const [latest] = [...listEvents.values()]
+        .filter(
+          (event) =>
+            event.list_id === listId &&
+            event.actor_id === actorId &&
+            event.action !== "undo" &&
+            event.action !== "bookmark_removed" &&
+            (!event.item_id || items.has(event.item_id)) &&
+            !undone.has(event.id)
+        )
+        .sort(newestFirst);
+      return latest ? toListEvent(latest) : null;
+    },
+
+    async getFeed(params) {
+      const followed = new Set(
+        [...follows.values()]
+          .filter((row) => row.follower_id === params.followerId)
+          .map((row) => row.followee_id)
+      );
+      const visible = [...lists.values()].filter(
+        (list) => followed.has(list.owner_id) && list.visibility === "public" && isLive(list)
+      );
+      const entries: FeedEntry[] = [];
+      const push = (
+        kind: FeedEntry["kind"],
+        occurredAt: string,
+        eventId: string,
+        list: ListRecord,
+        item: ItemRecord | null
+      ) => {
+        const actor = users.get(list.owner_id)!;
+        entries.push({
+          kind,
+          occurred_at: occurredAt,
+          occurred_at_key: occurredAt,
+          event_id: eventId,
+          actor_id: actor.id,
+          actor_handle: actor.handle,
+          actor_display_name: actor.display_name,
+          list_id: list.id,
+          list_title: list.title,
+          list_type: list.type,
+          item_id: item?.id ?? null,
+          item_title: item?.title ?? null,
+        });
+      };
+      visible.forEach((list) => {
+        push("list_created", list.created_at, `l:${list.id}`, list, null);
+        liveItems(list.id).forEach((item) => {
+          push("item_added", item.created_at, `a:${item.id}`, list, item);
+          if (item.status === "done" && item.completed_at) {
+            push("item_done", item.completed_at, `d:${item.id}`, list, item);
+          }
+        });
+      });
+      const cursor = params.cursor;
+      return entries
+        .filter(
+          (entry) =>
+            !cursor ||
+            entry.occurred_at_key < cursor.occurredAt ||
+            (entry.occurred_at_key === cursor.occurredAt && entry.event_id < cursor.eventId)
+        )
+        .sort(
+          (a, b) =>
+            byDesc<FeedEntry>((entry) => entry.occurred_at)(a, b) ||
+            byDesc<FeedEntry>((entry) => entry.event_id)(a, b)
+        )
+        .slice(0, params.limit);
+    },
+
+    async createAccessToken(params) {
+      const record: AccessTokenRecord = {
+        id: uuidv4(),
+        user_id: params.userId,
+        name: params.name,
+        token_hash: params.tokenHash,
+        token_prefix: params.tokenPrefix,
+        scopes: [...params.scopes],
+        created_at: now(),
+        last_used_at: null,
+        expires_at: params.expiresAt,
+        revoked_at: null,
+      };
+      accessTokens.set(record.id, record);
+      return toAccessToken(record);
+    },
+
+    async listAccessTokens(userId) {
+      return [...accessTokens.values()]
+        .filter((token) => token.user_id === userId && !token.revoked_at)
+        .sort(newestFirst)
+        .map(toAccessToken);
+    },
+
+    async revokeAccessToken(tokenId, userId) {
+      const token = accessTokens.get(tokenId);
+      if (!token || token.user_id !== userId || token.revoked_at) return false;
+      token.revoked_at = now();
+      return true;
+    },
+
+    async resolveAccessToken(tokenHash) {
+      const token = [...accessTokens.values()].find(
+        (row) =>
+          row.token_hash === tokenHash &&
+          !row.revoked_at &&
+          (!row.expires_at || row.expires_at > current())
+      );
+      const user = token ? users.get(token.user_id) : null;
+      if (!token || !user) return null;
+      token.last_used_at = now();
+      return { token: toAccessToken(token), user: toUser(user) };
+    },
+
+    async searchLists(queryText, filters) {
+      return [...lists.values()]
+        .filter((list) => searchFilters(list, filters))
+        .map((list) => ({
+          list,
+          rank: rankDocument(
+            [
+              { text: list.title, weight: 1 },
+              { text: list.type, weight: 0.4 },
+            ],
+            queryText
+          ),
+        }))
+        .filter((entry): entry is { list: ListRecord; rank: number } => entry.rank !== null)
+        .sort((a, b) => b.rank - a.rank || byDesc<ListRecord>((list) => list.created_at)(a.list, b.list))
+        .slice(0, filters.limit)
+        .map(
+          ({ list, rank }): ListSearchResult => ({
+            id: list.id,
+            title: list.title,
+            type: list.type,
+            owner_id: list.owner_id,
+            owner_handle: users.get(list.owner_id)!.handle,
+            rank,
+            title_highlight: highlight(list.title, queryText),
+          })
+        );
+    },
+
+    async searchItems(queryText, filters) {
+      return [...items.values()]
+        .filter((item) => {
+          const list = lists.get(item.list_id);
+          return (
+            !item.deleted_at &&
+            !!list &&
+            searchFilters(list, filters) &&
+            (!filters.status || item.status === filters.status)
+          );
+        })
+        .map((item) => ({
+          item,
+          rank: rankDocument(
+            [
+              { text: item.title, weight: 1 },
+              { text: item.note, weight: 0.4 },
+              { text: urlText(item.url), weight: 0.2 },
+            ],
+            queryText
+          ),
+        }))
+        .filter((entry): entry is { item: ItemRecord; rank: number } => entry.rank !== null)
+        .sort((a, b) => b.rank - a.rank || byDesc<ItemRecord>((item) => item.created_at)(a.item, b.item))
+        .slice(0, filters.limit)
+        .map(({ item, rank }): ItemSearchResult => {
+          const list = lists.get(item.list_id)!;
+          return {
+            id: item.id,
+            list_id: list.id,
+            list_title: list.title,
+            list_type: list.type,
+            owner_id: list.owner_id,
+            owner_handle: users.get(list.owner_id)!.handle,
+            title: item.title,
+            note: item.note,
+            url: item.url,
+            status: item.status,
+            rank,
+            title_highlight: highlight(item.title, queryText),
+            note_highlight: item.note === null ? null : highlight(item.note, queryText),
+          };
+        });
+    },
+  };
+
+  return repository;
+}
@@ -0,0 +1,54 @@
+import "dotenv/config";
+import { pool } from "./db.js";
+import {
+  describeMigration,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+  MigrationError,
+} from "./migrations.js";
+
+const usage = "Usage: migrate <up | down [steps] | status>";
+
+async function main(args: string[]) {
+  const [command, stepsArg] = args;
+  switch (command) {
+    case "up": {
+      const applied = await migrateUp();
+      if (applied.length === 0) {
+        console.log("Database is up to date.");
+      }
+      applied.forEach((migration) => console.log(`Applied ${describeMigration(migration)}`));
+      return;
+    }
+    case "down": {
+      const steps = stepsArg === undefined ? 1 : Number(stepsArg);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new MigrationError("Steps must be a positive whole number.");
+      }
+      const reverted = await migrateDown(steps);
+      if (reverted.length === 0) {
+        console.log("Nothing to revert.");
+      }
+      reverted.forEach((migration) => console.log(`Reverted ${describeMigration(migration)}`));
+      return;
+    }
+    case "status": {
+      const statuses = await getMigrationStatus();
+      statuses.forEach((status) => {
+        const appliedAt = status.appliedAt ? ` (${new Date(status.appliedAt).toISOString()})` : "";
+        console.log(`${status.state.padEnd(8)} ${describeMigration(status)}${appliedAt}`);
+      });
+      return;
+    }
+    default:
+      throw new MigrationError(usage);
+  }
+}
+
+main(process.argv.slice(2))
+  .catch((error) => {
+    console.error(error instanceof MigrationError ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,208 @@
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { PoolClient } from "pg";
+import { pool } from "./db.js";
+
+export type Migration = {
+  version: number;
+  name: string;
+  checksum: string;
+  up: string;
+  down: string | null;
+};
+
+export type AppliedMigration = {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+};
+
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  state: "applied" | "pending" | "modified" | "missing";
+  appliedAt: string | null;
+};
+
+export class MigrationError extends Error {}
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const MIGRATIONS_DIR = join(__dirname, "..", "db", "migrations");
+
+// Arbitrary but fixed: every instance must contend for the same key.
+const MIGRATION_LOCK_KEY = 74_211_011;
+
+const migrationFilePattern = /^(\d{4})_([a-z0-9_]+)\.up\.sql$/;
+
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  const migrations = readdirSync(dir)
+    .map((file) => file.match(migrationFilePattern))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([file, version, name]) => {
+      const up = readFileSync(join(dir, file), "utf8");
+      const downPath = join(dir, `${version}_${name}.down.sql`);
+      return {
+        version: Number(version),
+        name,
+        checksum: createHash("sha256").update(up).digest("hex"),
+        up,
+        down: existsSync(downPath) ? readFileSync(downPath, "utf8") : null,
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new MigrationError(
+        `Migrations must be numbered without gaps; expected ${index + 1} but found ${migration.version}.`
+      );
+    }
+  });
+  return migrations;
+}
+
+async function ensureMigrationsTable(client: PoolClient) {
+  await client.query(
+    `create table if not exists schema_migrations (
+       version int primary key,
+       name text not null,
+       checksum text not null,
+       applied_at timestamptz not null default now()
+     )`
+  );
+}
+
+async function getApplied(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query<AppliedMigration>(
+    "select version, name, checksum, applied_at from schema_migrations order by version asc"
+  );
+  return result.rows;
+}
+
+async function withMigrationLock<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("select pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    try {
+      await ensureMigrationsTable(client);
+      return await run(client);
+    } finally {
+      await client.query("select pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+export function describeMigration(migration: { version: number; name: string }) {
+  return `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+}
+
+function compare(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+  const byVersion = new Map(applied.map((row) => [row.version, row]));
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const row = byVersion.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !row ? "pending" : row.checksum === migration.checksum ? "applied" : "modified",
+      appliedAt: row?.applied_at ?? null,
+    };
+  });
+  applied
+    .filter((row) => !migrations.some((migration) => migration.version === row.version))
+    .forEach((row) =>
+      statuses.push({
+        version: row.version,
+        name: row.name,
+        state: "missing",
+        appliedAt: row.applied_at,
+      })
+    );
+  return statuses;
+}
+
+function assertConsistent(statuses: MigrationStatus[]) {
+  const broken = statuses.find((status) => status.state === "modified" || status.state === "missing");
+  if (broken?.state === "modified") {
+    throw new MigrationError(`Migration ${describeMigration(broken)} was changed after it was applied.`);
+  }
+  if (broken?.state === "missing") {
+    throw new MigrationError(`Migration ${describeMigration(broken)} is applied but its file is missing.`);
+  }
+}
+
+export async function getMigrationStatus(migrations = loadMigrations()): Promise<MigrationStatus[]> {
+  return withMigrationLock(async (client) => compare(migrations, await getApplied(client)));
+}
+
+export async function migrateUp(migrations = loadMigrations()): Promise<Migration[]> {
+  return withMigrationLock(async (client) => {
+    const statuses = compare(migrations, await getApplied(client));
+    assertConsistent(statuses);
+    const pending = migrations.filter(
+      (migration) => statuses.find((status) => status.version === migration.version)?.state === "pending"
+    );
+    for (const migration of pending) {
+      try {
+        await client.query("begin");
+        await client.query(migration.up);
+        await client.query(
+          "insert into schema_migrations (version, name, checksum) values ($1, $2, $3)",
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query("commit");
+      } catch (error) {
+        await client.query("rollback");
+        throw new MigrationError(
+          `Migration ${describeMigration(migration)} failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    return pending;
+  });
+}
+
+export async function migrateDown(steps = 1, migrations = loadMigrations()): Promise<Migration[]> {
+  return withMigrationLock(async (client) => {
+    const applied = await getApplied(client);
+    assertConsistent(compare(migrations, applied));
+    const reverting = applied
+      .slice(-steps)
+      .reverse()
+      .map((row) => migrations.find((migration) => migration.version === row.version)!);
+    const irreversible = reverting.find((migration) => migration.down === null);
+    if (irreversible) {
+      throw new MigrationError(`Migration ${describeMigration(irreversible)} has no down file.`);
+    }
+    for (const migration of reverting) {
+      try {
+        await client.query("begin");
+        await client.query(migration.down!);
+        await client.query("delete from schema_migrations where version = $1", [migration.version]);
+        await client.query("commit");
+      } catch (error) {
+        await client.query("rollback");
+        throw new MigrationError(
+          `Reverting ${describeMigration(migration)} failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    return reverting;
+  });
+}
+
+// Used at startup: refuse to serve a database that is behind (or ahead of) this build.
+export async function assertSchemaCurrent(migrations = loadMigrations()): Promise<void> {
+  const statuses = await getMigrationStatus(migrations);
+  assertConsistent(statuses);
+  const pending = statuses.filter((status) => status.state === "pending");
+  if (pending.length > 0) {
+    throw new MigrationError(
+      `Database schema is behind: ${pending.map(describeMigration).join(", ")} not applied. Run \`npm run migrate -- up\`.`
+    );
+  }
+}
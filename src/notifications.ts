@@ -0,0 +1,18 @@
+import type { NotificationRow, NotificationType } from "./repository.js";
+
+export const NOTIFICATION_TYPES = ["bookmark", "follow", "list_edit"] as const satisfies readonly NotificationType[];
+
+export function describeNotification(notification: NotificationRow) {
+  const actor = `@${notification.actor_handle}`;
+  const list = `“${notification.list_title}”`;
+  switch (notification.type) {
+    case "bookmark":
+      return `${actor} saved “${notification.item_title}” from ${list}`;
+    case "follow":
+      return `${actor} followed you`;
+    case "list_edit":
+      return notification.count > 1
+        ? `${actor} made ${notification.count} changes to ${list}`
+        : `${actor} changed ${list}`;
+  }
+}
@@ -0,0 +1,116 @@
+import type { IncomingMessage } from "node:http";
+
+/** `request` limits raw HTTP requests per IP; `read` and `write` limit tool calls. */
+export type RateLimitBudget = "request" | "read" | "write";
+
+export type TokenBucket = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type RateLimitStore = {
+  /**
+   * Refills the bucket at `key` for the time since it was last touched and takes one token.
+   * When the bucket is empty nothing is taken and `retryAfterMs` says when a token is due.
+   */
+  take(key: string, bucket: TokenBucket, now: number): Promise<{ allowed: boolean; retryAfterMs: number }>;
+  /** Forgets buckets untouched since `before`; they would be full again anyway. */
+  prune(before: number): Promise<void>;
+};
+
+export class RateLimitError extends Error {
+  status = 429;
+  retryAfterSeconds: number;
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// A bucket holds a minute's worth of calls, so clients can burst up to their per-minute budget.
+function perMinute(variable: string, fallback: number): TokenBucket | null {
+  const value = Number(process.env[variable] ?? fallback);
+  return value > 0 ? { capacity: value, refillPerSecond: value / 60 } : null;
+}
+
+/** Budgets from the environment; a budget set to 0 is not limited. */
+export function loadRateLimitBudgets(): Record<RateLimitBudget, TokenBucket | null> {
+  return {
+    request: perMinute("RATE_LIMIT_REQUESTS_PER_MINUTE", 600),
+    read: perMinute("RATE_LIMIT_READS_PER_MINUTE", 120),
+    write: perMinute("RATE_LIMIT_WRITES_PER_MINUTE", 30),
+  };
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  return {
+    async take(key, bucket, now) {
+      const current = buckets.get(key);
+      const elapsedSeconds = current ? Math.max(0, now - current.updatedAt) / 1000 : 0;
+      const tokens = current
+        ? Math.min(bucket.capacity, current.tokens + elapsedSeconds * bucket.refillPerSecond)
+        : bucket.capacity;
+      const allowed = tokens >= 1;
+      buckets.set(key, { tokens: allowed ? tokens - 1 : tokens, updatedAt: now });
+      return {
+        allowed,
+        retryAfterMs: allowed ? 0 : ((1 - tokens) / bucket.refillPerSecond) * 1000,
+      };
+    },
+    async prune(before) {
+      for (const [key, bucket] of buckets) {
+        if (bucket.updatedAt < before) buckets.delete(key);
+      }
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+export function createRateLimiter(options: {
+  store: RateLimitStore;
+  budgets?: Record<RateLimitBudget, TokenBucket | null>;
+  now?: () => number;
+}) {
+  const budgets = options.budgets ?? loadRateLimitBudgets();
+  const now = options.now ?? Date.now;
+  return {
+    /**
+     * Spends one call of `budget` for each key, such as `user:<id>` and `ip:<address>`, and
+     * throws a `RateLimitError` when any of them is used up.
+     */
+    async check(budget: RateLimitBudget, keys: string[]) {
+      const bucket = budgets[budget];
+      if (!bucket) return;
+      const at = now();
+      for (const key of keys) {
+        const { allowed, retryAfterMs } = await options.store.take(`${budget}:${key}`, bucket, at);
+        if (!allowed) {
+          const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+          const what = budget === "request" ? "requests" : `${budget} calls`;
+          throw new RateLimitError(
+            `Too many ${what}. Try again in ${retryAfterSeconds} seconds.`,
+            retryAfterSeconds
+          );
+        }
+      }
+    },
+    prune(olderThanMs: number) {
+      return options.store.prune(now() - olderThanMs);
+    },
+  };
+}
+
+/**
+ * The address a request came from. Behind a proxy set `TRUST_PROXY=true` to use the first
+ * `X-Forwarded-For` entry; otherwise that header is client-controlled and ignored.
+ */
+export function clientIp(req: IncomingMessage): string {
+  if (process.env.TRUST_PROXY === "true") {
+    const header = req.headers["x-forwarded-for"];
+    const forwarded = (Array.isArray(header) ? header[0] : header)?.split(",")[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  return req.socket?.remoteAddress ?? "unknown";
+}
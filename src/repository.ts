@@ -0,0 +1,783 @@
+import type { LinkPreview } from "./unfurl.js";
+
+export type ListVisibility = "private" | "unlisted" | "public";
+
+export type ListRole = "owner" | "editor" | "viewer";
+
+export type ItemStatus = "active" | "done";
+
+export type DbUser = {
+  id: string;
+  auth_provider_id: string;
+  handle: string;
+  display_name: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  display_name_custom: boolean;
+  avatar_url_custom: boolean;
+};
+
+export type ListSummary = {
+  id: string;
+  owner_id: string;
+  title: string;
+  type: string;
+  visibility: ListVisibility;
+  share_token: string | null;
+  active_count: number;
+  done_count: number;
+  owner_handle: string;
+  owner_display_name: string | null;
+  forked_from_list_id: string | null;
+  /** Live forks of this list. */
+  fork_count: number;
+  /** Across everyone's ratings of the list's live items; null when none is rated. */
+  average_rating: number | null;
+};
+
+export type SharedListSummary = ListSummary & {
+  role: ListRole;
+};
+
+export type ListMember = {
+  user_id: string;
+  handle: string;
+  display_name: string | null;
+  role: ListRole;
+  status: "pending" | "accepted";
+};
+
+export type ListInvite = {
+  list_id: string;
+  list_title: string;
+  role: ListRole;
+  owner_handle: string;
+  invited_by_handle: string | null;
+};
+
+/** Type-specific item fields keyed by `ListTypeField.key`, such as `{ year: 1958 }`. */
+export type ItemAttributes = Record<string, string | number>;
+
+export type ItemRow = {
+  id: string;
+  list_id: string;
+  title: string;
+  note: string | null;
+  url: string | null;
+  link_preview: LinkPreview | null;
+  attributes: ItemAttributes;
+  /** Normalized and sorted; see `normalizeTags`. */
+  tags: string[];
+  status: ItemStatus;
+  order_index: number;
+  created_at: string;
+  source_item_id: string | null;
+  source_list_id: string | null;
+  source_user_id: string | null;
+  source_user_handle: string | null;
+  save_count: number;
+  viewer_saved: boolean;
+  /** Ratings of a bookmarked copy are those of the item it was copied from. */
+  average_rating: number | null;
+  rating_count: number;
+  viewer_rating: number | null;
+  viewer_review: string | null;
+};
+
+/** `position` is the list's own order; `rating` puts the best rated first. */
+export type ItemSort = "position" | "rating";
+
+export type TagCount = { tag: string; count: number };
+
+/** A live item found by tag, with the list it's in. */
+export type TaggedItem = {
+  id: string;
+  list_id: string;
+  list_title: string;
+  list_type: string;
+  owner_id: string;
+  owner_handle: string;
+  title: string;
+  note: string | null;
+  url: string | null;
+  tags: string[];
+  status: ItemStatus;
+  created_at: string;
+};
+
+export type TopRatedItem = {
+  item_id: string;
+  title: string;
+  url: string | null;
+  list_id: string;
+  list_title: string;
+  owner_handle: string;
+  rating: number;
+  review: string | null;
+  rated_at: string;
+};
+
+export type CommentRow = {
+  id: string;
+  list_id: string;
+  /** Null for comments on the list itself. */
+  item_id: string | null;
+  parent_id: string | null;
+  /** The top-level comment of a reply's thread; null for top-level comments. */
+  thread_id: string | null;
+  author_id: string;
+  author_handle: string;
+  author_display_name: string | null;
+  body: string;
+  edited_at: string | null;
+  hidden_at: string | null;
+  deleted_at: string | null;
+  created_at: string;
+};
+
+/** One user's reaction; `itemId` is null for reactions to the list itself. */
+export type ReactionTarget = { userId: string; listId: string; itemId: string | null; emoji: string };
+
+export type ReactionCount = { emoji: string; count: number; viewer_reacted: boolean };
+
+/** Visible comments and reactions on a list (`item_id` null) or one of its items. */
+export type Engagement = {
+  item_id: string | null;
+  comment_count: number;
+  reactions: ReactionCount[];
+};
+
+export type NotificationType = "bookmark" | "follow" | "list_edit";
+
+export type NotificationRow = {
+  id: string;
+  type: NotificationType;
+  actor_id: string;
+  actor_handle: string;
+  actor_avatar_url: string | null;
+  list_id: string | null;
+  list_title: string | null;
+  item_id: string | null;
+  item_title: string | null;
+  /** How many events it stands for; an actor's list edits fold into their unread notification. */
+  count: number;
+  read_at: string | null;
+  created_at: string;
+};
+
+/** A public item suggested from bookmark data. */
+export type RecommendedItem = {
+  id: string;
+  list_id: string;
+  title: string;
+  url: string | null;
+  list_title: string;
+  list_type: string;
+  owner_id: string;
+  owner_handle: string;
+  /** Saves by users who also saved one of the seed items. */
+  co_saves: number;
+  save_count: number;
+};
+
+export type RecommendedList = {
+  id: string;
+  title: string;
+  type: string;
+  owner_id: string;
+  owner_handle: string;
+  item_count: number;
+  /** Co-saves of the list's items with the seed items. */
+  co_saves: number;
+  save_count: number;
+};
+
+export type RecommendedUser = {
+  id: string;
+  handle: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  /** Items the viewer bookmarked from this user. */
+  saved_from: number;
+  save_count: number;
+};
+
+/**
+ * What recommendations start from. `seedItemIds` null means everything the viewer owns or saved;
+ * bookmarked and forked copies stand for the item they came from. Lists of `types` are preferred.
+ */
+export type RecommendationSeeds = {
+  viewerId: string;
+  seedItemIds: string[] | null;
+  types: string[];
+  limit: number;
+};
+
+export type ListRow = {
+  id: string;
+  owner_id: string;
+  title: string;
+  type: string;
+  visibility: ListVisibility;
+  share_token: string | null;
+  archived_at: string | null;
+  deleted_at: string | null;
+  forked_from_list_id: string | null;
+  /** Whether new upstream items are copied into this fork on a schedule. */
+  fork_sync: boolean;
+};
+
+export type BookmarkRow = {
+  id: string;
+  user_id: string;
+  source_item_id: string;
+  source_list_id: string;
+  source_user_id: string;
+  created_item_id: string;
+  created_list_id: string | null;
+  created_item_deleted: boolean;
+};
+
+export type SourceItem = {
+  id: string;
+  title: string;
+  note: string | null;
+  url: string | null;
+  link_preview: LinkPreview | null;
+  attributes: ItemAttributes;
+  tags: string[];
+  list_id: string;
+  list_title: string;
+  list_type: string;
+  visibility: ListVisibility;
+  share_token: string | null;
+  owner_id: string;
+  owner_handle: string;
+};
+
+export type TrashedList = {
+  id: string;
+  title: string;
+  type: string;
+  item_count: number;
+  deleted_at: string;
+};
+
+export type TrashedItem = {
+  id: string;
+  list_id: string;
+  list_title: string;
+  title: string;
+  status: ItemStatus;
+  deleted_at: string;
+};
+
+export type ArchivedList = {
+  id: string;
+  title: string;
+  type: string;
+  archived_at: string;
+};
+
+export type FollowStats = {
+  follower_count: number;
+  following_count: number;
+  viewer_follows: boolean;
+};
+
+export type FeedEntry = {
+  kind: "item_added" | "item_done" | "list_created";
+  occurred_at: string;
+  occurred_at_key: string;
+  event_id: string;
+  actor_id: string;
+  actor_handle: string;
+  actor_display_name: string | null;
+  list_id: string;
+  list_title: string;
+  list_type: string;
+  item_id: string | null;
+  item_title: string | null;
+};
+
+export type FeedCursor = {
+  occurredAt: string;
+  eventId: string;
+};
+
+/**
+ * A keyset page: rows that come after the row `afterId` in the query's own ordering. The anchor
+ * row's current sort values are used, so an anchor that no longer exists yields an empty page.
+ */
+export type PageParams = {
+  afterId?: string | null;
+  limit: number;
+};
+
+export type ListSearchResult = {
+  id: string;
+  title: string;
+  type: string;
+  owner_id: string;
+  owner_handle: string;
+  rank: number;
+  title_highlight: string;
+};
+
+export type ItemSearchResult = {
+  id: string;
+  list_id: string;
+  list_title: string;
+  list_type: string;
+  owner_id: string;
+  owner_handle: string;
+  title: string;
+  note: string | null;
+  url: string | null;
+  status: ItemStatus;
+  rank: number;
+  title_highlight: string;
+  note_highlight: string | null;
+};
+
+export type ContentSearchFilters = {
+  type?: string | null;
+  ownerId?: string | null;
+  status?: ItemStatus | null;
+  limit: number;
+};
+
+export type AccessTokenRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  /** The first characters of the token, so users can tell their tokens apart. */
+  token_prefix: string;
+  scopes: string[];
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+};
+
+export type ListEventAction =
+  | "list_created"
+  | "list_updated"
+  | "list_deleted"
+  | "list_archived"
+  | "list_restored"
+  | "item_added"
+  | "items_imported"
+  | "items_added"
+  | "item_updated"
+  | "items_updated"
+  | "item_status"
+  | "items_status"
+  | "item_moved"
+  | "items_reordered"
+  | "item_deleted"
+  | "item_restored"
+  | "bookmark_removed"
+  | "undo";
+
+/**
+ * An entry in a list's append-only change log. `before` and `after` hold only the fields the
+ * change touched; an `undo` entry points at the entry it reverted.
+ */
+export type ListEvent = {
+  id: string;
+  list_id: string;
+  item_id: string | null;
+  /** The item's current title, or null once the item is purged. */
+  item_title: string | null;
+  actor_id: string;
+  actor_handle: string;
+  action: ListEventAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reverts_event_id: string | null;
+  /** True when a later `undo` entry reverted this one. */
+  undone: boolean;
+  created_at: string;
+};
+
+/** An item's stored fields, trashed or not. */
+export type ItemState = {
+  id: string;
+  list_id: string;
+  title: string;
+  note: string | null;
+  url: string | null;
+  link_preview: LinkPreview | null;
+  attributes: ItemAttributes;
+  tags: string[];
+  status: ItemStatus;
+  deleted_at: string | null;
+};
+
+export type ListTypeFieldKind =
+  | "text"
+  | "long_text"
+  | "number"
+  | "integer"
+  | "year"
+  | "rating"
+  | "url"
+  | "date"
+  | "choice";
+
+export type ListTypeField = {
+  key: string;
+  label: string;
+  kind: ListTypeFieldKind;
+  required?: boolean;
+  /** The allowed values of a `choice` field. */
+  options?: string[];
+};
+
+/** A list type a user defined for their own lists. */
+export type CustomListType = {
+  id: string;
+  owner_id: string;
+  name: string;
+  label: string;
+  fields: ListTypeField[];
+  created_at: string;
+};
+
+export type ImportedItem = {
+  title: string;
+  note: string | null;
+  url: string | null;
+  status: ItemStatus;
+};
+
+// Matches are wrapped in these markers so clients can escape the text before highlighting.
+export const SEARCH_HIGHLIGHT_START = "[[";
+export const SEARCH_HIGHLIGHT_STOP = "]]";
+
+// Items are ordered sparsely so a single move only rewrites the moved row.
+export const ORDER_GAP = 1024;
+
+/**
+ * Everything the MCP tools need from storage. `postgresRepository` in `db.ts` is the production
+ * implementation; `createMemoryRepository` keeps the same semantics in process for tests.
+ */
+export interface Repository {
+  /**
+   * Runs `work` atomically: repository calls made while it runs commit together or, when it
+   * throws, not at all.
+   */
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+
+  getUserById(userId: string): Promise<DbUser | null>;
+  /** True when no other user holds `handle`, currently or as a still-reserved old handle. */
+  isHandleAvailable(handle: string, userId: string | null): Promise<boolean>;
+  /** Finds or creates the user; later logins only refresh fields the user hasn't customised. */
+  ensureUser(params: {
+    authProviderId: string;
+    handle: string;
+    displayName?: string | null;
+    avatarUrl?: string | null;
+  }): Promise<DbUser>;
+  updateProfile(params: {
+    userId: string;
+    displayName?: string | null;
+    bio?: string | null;
+    avatarUrl?: string | null;
+  }): Promise<void>;
+  /** Switches handle and reserves the old one for `graceDays`. */
+  changeHandle(params: { userId: string; handle: string; graceDays: number }): Promise<void>;
+  /** Follows recently released handles to their new owner. */
+  getUserByHandle(handle: string): Promise<DbUser | null>;
+  listUserSummaries(page?: PageParams): Promise<DbUser[]>;
+  /** Newest users first; returns at most 20 unless `page` says otherwise. */
+  searchUsersByQuery(queryText: string, page?: PageParams): Promise<DbUser[]>;
+
+  /** Lists owned by `ownerId`, limited to public and member lists when `viewerId` differs. */
+  getListsByOwner(
+    ownerId: string,
+    viewerId?: string,
+    page?: PageParams
+  ): Promise<ListSummary[]>;
+  getListsSharedWith(userId: string): Promise<SharedListSummary[]>;
+  getListSummaryById(listId: string): Promise<ListSummary | null>;
+  getListById(listId: string, options?: { includeDeleted?: boolean }): Promise<ListRow | null>;
+  getListByShareToken(shareToken: string): Promise<ListRow | null>;
+  createList(params: {
+    ownerId: string;
+    title: string;
+    type: string;
+    visibility?: ListVisibility;
+  }): Promise<string>;
+  /** Lists the user owns that aren't in the trash, archived ones included. */
+  countListsByOwner(ownerId: string): Promise<number>;
+  updateList(params: {
+    listId: string;
+    title?: string;
+    type?: string;
+    visibility?: ListVisibility;
+    forkSync?: boolean;
+  }): Promise<void>;
+  rotateShareToken(listId: string): Promise<string>;
+  getOrCreateListByType(params: {
+    ownerId: string;
+    type: string;
+    fallbackTitle: string;
+  }): Promise<string>;
+
+  /** The owner is always `owner`, even without a membership row. */
+  getListRole(listId: string, userId: string): Promise<ListRole | null>;
+  getListMembers(listId: string): Promise<ListMember[]>;
+  getPendingInvites(userId: string): Promise<ListInvite[]>;
+  inviteListMember(params: {
+    listId: string;
+    userId: string;
+    role: Exclude<ListRole, "owner">;
+    invitedBy: string;
+  }): Promise<void>;
+  acceptListInvite(listId: string, userId: string): Promise<boolean>;
+  removeListMember(listId: string, userId: string): Promise<boolean>;
+
+  /** Items in the list that aren't in the trash, in either section. */
+  countItemsInList(listId: string): Promise<number>;
+  addItem(params: {
+    listId: string;
+    title: string;
+    note?: string | null;
+    url?: string | null;
+    linkPreview?: LinkPreview | null;
+    attributes?: ItemAttributes;
+    tags?: string[];
+  }): Promise<string>;
+  /** `attributes` and `tags` replace the stored sets as a whole. */
+  updateItem(params: {
+    itemId: string;
+    listId: string;
+    title?: string;
+    note?: string | null;
+    url?: string | null;
+    linkPreview?: LinkPreview | null;
+    attributes?: ItemAttributes;
+    tags?: string[];
+  }): Promise<void>;
+  setItemStatus(params: { itemId: string; listId: string; status: ItemStatus }): Promise<void>;
+  getItemState(itemId: string): Promise<ItemState | null>;
+  /** The whole section unless `page` is given; only items carrying `tag` when it is set. */
+  getItemsByList(
+    listId: string,
+    status: ItemStatus,
+    viewerId?: string,
+    page?: PageParams,
+    sort?: ItemSort,
+    tag?: string | null
+  ): Promise<ItemRow[]>;
+  /** Returns the moved item's section, or null when it isn't in the list. */
+  moveItem(params: {
+    listId: string;
+    itemId: string;
+    beforeItemId?: string | null;
+    afterItemId?: string | null;
+    position?: number | null;
+  }): Promise<ItemStatus | null>;
+  setItemOrder(params: { listId: string; itemIds: string[] }): Promise<void>;
+  deleteItem(itemId: string): Promise<void>;
+  findSourceItem(sourceItemId: string): Promise<SourceItem | null>;
+  /** Tags on live items in the user's own lists, most used first, optionally by prefix. */
+  getTags(userId: string, prefix: string | null, limit: number): Promise<TagCount[]>;
+  /**
+   * Live items carrying `tag`, newest first: in lists the viewer owns or is an accepted member of
+   * for `mine`, or in live public lists, optionally one owner's, for `public`.
+   */
+  getItemsByTag(params: {
+    tag: string;
+    viewerId: string;
+    scope: "mine" | "public";
+    ownerId?: string | null;
+    status?: ItemStatus | null;
+    page?: PageParams;
+  }): Promise<TaggedItem[]>;
+  /**
+   * Creates the list unless `listId` is given and inserts all items atomically. Returns the
+   * list and the new items' ids in import order.
+   */
+  importList(params: {
+    ownerId: string;
+    listId?: string | null;
+    title: string;
+    type: string;
+    items: ImportedItem[];
+  }): Promise<{ listId: string; itemIds: string[] }>;
+  /** Copies the source's live items, all active and in display order, into a new list. */
+  forkList(params: {
+    sourceListId: string;
+    ownerId: string;
+    title: string;
+    type: string;
+    visibility: ListVisibility;
+    sync: boolean;
+  }): Promise<string>;
+  /**
+   * Copies up to `limit` upstream items the fork never had on top of it and returns their ids.
+   * Copies nothing once the source is no longer public.
+   */
+  syncFork(listId: string, limit: number): Promise<string[]>;
+  getSyncedForks(): Promise<ListRow[]>;
+
+  /** Returns false when the user already bookmarked the source item. */
+  createBookmark(params: {
+    userId: string;
+    sourceItemId: string;
+    sourceListId: string;
+    sourceUserId: string;
+    createdItemId: string;
+  }): Promise<boolean>;
+  findBookmark(params: {
+    userId: string;
+    sourceItemId?: string | null;
+    createdItemId?: string | null;
+  }): Promise<BookmarkRow | null>;
+  /** Removes the bookmark together with the copy it created. */
+  deleteBookmark(bookmarkId: string): Promise<void>;
+
+  softDeleteItem(itemId: string, listId: string): Promise<boolean>;
+  restoreItem(itemId: string, listId: string): Promise<boolean>;
+  getDeletedItem(itemId: string): Promise<{ id: string; list_id: string } | null>;
+  softDeleteList(listId: string): Promise<boolean>;
+  setListArchived(listId: string, archived: boolean): Promise<void>;
+  restoreList(listId: string): Promise<boolean>;
+  getTrash(userId: string): Promise<{
+    lists: TrashedList[];
+    items: TrashedItem[];
+    archived: ArchivedList[];
+  }>;
+  purgeTrash(retentionDays: number): Promise<{ lists: number; items: number }>;
+
+  /**
+   * Sets the user's rating of the item, or of its source when it is a bookmarked copy. Leaving
+   * `review` undefined keeps the current review.
+   */
+  rateItem(params: { userId: string; itemId: string; rating: number; review?: string | null }): Promise<void>;
+  clearItemRating(userId: string, itemId: string): Promise<boolean>;
+  /** The user's best rated live items in lists `viewerId` can see. */
+  getTopRatedItems(userId: string, viewerId: string, limit: number): Promise<TopRatedItem[]>;
+
+  addComment(params: {
+    listId: string;
+    itemId: string | null;
+    parentId: string | null;
+    threadId: string | null;
+    authorId: string;
+    body: string;
+  }): Promise<string>;
+  getComment(commentId: string): Promise<CommentRow | null>;
+  updateComment(commentId: string, body: string): Promise<void>;
+  setCommentHidden(commentId: string, hidden: boolean): Promise<void>;
+  /** Removes the comment, or only marks it deleted while it still has replies. */
+  deleteComment(commentId: string): Promise<void>;
+  /**
+   * Top-level comments on the list itself (`itemId` null) or on one item, newest first. Deleted
+   * ones are skipped once their thread has no live replies.
+   */
+  getCommentThreads(listId: string, itemId: string | null, page?: PageParams): Promise<CommentRow[]>;
+  /** Every reply in the given threads, oldest first. */
+  getCommentReplies(threadIds: string[]): Promise<CommentRow[]>;
+  addReaction(params: ReactionTarget): Promise<boolean>;
+  removeReaction(params: ReactionTarget): Promise<boolean>;
+  /** Counts for the list and the given items; targets with nothing on them are left out. */
+  getEngagement(listId: string, itemIds: string[], viewerId: string): Promise<Engagement[]>;
+
+  /** The owner's type named `name`, ignoring case. */
+  getCustomListType(ownerId: string, name: string): Promise<CustomListType | null>;
+  getCustomListTypes(ownerId: string): Promise<CustomListType[]>;
+  /** Creates the type, or replaces the label and fields of the owner's type with that name. */
+  saveCustomListType(params: {
+    ownerId: string;
+    name: string;
+    label: string;
+    fields: ListTypeField[];
+  }): Promise<CustomListType>;
+  deleteCustomListType(ownerId: string, name: string): Promise<boolean>;
+
+  /** False when the follow already existed. */
+  followUser(followerId: string, followeeId: string): Promise<boolean>;
+  unfollowUser(followerId: string, followeeId: string): Promise<void>;
+  getFollowStats(userId: string, viewerId: string): Promise<FollowStats>;
+  getFeed(params: {
+    followerId: string;
+    cursor?: FeedCursor | null;
+    limit: number;
+  }): Promise<FeedEntry[]>;
+
+  recordListEvent(params: {
+    listId: string;
+    itemId?: string | null;
+    actorId: string;
+    action: ListEventAction;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+    revertsEventId?: string | null;
+  }): Promise<string>;
+  /** Newest first. */
+  getListHistory(listId: string, page?: PageParams): Promise<ListEvent[]>;
+  /**
+   * The actor's newest entry on the list that hasn't been undone and can be: undo entries,
+   * removed bookmarks and entries about purged items are skipped.
+   */
+  findUndoableEvent(listId: string, actorId: string): Promise<ListEvent | null>;
+
+  /**
+   * Notifies each user of the actor's event, except users who muted the type. A `list_edit`
+   * bumps the count of the user's unread notification for the same actor and list instead.
+   */
+  notify(params: {
+    userIds: string[];
+    actorId: string;
+    type: NotificationType;
+    listId?: string | null;
+    itemId?: string | null;
+  }): Promise<void>;
+  /** Newest first. */
+  getNotifications(userId: string, unreadOnly: boolean, page?: PageParams): Promise<NotificationRow[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  /** Marks the given notifications read, or all of them when `notificationIds` is null. */
+  markNotificationsRead(userId: string, notificationIds: string[] | null): Promise<number>;
+  getMutedNotificationTypes(userId: string): Promise<NotificationType[]>;
+  setMutedNotificationTypes(userId: string, types: NotificationType[]): Promise<void>;
+
+  /**
+   * Rebuilds the co-save and popularity tables that recommendations read; it runs on a schedule,
+   * so recommendations lag new bookmarks until the next refresh.
+   */
+  refreshRecommendations(): Promise<void>;
+  /**
+   * Items in live public lists, most co-saved with the seeds first, then those of the preferred
+   * types, then the most saved. Leaves out the seeds, the viewer's own items and items they saved
+   * or forked a copy of.
+   */
+  recommendItems(params: RecommendationSeeds): Promise<RecommendedItem[]>;
+  /** Live public lists ranked like `recommendItems`, without the viewer's own lists and forks. */
+  recommendLists(params: RecommendationSeeds): Promise<RecommendedList[]>;
+  /**
+   * People the viewer saved items from most, then those with public lists of the preferred
+   * types, then the most saved. Leaves out the viewer and people they follow.
+   */
+  recommendUsers(params: { viewerId: string; types: string[]; limit: number }): Promise<RecommendedUser[]>;
+
+  /** Stores a personal access token by its hash; the token itself is never persisted. */
+  createAccessToken(params: {
+    userId: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: string[];
+    expiresAt: string | null;
+  }): Promise<AccessTokenRow>;
+  /** The user's unrevoked tokens, including expired ones, newest first. */
+  listAccessTokens(userId: string): Promise<AccessTokenRow[]>;
+  revokeAccessToken(tokenId: string, userId: string): Promise<boolean>;
+  /** Finds an unrevoked, unexpired token by hash and records that it was used. */
+  resolveAccessToken(tokenHash: string): Promise<{ token: AccessTokenRow; user: DbUser } | null>;
+
+  searchLists(queryText: string, filters: ContentSearchFilters): Promise<ListSearchResult[]>;
+  searchItems(queryText: string, filters: ContentSearchFilters): Promise<ItemSearchResult[]>;
+}
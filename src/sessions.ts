@@ -0,0 +1,85 @@
+import type { IncomingMessage } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { AuthError, credentialFingerprint, getAuthContext } from "./auth.js";
+import type { AuthContext } from "./auth.js";
+import type { Repository } from "./repository.js";
+
+export type McpSession = {
+  id: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  auth: AuthContext;
+  fingerprint: string;
+  /** Address of the latest request, so per-IP budgets follow a client that moves. */
+  clientIp: string | null;
+  lastSeenAt: number;
+};
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
+
+/**
+ * Live MCP sessions keyed by their `Mcp-Session-Id`. Sessions idle for longer than
+ * `idleTimeoutMs` are closed by `sweep`.
+ */
+export function createSessionStore(options: { idleTimeoutMs: number }) {
+  const sessions = new Map<string, McpSession>();
+
+  const close = async (id: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    await session.server.close().catch((error) => console.error("Closing MCP session failed", error));
+  };
+
+  return {
+    get(id: string) {
+      const session = sessions.get(id);
+      if (session) session.lastSeenAt = Date.now();
+      return session ?? null;
+    },
+    add(session: McpSession) {
+      sessions.set(session.id, session);
+    },
+    /** Forgets a session the transport already closed. */
+    remove(id: string) {
+      sessions.delete(id);
+    },
+    close,
+    async sweep(now = Date.now()) {
+      const idle = [...sessions.values()].filter(
+        (session) => now - session.lastSeenAt > options.idleTimeoutMs
+      );
+      await Promise.all(idle.map((session) => close(session.id)));
+      return idle.length;
+    },
+    async closeAll() {
+      await Promise.all([...sessions.keys()].map(close));
+    },
+    get size() {
+      return sessions.size;
+    },
+  };
+}
+
+/**
+ * Re-runs authentication when the request carries different credentials than the ones the
+ * session was opened with, or when those have expired. A session never changes user.
+ */
+export async function revalidateSession(
+  session: McpSession,
+  req: IncomingMessage,
+  repo: Pick<Repository, "resolveAccessToken">
+) {
+  const fingerprint = credentialFingerprint(req);
+  const expired = session.auth.expiresAt != null && session.auth.expiresAt <= Date.now();
+  if (fingerprint === session.fingerprint && !expired) {
+    return;
+  }
+  const auth = await getAuthContext(req, repo);
+  if (auth.authProviderId !== session.auth.authProviderId) {
+    throw new AuthError("Session belongs to a different user", 403);
+  }
+  session.auth = auth;
+  session.fingerprint = fingerprint;
+}
@@ -0,0 +1,13 @@
+export const TAG_MAX_LENGTH = 40;
+
+export const MAX_ITEM_TAGS = 10;
+
+/** Tags compare case-insensitively: "#Date  Night" is stored as "date night". */
+export function normalizeTag(tag: string) {
+  return tag.trim().replace(/^#+/, "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Normalized, without blanks or duplicates, sorted so equal sets compare equal. */
+export function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0))].sort();
+}
@@ -0,0 +1,409 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import http from "node:http";
+import https from "node:https";
+
+export type LinkPreview = {
+  site_name: string | null;
+  title: string | null;
+  description: string | null;
+  canonical_url: string | null;
+  image_url: string | null;
+};
+
+export type UnfurlOptions = {
+  timeoutMs: number;
+  maxBytes: number;
+  maxRedirects: number;
+  allowPrivateNetworks: boolean;
+  cacheTtlMs: number;
+  failureTtlMs: number;
+  cacheSize: number;
+  userAgent: string;
+};
+
+export class UnfurlError extends Error {}
+
+const TITLE_MAX = 160;
+const DESCRIPTION_MAX = 500;
+
+const defaultOptions: UnfurlOptions = {
+  timeoutMs: 4000,
+  maxBytes: 512 * 1024,
+  maxRedirects: 3,
+  allowPrivateNetworks: false,
+  cacheTtlMs: 24 * 60 * 60 * 1000,
+  failureTtlMs: 10 * 60 * 1000,
+  cacheSize: 500,
+  userAgent: "A-Lister/0.1 (link preview)",
+};
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges. Metadata endpoints such
+// as 169.254.169.254 fall inside link-local.
+const blockedAddresses = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, "ipv6"));
+
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPublicAddress(mapped[1]);
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+async function resolveTarget(url: URL, options: UnfurlOptions) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new UnfurlError("Only http and https links can be previewed.");
+  }
+  if (url.username || url.password) {
+    throw new UnfurlError("Links with credentials can't be previewed.");
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [{ address: hostname }]
+    : await lookup(hostname, { all: true, verbatim: true });
+  if (addresses.length === 0) {
+    throw new UnfurlError("Link host did not resolve.");
+  }
+  if (!options.allowPrivateNetworks && addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new UnfurlError("Link points at a private network address.");
+  }
+  // Connect to the address we checked so a second DNS answer can't swap in a private one.
+  return { hostname, address: addresses[0].address };
+}
+
+type FetchedResource = {
+  url: URL;
+  contentType: string;
+  body: Buffer;
+};
+
+function requestOnce(
+  url: URL,
+  address: string,
+  hostname: string,
+  options: UnfurlOptions,
+  deadline: number,
+  maxBytes: number
+): Promise<{ status: number; location: string | null; contentType: string; body: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.request(
+      {
+        protocol: url.protocol,
+        host: address,
+        port: url.port || undefined,
+        path: `${url.pathname}${url.search}`,
+        method: "GET",
+        servername: isIP(hostname) ? undefined : hostname,
+        headers: {
+          host: url.host,
+          "user-agent": options.userAgent,
+          accept: "text/html,application/xhtml+xml,application/json;q=0.9,image/*;q=0.8,*/*;q=0.5",
+          "accept-encoding": "identity",
+        },
+        agent: false,
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        const location = typeof res.headers.location === "string" ? res.headers.location : null;
+        const contentType = String(res.headers["content-type"] ?? "").toLowerCase();
+        if (status >= 300 && status < 400) {
+          res.resume();
+          resolve({ status, location, contentType, body: Buffer.alloc(0) });
+          return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const finish = () => resolve({ status, location, contentType, body: Buffer.concat(chunks) });
+        res.on("data", (chunk: Buffer) => {
+          const room = maxBytes - size;
+          chunks.push(chunk.length > room ? chunk.subarray(0, room) : chunk);
+          size += Math.min(chunk.length, room);
+          if (size >= maxBytes) {
+            // Page metadata lives in <head>; keep what we have and stop downloading.
+            res.destroy();
+            finish();
+          }
+        });
+        res.on("end", finish);
+        res.on("error", reject);
+      }
+    );
+    const timer = setTimeout(
+      () => req.destroy(new UnfurlError("Link preview timed out.")),
+      Math.max(0, deadline - Date.now())
+    );
+    req.on("close", () => clearTimeout(timer));
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+async function fetchResource(
+  target: string,
+  options: UnfurlOptions,
+  maxBytes = options.maxBytes
+): Promise<FetchedResource> {
+  const deadline = Date.now() + options.timeoutMs;
+  let url = new URL(target);
+  for (let redirects = 0; ; redirects += 1) {
+    const { hostname, address } = await resolveTarget(url, options);
+    const response = await requestOnce(url, address, hostname, options, deadline, maxBytes);
+    if (response.status >= 300 && response.status < 400 && response.location) {
+      if (redirects >= options.maxRedirects) {
+        throw new UnfurlError("Link redirected too many times.");
+      }
+      url = new URL(response.location, url);
+      continue;
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new UnfurlError(`Link responded with HTTP ${response.status}.`);
+    }
+    return { url, contentType: response.contentType, body: response.body };
+  }
+}
+
+function decodeBody(resource: FetchedResource): string {
+  const charset = resource.contentType.match(/charset=["']?([\w-]+)/)?.[1] ?? "utf-8";
+  try {
+    return new TextDecoder(charset).decode(resource.body);
+  } catch {
+    return new TextDecoder("utf-8").decode(resource.body);
+  }
+}
+
+const namedEntities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return namedEntities[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  for (const match of tag.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+function clean(value: string | null | undefined, max: number): string | null {
+  const text = value?.replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function absoluteUrl(value: string | null | undefined, base: URL): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+type PageMetadata = {
+  meta: Record<string, string>;
+  title: string | null;
+  canonical: string | null;
+  oembed: string | null;
+};
+
+function parseHtml(html: string): PageMetadata {
+  const head = html.split(/<\/head\s*>/i)[0];
+  const meta: Record<string, string> = {};
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    if (key && attributes.content && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+  let canonical: string | null = null;
+  let oembed: string | null = null;
+  for (const [tag] of head.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const rel = attributes.rel?.toLowerCase().split(/\s+/) ?? [];
+    if (rel.includes("canonical") && !canonical) {
+      canonical = attributes.href ?? null;
+    }
+    if (
+      rel.includes("alternate") &&
+      attributes.type?.toLowerCase() === "application/json+oembed" &&
+      !oembed
+    ) {
+      oembed = attributes.href ?? null;
+    }
+  }
+  const title = head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return { meta, title: title ? decodeEntities(title) : null, canonical, oembed };
+}
+
+async function fetchOembed(href: string, options: UnfurlOptions) {
+  try {
+    const resource = await fetchResource(href, options, 64 * 1024);
+    const data = JSON.parse(decodeBody(resource)) as Record<string, unknown>;
+    const text = (key: string) => (typeof data[key] === "string" ? (data[key] as string) : null);
+    return {
+      title: text("title"),
+      siteName: text("provider_name"),
+      imageUrl: text("thumbnail_url"),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchLinkPreview(
+  target: string,
+  overrides: Partial<UnfurlOptions> = {}
+): Promise<LinkPreview | null> {
+  const options = { ...defaultOptions, ...overrides };
+  const resource = await fetchResource(target, options);
+  if (resource.contentType.startsWith("image/")) {
+    return {
+      site_name: resource.url.hostname,
+      title: null,
+      description: null,
+      canonical_url: resource.url.toString(),
+      image_url: resource.url.toString(),
+    };
+  }
+  if (!resource.contentType.includes("html")) {
+    return null;
+  }
+
+  const page = parseHtml(decodeBody(resource));
+  const { meta } = page;
+  let title = meta["og:title"] ?? meta["twitter:title"] ?? page.title;
+  let siteName = meta["og:site_name"] ?? meta["application-name"] ?? null;
+  let image =
+    meta["og:image:secure_url"] ?? meta["og:image"] ?? meta["twitter:image"] ?? meta["twitter:image:src"];
+  const oembedUrl = absoluteUrl(page.oembed, resource.url);
+  if (oembedUrl && (!title || !image || !siteName)) {
+    const oembed = await fetchOembed(oembedUrl, options);
+    title = title ?? oembed?.title ?? null;
+    siteName = siteName ?? oembed?.siteName ?? null;
+    image = image ?? oembed?.imageUrl ?? undefined;
+  }
+
+  return {
+    site_name: clean(siteName ?? resource.url.hostname.replace(/^www\./, ""), TITLE_MAX),
+    title: clean(title, TITLE_MAX),
+    description: clean(
+      meta["og:description"] ?? meta["twitter:description"] ?? meta.description,
+      DESCRIPTION_MAX
+    ),
+    canonical_url:
+      absoluteUrl(meta["og:url"] ?? page.canonical, resource.url) ?? resource.url.toString(),
+    image_url: absoluteUrl(image, resource.url),
+  };
+}
+
+type CacheEntry = { expiresAt: number; value: Promise<LinkPreview | null> };
+
+export function createLinkUnfurler(overrides: Partial<UnfurlOptions> = {}) {
+  const options = { ...defaultOptions, ...overrides };
+  const cache = new Map<string, CacheEntry>();
+
+  const remember = (url: string, value: Promise<LinkPreview | null>, ttlMs: number) => {
+    cache.delete(url);
+    cache.set(url, { expiresAt: Date.now() + ttlMs, value });
+    while (cache.size > options.cacheSize) {
+      const oldest = cache.keys().next().value as string;
+      cache.delete(oldest);
+    }
+  };
+
+  return {
+    // Never throws: a link we can't preview just gets no card.
+    async unfurl(url: string): Promise<LinkPreview | null> {
+      const cached = cache.get(url);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.value;
+      }
+      const pending = fetchLinkPreview(url, options).catch(() => {
+        remember(url, Promise.resolve(null), options.failureTtlMs);
+        return null;
+      });
+      remember(url, pending, options.cacheTtlMs);
+      return pending;
+    },
+    clearCache() {
+      cache.clear();
+    },
+  };
+}
+
+const linkUnfurler = createLinkUnfurler({
+  timeoutMs: Number(process.env.UNFURL_TIMEOUT_MS ?? defaultOptions.timeoutMs),
+  maxBytes: Number(process.env.UNFURL_MAX_BYTES ?? defaultOptions.maxBytes),
+  allowPrivateNetworks: process.env.UNFURL_ALLOW_PRIVATE_NETWORKS === "true",
+});
+
+export function unfurlLink(url: string) {
+  return linkUnfurler.unfurl(url);
+}
+
+// Batch tools unfurl this many links at a time, so one call can't start a burst of fetches.
+export const BATCH_UNFURL_CONCURRENCY = 4;
+
+/**
+ * Previews in input order, fetched `concurrency` at a time. An undefined url stays undefined
+ * (the field was left out); an empty one gets null.
+ */
+export async function unfurlBatch(
+  urls: (string | null | undefined)[],
+  unfurl: (url: string) => Promise<LinkPreview | null>,
+  concurrency = BATCH_UNFURL_CONCURRENCY
+): Promise<(LinkPreview | null | undefined)[]> {
+  const previews: (LinkPreview | null | undefined)[] = urls.map((url) =>
+    url === undefined ? undefined : null
+  );
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const index = next++;
+      const url = urls[index];
+      if (url) previews[index] = await unfurl(url);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
+  return previews;
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createMemoryRateLimitStore, createRateLimiter, RateLimitError } from "../src/rateLimit.js";
+
+const budgets = {
+  request: null,
+  read: { capacity: 3, refillPerSecond: 1 },
+  write: { capacity: 1, refillPerSecond: 0.1 },
+};
+
+describe("rate limiter", () => {
+  it("allows a burst, then refills over time", async () => {
+    let now = 0;
+    const limiter = createRateLimiter({ store: createMemoryRateLimitStore(), budgets, now: () => now });
+    for (let call = 0; call < 3; call += 1) {
+      await limiter.check("read", ["user:a"]);
+    }
+    await assert.rejects(limiter.check("read", ["user:a"]), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.status, 429);
+      assert.equal(error.retryAfterSeconds, 1);
+      return true;
+    });
+    now = 1500;
+    await limiter.check("read", ["user:a"]);
+  });
+
+  it("keeps budgets and keys apart", async () => {
+    const limiter = createRateLimiter({ store: createMemoryRateLimitStore(), budgets, now: () => 0 });
+    await limiter.check("write", ["user:a", "ip:1.2.3.4"]);
+    await assert.rejects(limiter.check("write", ["user:a"]), /Try again in 10 seconds/);
+    // Another user from the same address still runs into the address's budget.
+    await assert.rejects(limiter.check("write", ["user:b", "ip:1.2.3.4"]), RateLimitError);
+    await limiter.check("write", ["user:c"]);
+    await limiter.check("read", ["user:a"]);
+    // Budgets set to null aren't limited.
+    for (let call = 0; call < 10; call += 1) {
+      await limiter.check("request", ["ip:1.2.3.4"]);
+    }
+  });
+
+  it("prunes buckets that haven't been used", async () => {
+    let now = 0;
+    const limiter = createRateLimiter({ store: createMemoryRateLimitStore(), budgets, now: () => now });
+    await limiter.check("write", ["user:a"]);
+    now = 5000;
+    await limiter.prune(1000);
+    await limiter.check("write", ["user:a"]);
+  });
+});
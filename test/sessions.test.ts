@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import type { IncomingMessage } from "node:http";
+import { describe, it } from "node:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { credentialFingerprint, SCOPES } from "../src/auth.js";
+import { createMemoryRepository } from "../src/memoryRepository.js";
+import { createSessionStore, revalidateSession } from "../src/sessions.js";
+import type { McpSession } from "../src/sessions.js";
+
+function request(headers: Record<string, string>) {
+  return { headers } as unknown as IncomingMessage;
+}
+
+function createSession(id: string, req: IncomingMessage, lastSeenAt = Date.now()): McpSession {
+  return {
+    id,
+    server: new McpServer({ name: "test", version: "0.0.0" }),
+    transport: new StreamableHTTPServerTransport({ sessionIdGenerator: () => id }),
+    auth: {
+      authProviderId: req.headers["x-user-id"] as string,
+      handle: "someone",
+      scopes: [...SCOPES],
+    },
+    fingerprint: credentialFingerprint(req),
+    clientIp: null,
+    lastSeenAt,
+  };
+}
+
+describe("session store", () => {
+  it("closes sessions that have been idle too long", async () => {
+    const store = createSessionStore({ idleTimeoutMs: 1000 });
+    const now = Date.now();
+    store.add(createSession("stale", request({ "x-user-id": "a" }), now - 5000));
+    store.add(createSession("fresh", request({ "x-user-id": "a" }), now));
+
+    assert.equal(await store.sweep(now), 1);
+    assert.equal(store.get("stale"), null);
+    assert.ok(store.get("fresh"));
+    assert.equal(store.size, 1);
+  });
+});
+
+describe("revalidateSession", () => {
+  it("accepts new credentials for the same user and refuses a different user", async () => {
+    const repo = createMemoryRepository();
+    const session = createSession("s1", request({ "x-user-id": "user-1", "x-user-handle": "old" }));
+    const original = session.auth;
+
+    const same = request({ "x-user-id": "user-1", "x-user-handle": "old" });
+    await revalidateSession(session, same, repo);
+    assert.equal(session.auth, original);
+
+    const renamed = request({ "x-user-id": "user-1", "x-user-handle": "renamed" });
+    await revalidateSession(session, renamed, repo);
+    assert.equal(session.auth.handle, "renamed");
+
+    await assert.rejects(
+      revalidateSession(session, request({ "x-user-id": "user-2" }), repo),
+      /different user/
+    );
+    assert.equal(session.auth.authProviderId, "user-1");
+  });
+});
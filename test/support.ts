@@ -0,0 +1,176 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { SCOPES } from "../src/auth.js";
+import type { AuthContext } from "../src/auth.js";
+import { createMcpServer } from "../src/mcpServer.js";
+import type { McpServerOptions } from "../src/mcpServer.js";
+import type { Repository } from "../src/repository.js";
+import type { LinkPreview } from "../src/unfurl.js";
+
+// The parts of tool results the tests read. Fields only some tools fill are optional.
+export type ReactionView = { emoji: string; count: number; viewer_reacted: boolean };
+
+export type ItemView = {
+  id: string;
+  title: string;
+  note: string | null;
+  attributes: Record<string, unknown>;
+  tags: string[];
+  link_preview: LinkPreview | null;
+  source_item_id: string | null;
+  source_user_handle: string | null;
+  save_count: number;
+  viewer_saved: boolean;
+  average_rating: number | null;
+  rating_count: number;
+  viewer_rating: number | null;
+  viewer_review: string | null;
+  comment_count: number;
+  reactions: ReactionView[];
+};
+
+export type ListSummaryView = {
+  id: string;
+  owner_id: string;
+  title: string;
+  type: string;
+  share_token: string | null;
+  share_url: string | null;
+  forked_from_list_id: string | null;
+  fork_count: number;
+  average_rating: number | null;
+  item_count?: number;
+};
+
+export type SearchResultsView = {
+  highlight: { start: string; stop: string };
+  nextCursor?: string | null;
+  users?: { handle: string }[];
+  lists?: { title: string }[];
+  items?: { note_highlight: string | null }[];
+  recommendations?: {
+    items: { id: string; title: string; co_saves: number; owner_handle: string }[];
+    lists: { id: string }[];
+    users: { handle: string; savedFrom: number }[];
+  };
+  tagged?: { items: { title: string }[] };
+};
+
+export type ListView = {
+  mode: string;
+  viewer: { id: string; handle: string; unreadNotifications: number };
+  lists: ListSummaryView[];
+  listsNextCursor: string | null;
+  invites: { list_id: string }[];
+  viewerTags: { tag: string; count: number }[];
+  selectedList: ListSummaryView | null;
+  selectedListType: { name: string; label: string; fields: unknown[] } | null;
+  viewerRole: string | null;
+  members: { handle: string; role: string }[] | null;
+  itemsActive: ItemView[];
+  itemsDone: ItemView[];
+  itemsCursor?: string | null;
+  itemsNextCursor?: { active: string | null; done: string | null };
+  itemSort?: string;
+  itemTag?: string | null;
+  listEngagement?: { comment_count: number; reactions: ReactionView[] };
+  profileUser: {
+    displayName: string | null;
+    avatarUrl: string | null;
+    bio: string | null;
+    followerCount: number;
+    viewerFollows: boolean;
+  } | null;
+  profileLists: ListSummaryView[] | null;
+  profileListsNextCursor?: string | null;
+  profileTopRated: { title: string; rating: number }[] | null;
+  searchResults: SearchResultsView | null;
+  feed?: { entries: { kind: string; item_title: string | null }[]; nextCursor: string | null };
+  trash?: { archived: ListSummaryView[]; lists: ListSummaryView[] };
+};
+
+export type CommentView = {
+  id: string;
+  body: string | null;
+  author_handle: string;
+  edited: boolean;
+  deleted: boolean;
+  hidden: boolean;
+  replies: CommentView[];
+};
+
+export type ToolPayload = {
+  view: ListView;
+  effects?: Record<string, unknown>;
+  history?: {
+    entries: { action: string; description: string; before: Record<string, unknown> | null }[];
+    nextCursor: string | null;
+  };
+  comments?: { threads: CommentView[] };
+  notifications?: { entries: { id: string; description: string }[]; unreadCount: number; mutedTypes: string[] };
+  importPreview?: { total: number; doneCount: number };
+  export?: { content: string };
+  accessToken?: { id: string; token: string };
+  accessTokens?: { id: string; token?: string; token_prefix: string }[];
+  listTypes?: { name: string; custom: boolean }[];
+  tags?: { tag: string; count: number }[];
+};
+
+export class ToolCallError extends Error {}
+
+export const calledTools = new Set<string>();
+
+export function fakeUnfurl(url: string): Promise<LinkPreview | null> {
+  return Promise.resolve({
+    site_name: "example.com",
+    title: `Preview of ${new URL(url).pathname}`,
+    description: "A page used in tests.",
+    canonical_url: url,
+    image_url: null,
+  });
+}
+
+/**
+ * Connects an MCP client, authenticated as `handle` with every scope, to a server backed by `repo`.
+ */
+export function connectAs(repo: Repository, handle: string) {
+  return connectWith(repo, {
+    authProviderId: `test-${handle}`,
+    handle,
+    displayName: handle,
+    scopes: [...SCOPES],
+  });
+}
+
+export async function connectWith(repo: Repository, auth: AuthContext, options: McpServerOptions = {}) {
+  const server = createMcpServer(auth, repo, { unfurl: fakeUnfurl, ...options });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "a-lister-tests", version: "0.0.0" });
+  await client.connect(clientTransport);
+
+  const call = async (name: string, args: Record<string, unknown> = {}): Promise<ToolPayload> => {
+    calledTools.add(name);
+    const result = await client.callTool({ name, arguments: args });
+    if (result.isError) {
+      const [first] = result.content as { type: string; text?: string }[];
+      throw new ToolCallError(first?.text ?? "Tool failed");
+    }
+    return result.structuredContent as ToolPayload;
+  };
+
+  const text = async (name: string, args: Record<string, unknown> = {}) => {
+    calledTools.add(name);
+    const result = await client.callTool({ name, arguments: args });
+    const [first] = result.content as { type: string; text?: string }[];
+    return first?.text ?? "";
+  };
+
+  return { client, call, text, close: () => client.close() };
+}
+
+export type Session = Awaited<ReturnType<typeof connectWith>>;
+
+export function titles(items: { title: string }[]) {
+  return items.map((item) => item.title);
+}
@@ -0,0 +1,1070 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createMemoryRepository } from "../src/memoryRepository.js";
+import type { Repository } from "../src/repository.js";
+import type { IncomingMessage } from "node:http";
+import { getAuthContext, SCOPES } from "../src/auth.js";
+import { syncAllForks } from "../src/forks.js";
+import { createMemoryRateLimitStore, createRateLimiter } from "../src/rateLimit.js";
+import { calledTools, connectAs, connectWith, titles, ToolCallError } from "./support.js";
+import type { Session } from "./support.js";
+
+let repo: Repository;
+let alice: Session;
+let bob: Session;
+let carol: Session;
+
+async function createList(session: Session, title: string, extra: Record<string, unknown> = {}) {
+  const { effects } = await session.call("create_list", { title, type: "movies", ...extra });
+  return effects!.lastCreatedListId as string;
+}
+
+async function addItem(session: Session, listId: string, title: string, extra = {}) {
+  const { effects } = await session.call("add_item", { list_id: listId, title, ...extra });
+  return effects!.lastAddedItemId as string;
+}
+
+async function userId(session: Session) {
+  const { view } = await session.call("list_my_lists");
+  return view.viewer.id as string;
+}
+
+before(async () => {
+  repo = createMemoryRepository();
+  alice = await connectAs(repo, "alice");
+  bob = await connectAs(repo, "bob");
+  carol = await connectAs(repo, "carol");
+});
+
+after(async () => {
+  await Promise.all([alice.close(), bob.close(), carol.close()]);
+});
+
+describe("lists", () => {
+  it("creates, lists and updates lists", async () => {
+    const listId = await createList(alice, "Films to see");
+    const { view } = await alice.call("list_my_lists");
+    assert.equal(view.viewer.handle, "alice");
+    assert.ok(view.lists.some((list: { id: string }) => list.id === listId));
+
+    const updated = await alice.call("update_list", { list_id: listId, title: "Top films" });
+    assert.equal(updated.view.selectedList!.title, "Top films");
+
+    const fetched = await bob.call("get_list", { list_id: listId });
+    assert.equal(fetched.view.mode, "profile");
+    assert.equal(fetched.view.selectedList!.share_url, null);
+  });
+
+  it("hides private lists and reaches unlisted ones through a revocable share token", async () => {
+    const listId = await createList(alice, "Secret santa", { visibility: "private" });
+    await assert.rejects(bob.call("get_list", { list_id: listId }), /List not found/);
+
+    const { view } = await alice.call("update_list", { list_id: listId, visibility: "unlisted" });
+    const token = view.selectedList!.share_token as string;
+    assert.ok(view.selectedList!.share_url!.endsWith(`/share/${token}`));
+
+    const shared = await bob.call("open_shared_list", { share_token: token });
+    assert.equal(shared.view.selectedList!.id, listId);
+    assert.equal(shared.view.selectedList!.share_token, null);
+
+    const rotated = await alice.call("revoke_share_link", { list_id: listId });
+    assert.notEqual(rotated.view.selectedList!.share_token, token);
+    await assert.rejects(bob.call("open_shared_list", { share_token: token }), ToolCallError);
+  });
+
+  it("rejects edits from non-members", async () => {
+    const listId = await createList(alice, "Alice only");
+    await assert.rejects(addItem(bob, listId, "Intruder"), /editor access/);
+    await assert.rejects(
+      bob.call("update_list", { list_id: listId, title: "Mine now" }),
+      /your own lists/
+    );
+  });
+});
+
+describe("items", () => {
+  let listId: string;
+
+  before(async () => {
+    listId = await createList(alice, "Ranked");
+  });
+
+  it("adds, edits and completes items, newest first", async () => {
+    const first = await addItem(alice, listId, "Heat");
+    await addItem(alice, listId, "Ran", { note: "Kurosawa" });
+    await alice.call("update_item", { list_id: listId, item_id: first, note: "Mann" });
+    const { view } = await alice.call("set_item_status", {
+      list_id: listId,
+      item_id: first,
+      status: "done",
+    });
+    assert.deepEqual(titles(view.itemsActive), ["Ran"]);
+    assert.equal(view.itemsDone[0].note, "Mann");
+  });
+
+  it("takes the title and preview from the page when only a url is given", async () => {
+    const { view, effects } = await alice.call("add_item", {
+      list_id: listId,
+      url: "https://example.com/ramen",
+    });
+    const item = view.itemsActive.find((row: { id: string }) => row.id === effects!.lastAddedItemId);
+    assert.equal(item!.title, "Preview of /ramen");
+    assert.equal(item!.link_preview!.site_name, "example.com");
+    await assert.rejects(alice.call("add_item", { list_id: listId }), /title or a url/);
+  });
+
+  it("reorders items individually and in bulk", async () => {
+    const orderedList = await createList(alice, "Top three");
+    const c = await addItem(alice, orderedList, "C");
+    const b = await addItem(alice, orderedList, "B");
+    const a = await addItem(alice, orderedList, "A");
+
+    const moved = await alice.call("reorder_item", {
+      list_id: orderedList,
+      item_id: a,
+      after_item_id: c,
+    });
+    assert.deepEqual(titles(moved.view.itemsActive), ["B", "C", "A"]);
+
+    const bulk = await alice.call("set_item_order", { list_id: orderedList, item_ids: [a, b, c] });
+    assert.deepEqual(titles(bulk.view.itemsActive), ["A", "B", "C"]);
+
+    await assert.rejects(
+      alice.call("reorder_item", { list_id: orderedList, item_id: a, position: 1, after_item_id: b }),
+      /exactly one/
+    );
+  });
+});
+
+describe("members", () => {
+  it("lets invited editors change a list until they are removed", async () => {
+    const listId = await createList(alice, "Groceries", { visibility: "private" });
+    await alice.call("invite_member", { list_id: listId, handle: "bob", role: "editor" });
+
+    const pending = await bob.call("list_my_lists");
+    assert.ok(pending.view.invites.some((invite: { list_id: string }) => invite.list_id === listId));
+
+    const accepted = await bob.call("accept_invite", { list_id: listId });
+    assert.equal(accepted.view.viewerRole, "editor");
+    await addItem(bob, listId, "Milk");
+
+    const { view } = await alice.call("get_list", { list_id: listId });
+    assert.deepEqual(
+      view.members!.map((member: { handle: string; role: string }) => `${member.handle}:${member.role}`),
+      ["alice:owner", "bob:editor"]
+    );
+
+    await alice.call("remove_member", { list_id: listId, user_id: await userId(bob) });
+    await assert.rejects(addItem(bob, listId, "Eggs"), /List not found/);
+  });
+});
+
+describe("trash", () => {
+  it("soft deletes, archives and restores", async () => {
+    const listId = await createList(alice, "Temporary");
+    const itemId = await addItem(alice, listId, "Oops");
+
+    const deleted = await alice.call("delete_item", { list_id: listId, item_id: itemId });
+    assert.deepEqual(deleted.effects!.lastDeleted, { kind: "item", id: itemId, listId });
+    assert.equal(deleted.view.itemsActive.length, 0);
+
+    const restored = await alice.call("restore", { item_id: itemId });
+    assert.deepEqual(titles(restored.view.itemsActive), ["Oops"]);
+
+    await alice.call("archive_list", { list_id: listId });
+    let trash = await alice.call("get_trash");
+    assert.ok(trash.view.trash!.archived.some((list: { id: string }) => list.id === listId));
+    await alice.call("restore", { list_id: listId });
+
+    const gone = await alice.call("delete_list", { list_id: listId });
+    assert.ok(!gone.view.lists.some((list: { id: string }) => list.id === listId));
+    trash = await alice.call("get_trash");
+    assert.equal(trash.view.trash!.lists.find((list: { id: string }) => list.id === listId)!.item_count, 1);
+
+    await alice.call("restore", { list_id: listId });
+    await assert.rejects(alice.call("restore", { list_id: listId }), /not in the trash/);
+  });
+});
+
+describe("import and export", () => {
+  it("previews, imports and round-trips a list", async () => {
+    const csv = "title,note,url,status\nDune,,https://example.com/dune,done\nArrival,Villeneuve,,active";
+    const preview = await alice.call("import_list", {
+      format: "csv",
+      content: csv,
+      title: "Sci-fi",
+      dry_run: true,
+    });
+    assert.equal(preview.importPreview!.total, 2);
+    assert.equal(preview.importPreview!.doneCount, 1);
+
+    const imported = await alice.call("import_list", { format: "csv", content: csv, title: "Sci-fi" });
+    const listId = imported.effects!.lastCreatedListId as string;
+    assert.deepEqual(titles(imported.view.itemsActive), ["Arrival"]);
+    assert.deepEqual(titles(imported.view.itemsDone), ["Dune"]);
+
+    const exported = await alice.call("export_list", { list_id: listId, format: "json" });
+    const document = JSON.parse(exported.export!.content);
+    assert.equal(document.format, "a-lister.list");
+    assert.equal(document.items.length, 2);
+
+    const copy = await alice.call("import_list", { format: "json", content: exported.export!.content });
+    assert.equal(copy.view.selectedList!.title, "Sci-fi");
+  });
+});
+
+describe("bookmarks", () => {
+  it("copies items with provenance, once, and removes the copy on unbookmark", async () => {
+    const listId = await createList(alice, "Ramen spots", { type: "places" });
+    const itemId = await addItem(alice, listId, "Ivan Ramen");
+
+    await bob.call("bookmark_item", { source_item_id: itemId });
+    const again = await bob.text("bookmark_item", { source_item_id: itemId });
+    assert.equal(again, "You already saved this item.");
+
+    const mine = await bob.call("list_my_lists");
+    const places = mine.view.lists.find((list: { type: string }) => list.type === "places");
+    const { view } = await bob.call("get_list", { list_id: places!.id });
+    assert.equal(view.itemsActive[0].source_user_handle, "alice");
+    assert.equal(view.itemsActive[0].source_item_id, itemId);
+
+    const source = await carol.call("get_list", { list_id: listId });
+    assert.equal(source.view.itemsActive[0].save_count, 1);
+
+    const removed = await bob.call("unbookmark_item", { source_item_id: itemId, viewing_list_id: listId });
+    assert.equal(removed.view.itemsActive[0].viewer_saved, false);
+    assert.equal(removed.view.itemsActive[0].save_count, 0);
+
+    const { history } = await bob.call("get_history", { list_id: places!.id });
+    assert.deepEqual(
+      history!.entries.map((entry: { description: string }) => entry.description),
+      ['removed the saved copy of "Ivan Ramen"', "added an item"]
+    );
+    await assert.rejects(bob.call("undo_last_change", { list_id: places!.id }), /no changes to undo/);
+  });
+});
+
+describe("search and profiles", () => {
+  it("finds users, public lists and items with highlighting", async () => {
+    const listId = await createList(alice, "Noodle bars", { type: "places" });
+    await addItem(alice, listId, "Tonkotsu ramen counter", { note: "Best ramen in town" });
+    await createList(alice, "Hidden ramen", { visibility: "private" });
+
+    const users = await carol.call("search_users", { query: "ali" });
+    assert.deepEqual(
+      users.view.searchResults!.users!.map((user: { handle: string }) => user.handle),
+      ["alice"]
+    );
+
+    const { view } = await carol.call("search", { query: "ramen", kinds: ["lists", "items"] });
+    const { start, stop } = view.searchResults!.highlight;
+    assert.ok(view.searchResults!.items![0].note_highlight!.includes(`${start}ramen${stop}`));
+    assert.ok(
+      !view.searchResults!.lists!.some((list: { title: string }) => list.title === "Hidden ramen")
+    );
+  });
+
+  it("edits profiles and redirects old handles", async () => {
+    const dana = await connectAs(repo, "dana");
+    try {
+      await dana.call("update_profile", { bio: "Film nerd", handle: "dana_films" });
+      const message = await carol.text("get_user_profile", { handle: "dana" });
+      assert.equal(message, "@dana is now @dana_films.");
+      const { view } = await carol.call("get_user_profile", { handle: "dana_films" });
+      assert.equal(view.profileUser!.bio, "Film nerd");
+      await assert.rejects(carol.call("update_profile", { handle: "dana" }), /already taken/);
+
+      // The same connection sees its own change, so switching back is not a no-op.
+      const reverted = await dana.call("update_profile", { handle: "dana" });
+      assert.equal(reverted.view.viewer.handle, "dana");
+    } finally {
+      await dana.close();
+    }
+  });
+});
+
+describe("follows and feed", () => {
+  it("shows followed users' public activity, paginated", async () => {
+    const erin = await connectAs(repo, "erin");
+    try {
+      const erinId = await userId(erin);
+      const followed = await carol.call("follow_user", { user_id: erinId });
+      assert.equal(followed.view.profileUser!.followerCount, 1);
+
+      const listId = await createList(erin, "Erin's books", { type: "books" });
+      await addItem(erin, listId, "Piranesi");
+      await addItem(erin, listId, "Circe");
+      await createList(erin, "Erin's diary", { visibility: "private" });
+
+      const firstPage = await carol.call("get_feed", { limit: 2 });
+      assert.deepEqual(
+        firstPage.view.feed!.entries.map((entry: { kind: string; item_title: string | null }) =>
+          entry.item_title ?? entry.kind
+        ),
+        ["Circe", "Piranesi"]
+      );
+      const secondPage = await carol.call("get_feed", {
+        limit: 2,
+        cursor: firstPage.view.feed!.nextCursor,
+      });
+      assert.deepEqual(
+        secondPage.view.feed!.entries.map((entry: { kind: string }) => entry.kind),
+        ["list_created"]
+      );
+      assert.equal(secondPage.view.feed!.nextCursor, null);
+
+      const unfollowed = await carol.call("unfollow_user", { user_id: erinId });
+      assert.equal(unfollowed.view.profileUser!.viewerFollows, false);
+    } finally {
+      await erin.close();
+    }
+  });
+});
+
+describe("pagination", () => {
+  it("pages through a list section with keyset cursors", async () => {
+    const listId = await createList(alice, "Long list");
+    for (const title of ["E", "D", "C", "B", "A"]) {
+      await addItem(alice, listId, title);
+    }
+    const done = await addItem(alice, listId, "Done already");
+    await alice.call("set_item_status", { list_id: listId, item_id: done, status: "done" });
+
+    const first = await bob.call("get_list", { list_id: listId, limit: 2 });
+    assert.deepEqual(titles(first.view.itemsActive), ["A", "B"]);
+    assert.deepEqual(titles(first.view.itemsDone), ["Done already"]);
+    assert.equal(first.view.itemsNextCursor!.done, null);
+
+    const seen = titles(first.view.itemsActive);
+    let cursor = first.view.itemsNextCursor!.active;
+    while (cursor) {
+      const { view } = await bob.call("get_list", { list_id: listId, limit: 2, cursor });
+      assert.equal(view.itemsCursor, cursor);
+      assert.deepEqual(view.itemsDone, []);
+      seen.push(...titles(view.itemsActive));
+      cursor = view.itemsNextCursor!.active;
+    }
+    assert.deepEqual(seen, ["A", "B", "C", "D", "E"]);
+
+    await assert.rejects(
+      bob.call("get_list", { list_id: listId, cursor: "not-a-cursor" }),
+      /Invalid cursor/
+    );
+  });
+
+  it("pages through profile lists, own lists and user search", async () => {
+    const frank = await connectAs(repo, "frank");
+    try {
+      for (const title of ["One", "Two", "Three"]) {
+        await createList(frank, title);
+      }
+      const frankId = await userId(frank);
+      const firstProfile = await carol.call("get_user_profile", { user_id: frankId, limit: 2 });
+      assert.deepEqual(titles(firstProfile.view.profileLists!), ["Three", "Two"]);
+      const nextProfile = await carol.call("get_user_profile", {
+        user_id: frankId,
+        limit: 2,
+        cursor: firstProfile.view.profileListsNextCursor,
+      });
+      assert.deepEqual(titles(nextProfile.view.profileLists!), ["One"]);
+      assert.equal(nextProfile.view.profileListsNextCursor, null);
+
+      const mine = await frank.call("list_my_lists", { limit: 1 });
+      const more = await frank.call("list_my_lists", { limit: 5, cursor: mine.view.listsNextCursor });
+      assert.deepEqual([...titles(mine.view.lists), ...titles(more.view.lists)], ["Three", "Two", "One"]);
+
+      const users = await carol.call("search_users", { query: "r", limit: 1 });
+      assert.equal(users.view.searchResults!.users!.length, 1);
+      const moreUsers = await carol.call("search_users", {
+        query: "r",
+        limit: 10,
+        cursor: users.view.searchResults!.nextCursor,
+      });
+      const handles = [...users.view.searchResults!.users!, ...moreUsers.view.searchResults!.users!].map(
+        (user: { handle: string }) => user.handle
+      );
+      assert.deepEqual(handles, ["frank", "erin", "carol"]);
+    } finally {
+      await frank.close();
+    }
+  });
+});
+
+describe("scopes and access tokens", () => {
+  const bearer = (token: string) =>
+    ({ headers: { authorization: `Bearer ${token}` } }) as unknown as IncomingMessage;
+
+  it("issues read-only tokens that can't write or manage tokens, until revoked", async () => {
+    const created = await alice.call("create_access_token", {
+      name: "backup script",
+      scopes: ["lists:read"],
+      expires_in_days: 30,
+    });
+    const { token, id } = created.accessToken!;
+    assert.ok(token.startsWith("alpat_"));
+    const listed = await alice.call("list_access_tokens");
+    const stored = listed.accessTokens!.find((row: { id: string }) => row.id === id);
+    assert.equal(stored!.token, undefined);
+    assert.ok(token.startsWith(stored!.token_prefix));
+
+    const auth = await getAuthContext(bearer(token), repo);
+    assert.deepEqual(auth.scopes, ["lists:read"]);
+    const script = await connectWith(repo, auth);
+    try {
+      const { view } = await script.call("list_my_lists");
+      assert.equal(view.viewer.handle, "alice");
+      await assert.rejects(script.call("create_list", { title: "Nope", type: "general" }), /lists:write/);
+      await assert.rejects(script.call("list_access_tokens"), /Sign in instead/);
+    } finally {
+      await script.close();
+    }
+
+    await alice.call("revoke_access_token", { token_id: id });
+    await assert.rejects(getAuthContext(bearer(token), repo), /revoked/);
+    await assert.rejects(getAuthContext(bearer("alpat_made-up"), repo), /Invalid/);
+  });
+
+  it("keeps the signed-in profile when a script calls with an access token", async () => {
+    const avatarUrl = "https://example.com/olga.png";
+    const olga = await connectWith(repo, {
+      authProviderId: "test-olga",
+      handle: "olga",
+      displayName: "Olga",
+      avatarUrl,
+      scopes: [...SCOPES],
+    });
+    try {
+      const { accessToken } = await olga.call("create_access_token", { name: "sync" });
+      const script = await connectWith(repo, await getAuthContext(bearer(accessToken!.token), repo));
+      try {
+        await script.call("list_my_lists");
+      } finally {
+        await script.close();
+      }
+      const { view } = await olga.call("get_user_profile", { handle: "olga" });
+      assert.equal(view.profileUser!.avatarUrl, avatarUrl);
+      assert.equal(view.profileUser!.displayName, "Olga");
+    } finally {
+      await olga.close();
+    }
+  });
+});
+
+describe("history and undo", () => {
+  it("records changes and undoes them newest first", async () => {
+    const listId = await createList(alice, "Undo me");
+    const itemId = await addItem(alice, listId, "Draft");
+    const updated = await alice.call("update_item", { list_id: listId, item_id: itemId, title: "Final" });
+    assert.deepEqual(updated.effects!.undo, { listId, message: "Item updated." });
+    await alice.call("set_item_status", { list_id: listId, item_id: itemId, status: "done" });
+
+    const { history } = await alice.call("get_history", { list_id: listId, limit: 3 });
+    assert.deepEqual(
+      history!.entries.map((entry: { description: string }) => entry.description),
+      ['marked "Final" done', 'edited "Final"', 'added "Final"']
+    );
+    assert.deepEqual(history!.entries[1].before, { title: "Draft" });
+    const older = await alice.call("get_history", { list_id: listId, cursor: history!.nextCursor });
+    assert.deepEqual(
+      older.history!.entries.map((entry: { action: string }) => entry.action),
+      ["list_created"]
+    );
+
+    let undone = await alice.call("undo_last_change", { list_id: listId });
+    assert.deepEqual(titles(undone.view.itemsActive), ["Final"]);
+    undone = await alice.call("undo_last_change", { list_id: listId });
+    assert.deepEqual(titles(undone.view.itemsActive), ["Draft"]);
+    undone = await alice.call("undo_last_change", { list_id: listId });
+    assert.deepEqual(undone.view.itemsActive, []);
+    undone = await alice.call("undo_last_change", { list_id: listId });
+    assert.ok(!undone.view.lists.some((list: { id: string }) => list.id === listId));
+    await assert.rejects(alice.call("undo_last_change", { list_id: listId }), /no changes to undo/);
+    await assert.rejects(alice.call("get_history", { list_id: listId }), /List not found/);
+  });
+
+  it("brings back deleted lists and reverts reorders", async () => {
+    const listId = await createList(alice, "Order");
+    const first = await addItem(alice, listId, "First");
+    const second = await addItem(alice, listId, "Second");
+    await alice.call("reorder_item", { list_id: listId, item_id: first, position: 0 });
+    let { view } = await alice.call("get_list", { list_id: listId });
+    assert.deepEqual(titles(view.itemsActive), ["First", "Second"]);
+
+    await alice.call("delete_list", { list_id: listId });
+    ({ view } = await alice.call("undo_last_change", { list_id: listId }));
+    assert.equal(view.selectedList!.id, listId);
+    ({ view } = await alice.call("undo_last_change", { list_id: listId }));
+    assert.deepEqual(titles(view.itemsActive), ["Second", "First"]);
+    assert.equal(view.itemsActive[0].id, second);
+  });
+
+  it("only undoes the viewer's own changes, and not over later edits", async () => {
+    const listId = await createList(alice, "Shared edits", { visibility: "private" });
+    await alice.call("invite_member", { list_id: listId, handle: "carol", role: "editor" });
+    await carol.call("accept_invite", { list_id: listId });
+    const itemId = await addItem(alice, listId, "Tea");
+    await alice.call("update_item", { list_id: listId, item_id: itemId, note: "green" });
+    await carol.call("update_item", { list_id: listId, item_id: itemId, note: "black" });
+
+    await assert.rejects(alice.call("undo_last_change", { list_id: listId }), /edited again since/);
+    const { view } = await carol.call("undo_last_change", { list_id: listId });
+    assert.equal(view.itemsActive[0].note, "green");
+    await assert.rejects(carol.call("undo_last_change", { list_id: listId }), /no changes to undo/);
+    await assert.rejects(bob.call("undo_last_change", { list_id: listId }), /List not found/);
+  });
+});
+
+describe("batches", () => {
+  it("adds, completes and edits several items with one call each", async () => {
+    const listId = await createList(alice, "Batch");
+    await addItem(alice, listId, "Existing");
+    const added = await alice.call("add_items", {
+      list_id: listId,
+      items: [{ title: "A" }, { title: "B", note: "second" }, { url: "https://example.com/c" }],
+    });
+    assert.deepEqual(titles(added.view.itemsActive), ["A", "B", "Preview of /c", "Existing"]);
+    const [a, b] = added.view.itemsActive.map((item: { id: string }) => item.id);
+    assert.equal(added.effects!.lastAddedItemId, a);
+
+    const done = await alice.call("set_items_status", { list_id: listId, item_ids: [a, b], status: "done" });
+    assert.deepEqual(titles(done.view.itemsDone), ["A", "B"]);
+    await assert.rejects(
+      alice.call("set_items_status", { list_id: listId, item_ids: [a, listId], status: "active" }),
+      new RegExp(`Items not found: ${listId}`)
+    );
+
+    const edited = await alice.call("update_items", {
+      list_id: listId,
+      items: [
+        { item_id: a, title: "Alpha" },
+        { item_id: b, note: null },
+      ],
+    });
+    assert.deepEqual(
+      edited.view.itemsDone.map((item: { title: string; note: string | null }) => [item.title, item.note]),
+      [
+        ["Alpha", null],
+        ["B", null],
+      ]
+    );
+
+    const { history } = await alice.call("get_history", { list_id: listId, limit: 3 });
+    assert.deepEqual(
+      history!.entries.map((entry: { description: string }) => entry.description),
+      ["edited 2 items", "marked 2 items done", "added 3 items"]
+    );
+    const { view } = await alice.call("undo_last_change", { list_id: listId });
+    assert.deepEqual(
+      view.itemsDone.map((item: { title: string; note: string | null }) => [item.title, item.note]),
+      [
+        ["A", null],
+        ["B", "second"],
+      ]
+    );
+  });
+
+  it("undoes a batch completely or not at all", async () => {
+    const listId = await createList(alice, "Batch conflicts", { visibility: "private" });
+    await alice.call("invite_member", { list_id: listId, handle: "bob", role: "editor" });
+    await bob.call("accept_invite", { list_id: listId });
+    const { view: added } = await alice.call("add_items", {
+      list_id: listId,
+      items: [{ title: "One" }, { title: "Two" }],
+    });
+    const [one, two] = added.itemsActive.map((item: { id: string }) => item.id);
+    await alice.call("set_items_status", { list_id: listId, item_ids: [one, two], status: "done" });
+    await bob.call("set_item_status", { list_id: listId, item_id: two, status: "active" });
+
+    await assert.rejects(alice.call("undo_last_change", { list_id: listId }), /edited again since/);
+    const { view } = await alice.call("get_list", { list_id: listId });
+    assert.deepEqual(titles(view.itemsDone), ["One"]);
+    assert.deepEqual(titles(view.itemsActive), ["Two"]);
+  });
+});
+
+describe("forks", () => {
+  it("copies a public list, counts the fork and syncs new upstream items", async () => {
+    const sourceId = await createList(carol, "Carol's classics");
+    await addItem(carol, sourceId, "Vertigo");
+    const doneId = await addItem(carol, sourceId, "Rear Window");
+    await addItem(carol, sourceId, "Psycho");
+    await carol.call("set_item_status", { list_id: sourceId, item_id: doneId, status: "done" });
+
+    const forked = await bob.call("fork_list", { list_id: sourceId });
+    const forkId = forked.effects!.lastCreatedListId as string;
+    assert.equal(forked.view.selectedList!.owner_id, await userId(bob));
+    assert.equal(forked.view.selectedList!.forked_from_list_id, sourceId);
+    assert.deepEqual(titles(forked.view.itemsActive), ["Psycho", "Vertigo", "Rear Window"]);
+
+    const { view: profile } = await alice.call("get_user_profile", { handle: "carol" });
+    const source = profile.profileLists!.find((list: { id: string }) => list.id === sourceId);
+    assert.equal(source!.fork_count, 1);
+
+    await addItem(carol, sourceId, "The Birds");
+    const [psycho] = forked.view.itemsActive.map((item: { id: string }) => item.id);
+    await bob.call("delete_item", { list_id: forkId, item_id: psycho });
+    const synced = await bob.call("sync_fork", { list_id: forkId });
+    assert.deepEqual(titles(synced.view.itemsActive), ["The Birds", "Vertigo", "Rear Window"]);
+    assert.match(await bob.text("sync_fork", { list_id: forkId, auto_sync: true }), /up to date/);
+
+    await addItem(carol, sourceId, "Rope");
+    assert.equal(await syncAllForks(repo, 2000), 1);
+    const { view } = await bob.call("get_list", { list_id: forkId });
+    assert.deepEqual(titles(view.itemsActive), ["Rope", "The Birds", "Vertigo", "Rear Window"]);
+
+    await bob.call("undo_last_change", { list_id: forkId });
+    const { view: undone } = await bob.call("get_list", { list_id: forkId });
+    assert.deepEqual(titles(undone.itemsActive), ["The Birds", "Vertigo", "Rear Window"]);
+  });
+
+  it("only forks other users' public lists", async () => {
+    const privateId = await createList(carol, "Carol's drafts", { visibility: "private" });
+    await assert.rejects(bob.call("fork_list", { list_id: privateId }), /List not found/);
+    const ownId = await createList(bob, "Bob's own");
+    await assert.rejects(bob.call("fork_list", { list_id: ownId }), /already yours/);
+    await assert.rejects(bob.call("sync_fork", { list_id: ownId }), /isn't a fork/);
+
+    const sourceId = await createList(carol, "Soon private");
+    const forkId = (await bob.call("fork_list", { list_id: sourceId, title: "Mine now" })).effects!
+      .lastCreatedListId as string;
+    await carol.call("update_list", { list_id: sourceId, visibility: "private" });
+    await assert.rejects(bob.call("sync_fork", { list_id: forkId }), /no longer available/);
+  });
+});
+
+describe("list types", () => {
+  it("validates item attributes against built-in types and undoes attribute edits", async () => {
+    const listId = await createList(alice, "Typed films");
+    const added = await alice.call("add_item", {
+      list_id: listId,
+      title: "Vertigo",
+      attributes: { year: 1958, director: "Alfred Hitchcock", rating: 4.5 },
+    });
+    assert.equal(added.view.selectedListType!.name, "movies");
+    const itemId = added.effects!.lastAddedItemId as string;
+    assert.deepEqual(added.view.itemsActive[0].attributes, {
+      year: 1958,
+      director: "Alfred Hitchcock",
+      rating: 4.5,
+    });
+    await assert.rejects(
+      alice.call("add_item", { list_id: listId, title: "Soon", attributes: { year: "soon" } }),
+      /Invalid Movies fields\. year:/
+    );
+    await assert.rejects(
+      alice.call("add_item", { list_id: listId, title: "Odd", attributes: { author: "Nobody" } }),
+      /Unrecognized key/
+    );
+
+    const updated = await alice.call("update_item", {
+      list_id: listId,
+      item_id: itemId,
+      attributes: { rating: null, year: 1959 },
+    });
+    assert.deepEqual(updated.view.itemsActive[0].attributes, { year: 1959, director: "Alfred Hitchcock" });
+    const { view } = await alice.call("undo_last_change", { list_id: listId });
+    assert.deepEqual(view.itemsActive[0].attributes, { year: 1958, director: "Alfred Hitchcock", rating: 4.5 });
+
+    const batch = await alice.call("add_items", {
+      list_id: listId,
+      items: [{ title: "Rope", attributes: { year: 1948 } }, { title: "Psycho" }],
+    });
+    const [rope] = batch.view.itemsActive;
+    const edited = await alice.call("update_items", {
+      list_id: listId,
+      items: [{ item_id: rope.id, attributes: { runtime_minutes: 80 } }],
+    });
+    assert.deepEqual(edited.view.itemsActive[0].attributes, { year: 1948, runtime_minutes: 80 });
+  });
+
+  it("lets users define their own types", async () => {
+    await assert.rejects(
+      alice.call("save_list_type", { name: "Books", fields: [] }),
+      /built-in type/
+    );
+    await alice.call("save_list_type", {
+      name: "wines",
+      label: "Wines",
+      fields: [
+        { key: "vintage", label: "Vintage", kind: "year", required: true },
+        { key: "style", label: "Style", kind: "choice", options: ["red", "white"] },
+      ],
+    });
+    const { listTypes } = await alice.call("get_list_types");
+    assert.ok(listTypes!.some((type: { name: string; custom: boolean }) => type.name === "wines" && type.custom));
+
+    const listId = await createList(alice, "Cellar", { type: "Wines" });
+    await assert.rejects(alice.call("add_item", { list_id: listId, title: "Barolo" }), /vintage: Required/);
+    await assert.rejects(
+      alice.call("add_item", { list_id: listId, title: "Barolo", attributes: { vintage: 2016, style: "rose" } }),
+      /style:/
+    );
+    const { view } = await alice.call("add_item", {
+      list_id: listId,
+      title: "Barolo",
+      attributes: { vintage: 2016, style: "red" },
+    });
+    assert.equal(view.selectedListType!.label, "Wines");
+
+    await alice.call("delete_list_type", { name: "WINES" });
+    const { view: after } = await alice.call("get_list", { list_id: listId });
+    assert.deepEqual(after.selectedListType!.fields, []);
+    assert.deepEqual(after.itemsActive[0].attributes, { vintage: 2016, style: "red" });
+    await assert.rejects(alice.call("delete_list_type", { name: "wines" }), /List type not found/);
+    const { view: profile } = await bob.call("get_user_profile", { handle: "alice" });
+    assert.equal(profile.selectedList!.id, listId);
+    assert.equal(profile.selectedListType!.name, "Wines");
+  });
+});
+
+describe("ratings", () => {
+  it("averages ratings across bookmarked copies and sorts items by rating", async () => {
+    const listId = await createList(carol, "Carol's noir");
+    const laura = await addItem(carol, listId, "Laura");
+    const gilda = await addItem(carol, listId, "Gilda");
+    const detour = await addItem(carol, listId, "Detour");
+
+    await bob.call("rate_item", { item_id: laura, rating: 4.5, review: "Tense." });
+    await alice.call("rate_item", { item_id: laura, rating: 3.5 });
+    await alice.call("rate_item", { item_id: gilda, rating: 5 });
+    const { view: copies } = await alice.call("bookmark_item", { source_item_id: detour });
+    assert.equal(copies.itemsActive[0].source_item_id, detour);
+    const rated = await alice.call("rate_item", { item_id: copies.itemsActive[0].id, rating: 2 });
+    assert.equal(rated.view.itemsActive[0].viewer_rating, 2);
+
+    const { view } = await carol.call("get_list", { list_id: listId, sort: "rating" });
+    assert.equal(view.itemSort, "rating");
+    assert.deepEqual(titles(view.itemsActive), ["Gilda", "Laura", "Detour"]);
+    assert.equal(view.itemsActive[1].average_rating, 4);
+    assert.equal(view.itemsActive[1].rating_count, 2);
+    assert.equal(view.itemsActive[2].average_rating, 2);
+
+    const first = await carol.call("get_list", { list_id: listId, sort: "rating", limit: 1 });
+    const next = await carol.call("get_list", { list_id: listId, cursor: first.view.itemsNextCursor!.active });
+    assert.deepEqual(titles(next.view.itemsActive), ["Laura", "Detour"]);
+
+    const { view: profile } = await bob.call("get_user_profile", { handle: "alice" });
+    assert.deepEqual(
+      profile.profileTopRated!.map((item: { title: string; rating: number }) => [item.title, item.rating]),
+      [
+        ["Gilda", 5],
+        ["Laura", 3.5],
+        ["Detour", 2],
+      ]
+    );
+    const { view: carolProfile } = await bob.call("get_user_profile", { handle: "carol" });
+    const summary = carolProfile.profileLists!.find((list: { id: string }) => list.id === listId);
+    assert.equal(summary!.average_rating, 3.75);
+  });
+
+  it("keeps reviews across re-ratings and clears ratings", async () => {
+    const listId = await createList(carol, "Carol's westerns");
+    const itemId = await addItem(carol, listId, "Shane");
+    await bob.call("rate_item", { item_id: itemId, rating: 4, review: "  Big sky.  " });
+    const rerated = await bob.call("rate_item", { item_id: itemId, rating: 3 });
+    assert.equal(rerated.view.itemsActive[0].viewer_rating, 3);
+    assert.equal(rerated.view.itemsActive[0].viewer_review, "Big sky.");
+
+    await assert.rejects(bob.call("rate_item", { item_id: itemId, rating: 4.25 }), ToolCallError);
+    await assert.rejects(bob.call("rate_item", { item_id: itemId, rating: 0.5 }), ToolCallError);
+    assert.equal(await bob.text("rate_item", { item_id: itemId, rating: null }), "Rating cleared.");
+    assert.equal(await bob.text("rate_item", { item_id: itemId, rating: null }), "You haven't rated this item.");
+
+    const hiddenId = await createList(carol, "Carol's secrets", { visibility: "private" });
+    const hidden = await addItem(carol, hiddenId, "Nope");
+    await assert.rejects(bob.call("rate_item", { item_id: hidden, rating: 5 }), /Item not found/);
+  });
+});
+
+describe("comments and reactions", () => {
+  it("threads replies and keeps deleted comments that still have replies", async () => {
+    const listId = await createList(carol, "Carol's picks");
+    const itemId = await addItem(carol, listId, "Heat");
+
+    const posted = await bob.call("add_comment", { list_id: listId, body: "  Great list  " });
+    const commentId = posted.effects!.lastCommentId as string;
+    assert.equal(posted.view.listEngagement!.comment_count, 1);
+    assert.equal(posted.comments!.threads[0].body, "Great list");
+    const { comments } = await alice.call("add_comment", { list_id: listId, parent_id: commentId, body: "Agreed" });
+    assert.equal(comments!.threads[0].replies[0].author_handle, "alice");
+    await assert.rejects(
+      alice.call("add_comment", { list_id: listId, item_id: itemId, parent_id: commentId, body: "Wrong thread" }),
+      /replying to doesn't exist/
+    );
+    const onItem = await alice.call("add_comment", { list_id: listId, item_id: itemId, body: "Classic" });
+    assert.equal(onItem.view.itemsActive[0].comment_count, 1);
+    assert.equal(onItem.view.listEngagement!.comment_count, 2);
+
+    await assert.rejects(
+      bob.call("edit_comment", { comment_id: comments!.threads[0].replies[0].id, body: "Mine now" }),
+      /your own comments/
+    );
+    const edited = await bob.call("edit_comment", { comment_id: commentId, body: "Great list!" });
+    assert.equal(edited.comments!.threads[0].edited, true);
+
+    const deleted = await bob.call("delete_comment", { comment_id: commentId });
+    assert.equal(deleted.comments!.threads[0].deleted, true);
+    assert.equal(deleted.comments!.threads[0].body, null);
+    assert.equal(deleted.comments!.threads[0].replies.length, 1);
+    assert.equal(deleted.view.listEngagement!.comment_count, 1);
+    await alice.call("delete_comment", { comment_id: comments!.threads[0].replies[0].id });
+    assert.equal(await carol.text("get_comments", { list_id: listId }), "No comments yet.");
+    const itemComments = await carol.call("get_comments", { list_id: listId, item_id: itemId });
+    assert.equal(itemComments.comments!.threads[0].body, "Classic");
+  });
+
+  it("lets list owners moderate and counts reactions", async () => {
+    const listId = await createList(carol, "Carol's debates");
+    const itemId = await addItem(carol, listId, "Alien");
+    const { effects } = await bob.call("add_comment", { list_id: listId, body: "Spoilers ahead" });
+    const commentId = effects!.lastCommentId as string;
+
+    await assert.rejects(
+      alice.call("moderate_comment", { comment_id: commentId, hidden: true }),
+      /Only the list's owner/
+    );
+    await assert.rejects(alice.call("delete_comment", { comment_id: commentId }), /your own comments/);
+    const moderated = await carol.call("moderate_comment", { comment_id: commentId, hidden: true });
+    assert.equal(moderated.comments!.threads[0].body, "Spoilers ahead");
+    assert.equal(moderated.view.listEngagement!.comment_count, 0);
+    const hidden = await alice.call("get_comments", { list_id: listId });
+    assert.equal(hidden.comments!.threads[0].hidden, true);
+    assert.equal(hidden.comments!.threads[0].body, null);
+    const own = await bob.call("get_comments", { list_id: listId });
+    assert.equal(own.comments!.threads[0].body, "Spoilers ahead");
+    await carol.call("delete_comment", { comment_id: commentId });
+
+    await alice.call("add_reaction", { list_id: listId, emoji: "🔥" });
+    await bob.call("add_reaction", { list_id: listId, emoji: "🔥" });
+    assert.match(await bob.text("add_reaction", { list_id: listId, emoji: "🔥" }), /already reacted/);
+    const { view } = await alice.call("add_reaction", { list_id: listId, item_id: itemId, emoji: "👍" });
+    assert.deepEqual(view.listEngagement!.reactions, [{ emoji: "🔥", count: 2, viewer_reacted: true }]);
+    assert.deepEqual(view.itemsActive[0].reactions, [{ emoji: "👍", count: 1, viewer_reacted: true }]);
+    const removed = await bob.call("remove_reaction", { list_id: listId, emoji: "🔥" });
+    assert.deepEqual(removed.view.listEngagement!.reactions, [{ emoji: "🔥", count: 1, viewer_reacted: false }]);
+    await assert.rejects(bob.call("add_reaction", { list_id: listId, emoji: "🙃" }), ToolCallError);
+
+    const privateId = await createList(carol, "Carol's notes", { visibility: "private" });
+    await assert.rejects(bob.call("add_comment", { list_id: privateId, body: "Hi" }), /List not found/);
+    await assert.rejects(bob.call("add_reaction", { list_id: privateId, emoji: "👀" }), /List not found/);
+  });
+});
+
+describe("notifications", () => {
+  it("tells users about follows, bookmarks and changes to lists they share", async () => {
+    const gus = await connectAs(repo, "gus");
+    const hana = await connectAs(repo, "hana");
+    try {
+      const gusId = await userId(gus);
+      await hana.call("follow_user", { user_id: gusId });
+      await hana.call("follow_user", { user_id: gusId });
+      const listId = await createList(gus, "Gus's picks");
+      const itemId = await addItem(gus, listId, "Arrival");
+      await hana.call("bookmark_item", { source_item_id: itemId });
+      await gus.call("invite_member", { list_id: listId, handle: "hana", role: "editor" });
+      await hana.call("accept_invite", { list_id: listId });
+      await addItem(hana, listId, "Sicario");
+      await addItem(hana, listId, "Dune");
+      await addItem(gus, listId, "Enemy");
+
+      const { view, notifications } = await gus.call("get_notifications");
+      assert.equal(view.viewer.unreadNotifications, 3);
+      assert.deepEqual(
+        notifications!.entries.map((entry: { description: string }) => entry.description),
+        ["@hana made 2 changes to “Gus's picks”", "@hana saved “Arrival” from “Gus's picks”", "@hana followed you"]
+      );
+      const hanaInbox = await hana.call("get_notifications");
+      assert.deepEqual(
+        hanaInbox.notifications!.entries.map((entry: { description: string }) => entry.description),
+        ["@gus changed “Gus's picks”"]
+      );
+
+      const [latest] = notifications!.entries;
+      const marked = await gus.call("mark_notifications_read", { notification_ids: [latest.id] });
+      assert.equal(marked.notifications!.unreadCount, 2);
+      const unread = await gus.call("get_notifications", { unread_only: true });
+      assert.equal(unread.notifications!.entries.length, 2);
+      await addItem(hana, listId, "Prisoners");
+      const folded = await gus.call("get_notifications", { unread_only: true });
+      assert.equal(folded.notifications!.entries[0].description, "@hana changed “Gus's picks”");
+
+      const muted = await gus.call("set_notification_preferences", { muted_types: ["list_edit"] });
+      assert.deepEqual(muted.notifications!.mutedTypes, ["list_edit"]);
+      await gus.call("mark_notifications_read");
+      await addItem(hana, listId, "Incendies");
+      assert.equal(await gus.text("get_notifications", { unread_only: true }), "You're all caught up.");
+    } finally {
+      await Promise.all([gus.close(), hana.close()]);
+    }
+  });
+});
+
+describe("recommendations", () => {
+  it("suggests co-saved items, their lists and their owners, minus what the viewer has", async () => {
+    const ivy = await connectAs(repo, "ivy");
+    const jake = await connectAs(repo, "jake");
+    const kim = await connectAs(repo, "kim");
+    try {
+      const listId = await createList(kim, "Kim's noir");
+      const laura = await addItem(kim, listId, "Laura");
+      const gilda = await addItem(kim, listId, "Gilda");
+      const vertigo = await addItem(kim, listId, "Vertigo");
+      for (const itemId of [laura, gilda, vertigo]) {
+        await jake.call("bookmark_item", { source_item_id: itemId });
+      }
+      await ivy.call("bookmark_item", { source_item_id: laura });
+      await ivy.call("bookmark_item", { source_item_id: gilda });
+
+      const stale = await ivy.call("recommend", { item_id: laura });
+      const staleItems = stale.view.searchResults!.recommendations!.items;
+      assert.equal(staleItems.some((item: { id: string }) => item.id === vertigo), false);
+
+      await repo.refreshRecommendations();
+      const { view } = await ivy.call("recommend", { item_id: laura });
+      const { items, lists, users } = view.searchResults!.recommendations!;
+      assert.equal(view.mode, "search");
+      assert.deepEqual([items[0].title, items[0].co_saves], ["Vertigo", 1]);
+      assert.equal(items.some((item: { id: string }) => item.id === laura || item.id === gilda), false);
+      assert.equal(items.some((item: { owner_handle: string }) => item.owner_handle === "ivy"), false);
+      assert.equal(lists[0].id, listId);
+      assert.equal(users[0].handle, "kim");
+      assert.equal(users[0].savedFrom, 2);
+
+      await ivy.call("fork_list", { list_id: listId });
+      await ivy.call("follow_user", { user_id: await userId(kim) });
+      const byDefault = await ivy.call("recommend");
+      const suggested = byDefault.view.searchResults!.recommendations;
+      assert.equal(suggested!.items.some((item: { id: string }) => item.id === vertigo), false);
+      assert.equal(suggested!.lists.some((list: { id: string }) => list.id === listId), false);
+      assert.equal(suggested!.users.some((user: { handle: string }) => user.handle === "kim"), false);
+    } finally {
+      await Promise.all([ivy.close(), jake.close(), kim.close()]);
+    }
+  });
+});
+
+describe("tags", () => {
+  it("normalizes item tags, filters a list by tag and undoes tag edits", async () => {
+    const lena = await connectAs(repo, "lena");
+    try {
+      const listId = await createList(lena, "Watchlist");
+      const laura = await addItem(lena, listId, "Laura", { tags: ["#Noir", "noir", " Date  Night "] });
+      await addItem(lena, listId, "Paddington", { tags: ["family"] });
+      const added = await lena.call("get_list", { list_id: listId });
+      assert.deepEqual(added.view.itemsActive[1].tags, ["date night", "noir"]);
+      assert.deepEqual(
+        added.view.viewerTags.map((row: { tag: string }) => row.tag),
+        ["date night", "family", "noir"]
+      );
+
+      await lena.call("update_item", { list_id: listId, item_id: laura, tags: ["noir", "classic"] });
+      const filtered = await lena.call("get_list", { list_id: listId, tag: "#CLASSIC", limit: 1 });
+      assert.equal(filtered.view.itemTag, "classic");
+      assert.deepEqual(titles(filtered.view.itemsActive), ["Laura"]);
+      assert.equal(filtered.view.itemsNextCursor!.active, null);
+
+      const undone = await lena.call("undo_last_change", { list_id: listId });
+      assert.deepEqual(undone.view.itemsActive[1].tags, ["date night", "noir"]);
+      const { tags } = await lena.call("get_tags", { prefix: "d" });
+      assert.deepEqual(tags, [{ tag: "date night", count: 1 }]);
+    } finally {
+      await lena.close();
+    }
+  });
+
+  it("finds tagged items across the viewer's lists or across public lists", async () => {
+    const milo = await connectAs(repo, "milo");
+    const nora = await connectAs(repo, "nora");
+    try {
+      const mine = await createList(milo, "Weeknight", { type: "recipes", visibility: "private" });
+      await addItem(milo, mine, "Dal", { tags: ["quick"] });
+      const theirs = await createList(nora, "Dinners", { type: "recipes" });
+      await addItem(nora, theirs, "Omelette", { tags: ["quick"] });
+      const hidden = await createList(nora, "Drafts", { type: "recipes", visibility: "private" });
+      await addItem(nora, hidden, "Secret stew", { tags: ["quick"] });
+
+      const own = await milo.call("get_items_by_tag", { tag: "Quick" });
+      assert.equal(own.view.mode, "search");
+      assert.deepEqual(titles(own.view.searchResults!.tagged!.items), ["Dal"]);
+
+      const discovered = await milo.call("get_items_by_tag", {
+        tag: "quick",
+        scope: "public",
+        owner: "nora",
+      });
+      assert.deepEqual(titles(discovered.view.searchResults!.tagged!.items), ["Omelette"]);
+      await assert.rejects(milo.call("get_items_by_tag", { tag: "quick", owner: "nora" }), /public scope/);
+    } finally {
+      await Promise.all([milo.close(), nora.close()]);
+    }
+  });
+});
+
+describe("limits", () => {
+  it("caps lists per user and items per list", async () => {
+    const auth = { authProviderId: "test-gina", handle: "gina", scopes: [...SCOPES] };
+    const gina = await connectWith(repo, auth, { maxListsPerUser: 2, maxItemsPerList: 2 });
+    try {
+      const first = await createList(gina, "First");
+      const second = await createList(gina, "Second");
+      await assert.rejects(createList(gina, "Third"), /at most 2 lists/);
+      await assert.rejects(
+        gina.call("import_list", { format: "markdown", content: "- [ ] One" }),
+        /at most 2 lists/
+      );
+
+      await addItem(gina, first, "One");
+      const two = await addItem(gina, first, "Two");
+      await assert.rejects(addItem(gina, first, "Three"), /at most 2 items and this one has 2/);
+      await assert.rejects(
+        gina.call("import_list", { format: "markdown", content: "- [ ] Three", list_id: first }),
+        /at most 2 items/
+      );
+
+      await gina.call("delete_item", { list_id: first, item_id: two });
+      await addItem(gina, first, "Three");
+      await assert.rejects(gina.call("restore", { item_id: two }), /at most 2 items/);
+
+      await gina.call("delete_list", { list_id: second });
+      await createList(gina, "Replacement");
+      await assert.rejects(gina.call("restore", { list_id: second }), /at most 2 lists/);
+    } finally {
+      await gina.close();
+    }
+  });
+
+  it("answers tool calls over budget with a retry hint", async () => {
+    const rateLimiter = createRateLimiter({
+      store: createMemoryRateLimitStore(),
+      budgets: {
+        request: null,
+        read: { capacity: 5, refillPerSecond: 1 },
+        write: { capacity: 1, refillPerSecond: 0.5 },
+      },
+    });
+    const auth = { authProviderId: "test-hank", handle: "hank", scopes: [...SCOPES] };
+    const hank = await connectWith(repo, auth, { rateLimiter, clientIp: () => "203.0.113.7" });
+    try {
+      await createList(hank, "Allowed");
+      const result = await hank.client.callTool({
+        name: "create_list",
+        arguments: { title: "Too fast", type: "general" },
+      });
+      assert.equal(result.isError, true);
+      assert.match((result.content as { text: string }[])[0].text, /Too many write calls/);
+      assert.equal(result._meta?.retryAfterSeconds, 2);
+      // Reads have their own budget.
+      await hank.call("list_my_lists");
+    } finally {
+      await hank.close();
+    }
+  });
+});
+
+describe("coverage", () => {
+  it("exercises every registered tool", async () => {
+    const { tools } = await alice.client.listTools();
+    const missing = tools.map((tool) => tool.name).filter((name) => !calledTools.has(name));
+    assert.deepEqual(missing, []);
+  });
+});
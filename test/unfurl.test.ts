@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { createLinkUnfurler, fetchLinkPreview, unfurlBatch, UnfurlError } from "../src/unfurl.js";
+import type { LinkPreview } from "../src/unfurl.js";
+
+const pages: Record<string, { status?: number; type?: string; body?: string; location?: string }> = {
+  "/article": {
+    type: "text/html; charset=utf-8",
+    body: `<html><head>
+      <title>Fallback title</title>
+      <meta property="og:title" content="Tom &amp; Jerry">
+      <meta property="og:site_name" content="Cartoons">
+      <meta name="description" content="A cat and a mouse.">
+      <meta property="og:image" content="/poster.jpg">
+      <link rel="canonical" href="/article?ref=canonical">
+    </head><body></body></html>`,
+  },
+  "/moved": { status: 301, location: "/article" },
+  "/poster.jpg": { type: "image/jpeg", body: "not really a jpeg" },
+  "/data.json": { type: "application/json", body: "{}" },
+};
+
+let origin: string;
+let requests = 0;
+const server = createServer((request, response) => {
+  requests += 1;
+  const page = pages[request.url ?? ""];
+  if (!page) {
+    response.writeHead(404).end();
+    return;
+  }
+  response.writeHead(page.status ?? 200, {
+    ...(page.type ? { "content-type": page.type } : {}),
+    ...(page.location ? { location: page.location } : {}),
+  });
+  response.end(page.body ?? "");
+});
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("fetchLinkPreview", () => {
+  const options = { allowPrivateNetworks: true };
+
+  it("reads Open Graph tags and resolves relative urls", async () => {
+    const preview = await fetchLinkPreview(`${origin}/article`, options);
+    assert.deepEqual(preview, {
+      site_name: "Cartoons",
+      title: "Tom & Jerry",
+      description: "A cat and a mouse.",
+      canonical_url: `${origin}/article?ref=canonical`,
+      image_url: `${origin}/poster.jpg`,
+    });
+  });
+
+  it("follows redirects", async () => {
+    const preview = await fetchLinkPreview(`${origin}/moved`, options);
+    assert.equal(preview?.title, "Tom & Jerry");
+  });
+
+  it("previews images as themselves and skips other content", async () => {
+    const image = await fetchLinkPreview(`${origin}/poster.jpg`, options);
+    assert.equal(image?.image_url, `${origin}/poster.jpg`);
+    assert.equal(await fetchLinkPreview(`${origin}/data.json`, options), null);
+  });
+
+  it("refuses private addresses unless allowed", async () => {
+    await assert.rejects(fetchLinkPreview(`${origin}/article`), UnfurlError);
+  });
+});
+
+describe("createLinkUnfurler", () => {
+  it("caches previews and swallows failures", async () => {
+    const unfurler = createLinkUnfurler({ allowPrivateNetworks: true });
+    const before = requests;
+    const first = await unfurler.unfurl(`${origin}/article`);
+    const second = await unfurler.unfurl(`${origin}/article`);
+    assert.equal(first, second);
+    assert.equal(requests - before, 1);
+
+    assert.equal(await unfurler.unfurl(`${origin}/missing`), null);
+    unfurler.clearCache();
+    await unfurler.unfurl(`${origin}/article`);
+    assert.equal(requests - before, 3);
+  });
+});
+
+describe("unfurlBatch", () => {
+  it("keeps a few fetches in flight and returns previews in order", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const slowUnfurl = async (url: string): Promise<LinkPreview | null> => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return { site_name: null, title: url, description: null, canonical_url: url, image_url: null };
+    };
+    const urls = Array.from({ length: 10 }, (_, index) => `https://example.com/${index}`);
+    const previews = await unfurlBatch([...urls, undefined, ""], slowUnfurl, 3);
+    assert.equal(peak, 3);
+    assert.deepEqual(previews.slice(0, 10).map((preview) => preview?.title), urls);
+    assert.deepEqual(previews.slice(10), [undefined, null]);
+  });
+});